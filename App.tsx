@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { StatusBar } from "expo-status-bar";
 import {
   StyleSheet,
@@ -7,23 +7,157 @@ import {
   TouchableOpacity,
   ScrollView,
   Alert,
+  Share,
+  Platform,
+  TextInput,
 } from "react-native";
 import { useAudioPlayer, useAudioPlayerStatus } from "expo-audio";
-import { useResumableSpeechRecognition } from "./useResumableSpeechRecognition";
+import {
+  RecordingSession,
+  SpeechRecognitionResult,
+  useResumableSpeechRecognition,
+} from "./useResumableSpeechRecognition";
+import { isRecordingActive } from "./recordingStateMachine";
+import { errorMessage } from "./recognitionErrors";
+import {
+  DEFAULT_RECORDING_LIMITS,
+  describeAutoStop,
+  RecordingLimits,
+} from "./recordingLimits";
+import { useAudioJob } from "./useAudioJob";
+import { useAudioInfo } from "./useAudioInfo";
 import { RecordingOverlay } from "./RecordingOverlay";
-import AudioutilsModule from "./modules/audioutils";
+import { Waveform } from "./Waveform";
+import { TranscriptSearch } from "./TranscriptSearch";
+import { SessionList } from "./SessionList";
+import {
+  getSessionTitle,
+  parseTags,
+  suggestSessionTitle,
+} from "./sessionMetadata";
+import type { SearchHit } from "./transcriptSearch";
+import AudioutilsModule, {
+  AudioInfo,
+  ExportAudioFormat,
+  JoinAudioFilesOptions,
+} from "./modules/audioutils";
+import { findSegmentForResult } from "./segmentTiming";
+import { alternativesForFile } from "./retranscription";
+import {
+  canRedoRevision,
+  canUndoRevision,
+  rawTranscript,
+} from "./transcriptRevisions";
+import {
+  exportTranscript,
+  formatTranscript,
+  TranscriptExportFormat,
+} from "./transcriptExport";
+
+const EXPORT_FORMATS: { format: TranscriptExportFormat; label: string }[] = [
+  { format: "srt", label: "SRT" },
+  { format: "vtt", label: "WebVTT" },
+  { format: "txt", label: "Text" },
+  { format: "md", label: "Markdown" },
+];
+
+// WAV shares the joined file as is, the other formats are encoded from it
+const AUDIO_EXPORT_FORMATS: {
+  format: ExportAudioFormat | "wav";
+  label: string;
+}[] = [
+  { format: "wav", label: "WAV" },
+  { format: "flac", label: "FLAC" },
+  // Browsers have no AAC encoder
+  ...(Platform.OS === "web" ? [] : [{ format: "m4a" as const, label: "M4A" }]),
+];
+
+const JOIN_TRANSITIONS: { label: string; options?: JoinAudioFilesOptions }[] = [
+  { label: "None" },
+  { label: "Fade", options: { fadeInMs: 10, fadeOutMs: 10 } },
+  { label: "Gap", options: { gapMs: 300, fadeInMs: 10, fadeOutMs: 10 } },
+  {
+    label: "Crossfade",
+    options: { crossfade: { durationMs: 50, curve: "equalPower" } },
+  },
+];
+
+// On web the module's results are object URLs, which the app has to revoke
+const revokeObjectUrl = (uri: string | null) => {
+  if (Platform.OS === "web" && uri?.startsWith("blob:")) {
+    URL.revokeObjectURL(uri);
+  }
+};
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+// e.g. "0:12 • 16 kHz mono 16-bit • 375 KB"
+const formatAudioInfo = (info: AudioInfo) => {
+  const channels =
+    info.numChannels === 1
+      ? "mono"
+      : info.numChannels === 2
+      ? "stereo"
+      : `${info.numChannels} ch`;
+  return `${formatTime(info.durationMs / 1000)} • ${
+    info.sampleRate / 1000
+  } kHz ${channels} ${info.bitsPerSample}-bit • ${Math.round(
+    info.byteSize / 1024
+  )} KB`;
+};
 
 interface AudioPlayerItemProps {
   fileUri: string;
   fileName: string;
+  info?: AudioInfo;
+  /** Transcript of the recording, shown below its name */
+  transcript?: string;
+  /** Split the file at the playback position, shows the editing controls */
+  onSplit?: (offsetMs: number) => void;
+  /** Remove a range of the file, marked with the playback position */
+  onCut?: (startMs: number, endMs: number) => void;
+  /** Disable the editing controls, e.g. while recording */
+  editDisabled?: boolean;
+  /** Extra controls shown below the player */
+  children?: React.ReactNode;
 }
 
 const AudioPlayerItem: React.FC<AudioPlayerItemProps> = ({
   fileUri,
   fileName,
+  info,
+  transcript,
+  onSplit,
+  onCut,
+  editDisabled = false,
+  children,
 }) => {
   const player = useAudioPlayer({ uri: fileUri });
   const status = useAudioPlayerStatus(player);
+  // Start of the range to cut, set with the first press of the cut button
+  const [cutStartMs, setCutStartMs] = useState<number | null>(null);
+  const positionMs = Math.round(status.currentTime * 1000);
+  const durationMs = info?.durationMs ?? status.duration * 1000;
+  const canSplit = positionMs > 0 && positionMs < durationMs;
+
+  const handleCut = () => {
+    if (cutStartMs === null) {
+      setCutStartMs(positionMs);
+      return;
+    }
+    setCutStartMs(null);
+    if (positionMs !== cutStartMs) {
+      player.pause();
+      onCut?.(
+        Math.min(cutStartMs, positionMs),
+        Math.max(cutStartMs, positionMs)
+      );
+    }
+  };
 
   const handlePlay = () => {
     player.play();
@@ -40,6 +174,14 @@ const AudioPlayerItem: React.FC<AudioPlayerItemProps> = ({
     <View style={styles.audioFileItem}>
       <View style={styles.audioFileInfo}>
         <Text style={styles.audioFileName}>{fileName}</Text>
+        {info && (
+          <Text style={styles.audioFileDetails}>{formatAudioInfo(info)}</Text>
+        )}
+        {!!transcript && (
+          <Text style={styles.segmentTranscript} numberOfLines={2}>
+            {transcript}
+          </Text>
+        )}
       </View>
       <View style={styles.audioControls}>
         <TouchableOpacity
@@ -54,14 +196,190 @@ const AudioPlayerItem: React.FC<AudioPlayerItemProps> = ({
           </Text>
         </TouchableOpacity>
       </View>
+      <Waveform uri={fileUri} player={player} buckets={50} height={28} />
+      {/* Edits at the playback position, seek with the waveform */}
+      {onSplit && onCut && (
+        <View style={styles.optionRow}>
+          <TouchableOpacity
+            style={[
+              styles.optionButton,
+              (editDisabled || !canSplit) && styles.buttonDisabled,
+            ]}
+            onPress={() => {
+              player.pause();
+              onSplit(positionMs);
+            }}
+            disabled={editDisabled || !canSplit}
+          >
+            <Text style={styles.optionButtonText}>
+              Split at {formatTime(positionMs / 1000)}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.optionButton,
+              cutStartMs !== null && styles.selectedOption,
+              editDisabled && styles.buttonDisabled,
+            ]}
+            onPress={handleCut}
+            disabled={editDisabled}
+          >
+            <Text style={styles.optionButtonText}>
+              {cutStartMs === null
+                ? `Cut from ${formatTime(positionMs / 1000)}`
+                : `Cut ${formatTime(cutStartMs / 1000)}–${formatTime(
+                    positionMs / 1000
+                  )}`}
+            </Text>
+          </TouchableOpacity>
+          {cutStartMs !== null && (
+            <TouchableOpacity
+              style={styles.optionButton}
+              onPress={() => setCutStartMs(null)}
+            >
+              <Text style={styles.optionButtonText}>Cancel Cut</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+      {children}
+    </View>
+  );
+};
+
+interface TranscriptResultEditorProps {
+  result: SpeechRecognitionResult;
+  onEdit: (text: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+// One transcript result as an editable field, saved when editing ends
+const TranscriptResultEditor: React.FC<TranscriptResultEditorProps> = ({
+  result,
+  onEdit,
+  onUndo,
+  onRedo,
+}) => {
+  const [draft, setDraft] = useState(result.transcript);
+  const raw = rawTranscript(result);
+
+  // Follow undo and redo
+  useEffect(() => {
+    setDraft(result.transcript);
+  }, [result.transcript]);
+
+  return (
+    <View style={styles.resultEditor}>
+      <TextInput
+        style={styles.resultInput}
+        value={draft}
+        onChangeText={setDraft}
+        onEndEditing={() => onEdit(draft)}
+        multiline
+      />
+      {raw !== result.transcript && (
+        <Text style={styles.rawTranscript}>Recognized: {raw}</Text>
+      )}
+      <View style={styles.optionRow}>
+        <TouchableOpacity
+          style={[
+            styles.optionButton,
+            !canUndoRevision(result) && styles.buttonDisabled,
+          ]}
+          onPress={onUndo}
+          disabled={!canUndoRevision(result)}
+        >
+          <Text style={styles.optionButtonText}>Undo</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.optionButton,
+            !canRedoRevision(result) && styles.buttonDisabled,
+          ]}
+          onPress={onRedo}
+          disabled={!canRedoRevision(result)}
+        >
+          <Text style={styles.optionButtonText}>Redo</Text>
+        </TouchableOpacity>
+      </View>
     </View>
   );
 };
 
+interface SessionDetailsEditorProps {
+  session: RecordingSession;
+  onRename: (title: string) => void;
+  onChangeNotes: (notes: string) => void;
+  onChangeTags: (tags: string[]) => void;
+}
+
+// Title, tags and notes of a session, each saved when editing ends
+const SessionDetailsEditor: React.FC<SessionDetailsEditorProps> = ({
+  session,
+  onRename,
+  onChangeNotes,
+  onChangeTags,
+}) => {
+  const [title, setTitle] = useState(session.title ?? "");
+  const [tags, setTags] = useState(session.tags.join(", "));
+  const [notes, setNotes] = useState(session.notes);
+
+  // Follow the session when another one is opened
+  useEffect(() => {
+    setTitle(session.title ?? "");
+    setTags(session.tags.join(", "));
+    setNotes(session.notes);
+  }, [session.id, session.title, session.tags, session.notes]);
+
+  return (
+    <View style={styles.sessionDetails}>
+      <TextInput
+        style={styles.sessionTitleInput}
+        value={title}
+        onChangeText={setTitle}
+        onEndEditing={() => onRename(title)}
+        // The suggested title is used until the session is renamed
+        placeholder={suggestSessionTitle(session) ?? "Title"}
+      />
+      <TextInput
+        style={styles.sessionDetailsInput}
+        value={tags}
+        onChangeText={setTags}
+        onEndEditing={() => onChangeTags(parseTags(tags))}
+        placeholder="Tags, separated by commas"
+        autoCapitalize="none"
+      />
+      <TextInput
+        style={styles.sessionDetailsInput}
+        value={notes}
+        onChangeText={setNotes}
+        onEndEditing={() => onChangeNotes(notes)}
+        placeholder="Notes"
+        multiline
+      />
+    </View>
+  );
+};
+
+// Sessions keep their own language, new ones take the latest session's
+const RECOGNITION_OPTIONS = {
+  interimResults: true,
+  continuous: true,
+};
+
 export default function App() {
+  // The recording overlay changes the limits for its recording mode
+  const [recordingLimits, setRecordingLimits] = useState<RecordingLimits>(
+    DEFAULT_RECORDING_LIMITS
+  );
+  // Shared with the recording overlay, so both see the same sessions and only
+  // one of them writes the session manifest
+  const recognition = useResumableSpeechRecognition({
+    limits: recordingLimits,
+  });
   const {
-    isListening,
-    isPaused,
+    status,
     currentSession,
     allSessions,
     transcript,
@@ -73,33 +391,147 @@ export default function App() {
     clearSessions,
     createNewSession,
     switchToSession,
-  } = useResumableSpeechRecognition();
+    renameSession,
+    setSessionNotes,
+    setSessionTags,
+    updateSessionSegments,
+    rerecordingIndex,
+    lastError,
+    autoStop,
+    clearError,
+    splitSegment,
+    cutSegmentRange,
+    deleteSegment,
+    moveSegment,
+    rerecordSegment,
+    retranscription,
+    retranscribeSession,
+    acceptRetranscription,
+    discardRetranscription,
+    editTranscript,
+    undoTranscriptEdit,
+    redoTranscriptEdit,
+  } = recognition;
 
   const [selectedSessionId, setSelectedSessionId] = useState<string | null>(
     null
   );
+  const [isEditingTranscript, setIsEditingTranscript] = useState(false);
+  const canEditTranscript =
+    !!currentSession &&
+    currentSession.transcripts.length > 0 &&
+    !isRecordingActive(status);
   const [currentPlayingFile, setCurrentPlayingFile] = useState<string | null>(
     null
   );
   const [showRecordingOverlay, setShowRecordingOverlay] = useState(false);
-  const [joinedAudioFile, setJoinedAudioFile] = useState<string | null>(null);
-  const [isJoining, setIsJoining] = useState(false);
+  const [showSessionList, setShowSessionList] = useState(false);
+  // Joined audio by session id, it matches only its own session's segments
+  const [joinedAudioFiles, setJoinedAudioFiles] = useState<
+    Record<string, string>
+  >({});
+  const joinedAudioFile =
+    (currentSession && joinedAudioFiles[currentSession.id]) || null;
+  const joinJob = useAudioJob();
+  const exportJob = useAudioJob();
+  // Only for the session on screen, the list makes do with the durations
+  // measured while recording
+  const audioInfo = useAudioInfo(
+    currentSession?.audioFiles ?? [],
+    currentSession
+  );
+  const [joinTransitionIndex, setJoinTransitionIndex] = useState(0);
+  const [trimJoinSilence, setTrimJoinSilence] = useState(false);
 
   // Player for joined audio file
   const joinedAudioPlayer = useAudioPlayer({
     uri: joinedAudioFile || "",
   });
   const joinedAudioStatus = useAudioPlayerStatus(joinedAudioPlayer);
+  // Plays the segment of a search hit
+  const searchHitPlayer = useAudioPlayer(null);
+  // Where to play a search hit from once its session's joined audio loaded
+  const [pendingHitSeek, setPendingHitSeek] = useState<{
+    sessionId: string;
+    startMs: number;
+  } | null>(null);
 
   const handleStartRecording = async () => {
     try {
-      await start({
-        lang: "en-US",
-        interimResults: true,
-        continuous: true,
-      });
+      await start(RECOGNITION_OPTIONS);
     } catch (error) {
-      Alert.alert("Error", "Failed to start recording");
+      Alert.alert("Error", errorMessage(error, "Failed to start recording"));
+    }
+  };
+
+  const handleDeleteSegment = (index: number) => {
+    if (!currentSession) return;
+    const sessionId = currentSession.id;
+
+    Alert.alert("Delete Segment", "Delete this recording and its transcript?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () => {
+          try {
+            deleteSegment(sessionId, index);
+          } catch (error) {
+            Alert.alert(
+              "Error",
+              errorMessage(error, "Failed to delete segment")
+            );
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleRerecordSegment = async (index: number) => {
+    try {
+      await rerecordSegment(index);
+    } catch (error) {
+      Alert.alert("Error", errorMessage(error, "Failed to start recording"));
+    }
+  };
+
+  const handleSplitSegment = async (uri: string, offsetMs: number) => {
+    if (!currentSession) return;
+    try {
+      await splitSegment(currentSession.id, uri, [offsetMs]);
+    } catch (error) {
+      Alert.alert("Error", errorMessage(error, "Failed to split segment"));
+    }
+  };
+
+  const handleCutSegment = async (
+    uri: string,
+    startMs: number,
+    endMs: number
+  ) => {
+    if (!currentSession) return;
+    try {
+      await cutSegmentRange(currentSession.id, uri, startMs, endMs);
+    } catch (error) {
+      Alert.alert("Error", errorMessage(error, "Failed to cut segment"));
+    }
+  };
+
+  // The new take replaces the segment once the recording paused
+  const handleStopRerecording = async () => {
+    try {
+      await pause();
+    } catch (error) {
+      Alert.alert("Error", errorMessage(error, "Failed to stop recording"));
+    }
+  };
+
+  const handleRetranscribe = async () => {
+    if (!currentSession) return;
+    try {
+      await retranscribeSession(currentSession.id);
+    } catch (error) {
+      Alert.alert("Error", errorMessage(error, "Failed to re-transcribe"));
     }
   };
 
@@ -115,9 +547,14 @@ export default function App() {
           onPress: async () => {
             try {
               await clearSessions();
+              Object.values(joinedAudioFiles).forEach(revokeObjectUrl);
+              setJoinedAudioFiles({});
               setSelectedSessionId(null);
             } catch (error) {
-              Alert.alert("Error", "Failed to clear sessions");
+              Alert.alert(
+                "Error",
+                errorMessage(error, "Failed to clear sessions")
+              );
             }
           },
         },
@@ -142,31 +579,176 @@ export default function App() {
       return;
     }
 
-    setIsJoining(true);
     try {
       console.log("Joining audio files:", currentSession.audioFiles);
-      const joinedFileUri = await AudioutilsModule.joinAudioFiles(
-        currentSession.audioFiles
+      const result = await joinJob.run((jobId) =>
+        AudioutilsModule.joinAudioFiles(currentSession.audioFiles, {
+          ...JOIN_TRANSITIONS[joinTransitionIndex].options,
+          trimSilence: trimJoinSilence ? {} : undefined,
+          jobId,
+        })
       );
-      setJoinedAudioFile(joinedFileUri);
+      if (!result) {
+        console.log("Joining audio files was cancelled");
+        return;
+      }
+      const { uri: joinedFileUri, segments } = result;
+      const sessionId = currentSession.id;
+      revokeObjectUrl(joinedAudioFiles[sessionId] ?? null);
+      setJoinedAudioFiles((prev) => ({ ...prev, [sessionId]: joinedFileUri }));
+      updateSessionSegments(sessionId, segments);
       console.log("Joined audio file created:", joinedFileUri);
-      Alert.alert("Success", "Audio files joined successfully!");
+      const trimmedMs = segments.reduce(
+        (total, segment) =>
+          total + (segment.trimmedStartMs ?? 0) + (segment.trimmedEndMs ?? 0),
+        0
+      );
+      Alert.alert(
+        "Success",
+        trimJoinSilence
+          ? `Audio files joined successfully! Trimmed ${(
+              trimmedMs / 1000
+            ).toFixed(1)}s of silence.`
+          : "Audio files joined successfully!"
+      );
     } catch (error) {
       console.error("Error joining audio files:", error);
-      Alert.alert("Error", "Failed to join audio files");
-    } finally {
-      setIsJoining(false);
+      Alert.alert("Error", errorMessage(error, "Failed to join audio files"));
     }
   };
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, "0")}`;
+  const handleExportTranscript = async (format: TranscriptExportFormat) => {
+    if (!currentSession || currentSession.transcripts.length === 0) {
+      Alert.alert("No Transcript", "No transcript available to export");
+      return;
+    }
+
+    try {
+      const { uri } = exportTranscript(currentSession, format);
+      console.log("Transcript exported:", uri);
+      // Android only shares the message, iOS shares the file
+      await Share.share({
+        url: uri,
+        message: formatTranscript(currentSession, format),
+      });
+    } catch (error) {
+      console.error("Error exporting transcript:", error);
+      Alert.alert("Error", "Failed to export transcript");
+    }
+  };
+
+  const handleExportAudio = async (format: ExportAudioFormat | "wav") => {
+    if (!joinedAudioFile) return;
+
+    try {
+      const uri =
+        format === "wav"
+          ? joinedAudioFile
+          : (
+              await exportJob.run((jobId) =>
+                AudioutilsModule.exportAudio(joinedAudioFile, { format, jobId })
+              )
+            )?.uri;
+      if (!uri) {
+        console.log("Exporting audio was cancelled");
+        return;
+      }
+      console.log("Audio exported:", uri);
+      try {
+        // Android only shares the message, iOS shares the file
+        await Share.share({ url: uri, message: uri.split("/").pop() || uri });
+      } finally {
+        if (uri !== joinedAudioFile) {
+          revokeObjectUrl(uri);
+        }
+      }
+    } catch (error) {
+      console.error("Error exporting audio:", error);
+      Alert.alert("Error", "Failed to export audio");
+    }
   };
 
+  const handleSeekToSegment = (startMs: number) => {
+    joinedAudioPlayer.seekTo(startMs / 1000);
+    joinedAudioPlayer.play();
+  };
+
+  // Open the hit's session and play from the start of its segment, in the
+  // joined audio when the session was joined
+  const handleSelectSearchHit = (hit: SearchHit) => {
+    handleSwitchSession(hit.sessionId);
+    setPendingHitSeek(null);
+    if (!hit.audioFileUri) return;
+
+    const session = allSessions.find((s) => s.id === hit.sessionId);
+    const segment = session?.segments.find(
+      (segment) => segment.uri === hit.audioFileUri
+    );
+    searchHitPlayer.pause();
+    if (joinedAudioFiles[hit.sessionId] && segment) {
+      // The switched session and its player only exist after the next render
+      setPendingHitSeek({ sessionId: hit.sessionId, startMs: segment.startMs });
+      return;
+    }
+    joinedAudioPlayer.pause();
+    searchHitPlayer.replace({ uri: hit.audioFileUri });
+    searchHitPlayer.play();
+  };
+
+  // Ask the player itself, the status can still be the previous player's.
+  // Status updates run this again until the new file loaded.
+  useEffect(() => {
+    if (
+      !pendingHitSeek ||
+      pendingHitSeek.sessionId !== currentSession?.id ||
+      !joinedAudioPlayer.isLoaded
+    ) {
+      return;
+    }
+    setPendingHitSeek(null);
+    handleSeekToSegment(pendingHitSeek.startMs);
+  }, [
+    pendingHitSeek,
+    currentSession?.id,
+    joinedAudioPlayer,
+    joinedAudioStatus,
+  ]);
+
+  // Total length of a session's recordings, falling back to the measured
+  // segment durations for other sessions and until getAudioInfo has loaded
+  const getSessionDurationMs = (session: RecordingSession) =>
+    session.audioFiles.reduce(
+      (total, uri) =>
+        total +
+        (audioInfo[uri]?.durationMs ??
+          session.segments.find((segment) => segment.uri === uri)?.durationMs ??
+          0),
+      0
+    );
+
   if (showRecordingOverlay) {
-    return <RecordingOverlay onClose={() => setShowRecordingOverlay(false)} />;
+    return (
+      <RecordingOverlay
+        recognition={recognition}
+        onChangeLimits={setRecordingLimits}
+        onClose={() => setShowRecordingOverlay(false)}
+      />
+    );
+  }
+
+  if (showSessionList) {
+    return (
+      <SessionList
+        sessions={allSessions}
+        selectedSessionId={selectedSessionId}
+        getDurationMs={getSessionDurationMs}
+        onSelectSession={(sessionId) => {
+          handleSwitchSession(sessionId);
+          setShowSessionList(false);
+        }}
+        onClose={() => setShowSessionList(false)}
+      />
+    );
   }
 
   return (
@@ -174,108 +756,342 @@ export default function App() {
       <StatusBar style="dark" />
 
       <ScrollView style={styles.content}>
-        {/* Session Tabs */}
+        {/* Search across the transcripts of all sessions */}
         {allSessions.length > 0 && (
-          <View style={styles.tabsContainer}>
-            <Text style={styles.sectionTitle}>
-              Sessions ({allSessions.length})
-            </Text>
-            <ScrollView
-              horizontal
-              showsHorizontalScrollIndicator={false}
-              style={styles.tabsScrollView}
-            >
-              <View style={styles.tabsRow}>
-                {allSessions.map((session, index) => {
-                  const isSelected = selectedSessionId === session.id;
-                  const sessionNumber = index + 1;
-                  const timeStr = session.startTime.toLocaleTimeString([], {
-                    hour: "2-digit",
-                    minute: "2-digit",
-                  });
+          <TranscriptSearch
+            sessions={allSessions}
+            onSelectHit={handleSelectSearchHit}
+          />
+        )}
 
-                  return (
-                    <TouchableOpacity
-                      key={session.id}
-                      style={[
-                        styles.tab,
-                        isSelected && styles.activeTab,
-                        session.isActive && styles.activeSessionTab,
-                      ]}
-                      onPress={() => handleSwitchSession(session.id)}
-                    >
-                      <Text
-                        style={[
-                          styles.tabText,
-                          isSelected && styles.activeTabText,
-                        ]}
-                      >
-                        Session {sessionNumber}
-                      </Text>
-                      <Text
-                        style={[
-                          styles.tabSubtext,
-                          isSelected && styles.activeTabSubtext,
-                        ]}
-                      >
-                        {timeStr} • {session.audioFiles.length} files
-                      </Text>
-                    </TouchableOpacity>
-                  );
-                })}
-              </View>
-            </ScrollView>
+        {/* Current session, with a way to the list of all sessions */}
+        {allSessions.length > 0 && (
+          <View style={styles.sessionsContainer}>
+            <View style={styles.transcriptHeader}>
+              <Text
+                style={[styles.sectionTitle, styles.sessionHeading]}
+                numberOfLines={1}
+              >
+                {currentSession ? getSessionTitle(currentSession) : "Sessions"}
+              </Text>
+              <TouchableOpacity onPress={() => setShowSessionList(true)}>
+                <Text style={styles.editToggle}>
+                  All Sessions ({allSessions.length})
+                </Text>
+              </TouchableOpacity>
+            </View>
+            {currentSession && (
+              <>
+                <Text style={styles.sessionText}>
+                  {currentSession.startTime.toLocaleString()} •{" "}
+                  {formatTime(getSessionDurationMs(currentSession) / 1000)}
+                </Text>
+                <SessionDetailsEditor
+                  session={currentSession}
+                  onRename={(title) => renameSession(currentSession.id, title)}
+                  onChangeNotes={(notes) =>
+                    setSessionNotes(currentSession.id, notes)
+                  }
+                  onChangeTags={(tags) =>
+                    setSessionTags(currentSession.id, tags)
+                  }
+                />
+              </>
+            )}
           </View>
         )}
 
+        {/* Last error, e.g. the recognizer failing mid-recording */}
+        {lastError && (
+          <TouchableOpacity style={styles.errorBanner} onPress={clearError}>
+            <Text style={styles.errorText}>{lastError.message}</Text>
+            <Text style={styles.errorDismiss}>Tap to dismiss</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Why a recording limit paused or stopped the recording */}
+        {autoStop && !isRecordingActive(status) && (
+          <Text style={styles.autoStopText}>{describeAutoStop(autoStop)}</Text>
+        )}
+
         {/* Transcript Display */}
         <View style={styles.transcriptContainer}>
-          <Text style={styles.sectionTitle}>Transcript</Text>
-          <View style={styles.transcriptBox}>
-            <Text style={styles.transcriptText}>
-              {transcript}
-              {interimTranscript && (
-                <Text style={styles.interimText}>{interimTranscript}</Text>
-              )}
-            </Text>
+          <View style={styles.transcriptHeader}>
+            <Text style={styles.sectionTitle}>Transcript</Text>
+            {canEditTranscript && (
+              <TouchableOpacity
+                onPress={() => setIsEditingTranscript(!isEditingTranscript)}
+              >
+                <Text style={styles.editToggle}>
+                  {isEditingTranscript ? "Done" : "Edit"}
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
+          {isEditingTranscript && canEditTranscript ? (
+            // One field per result, each with its own revision history
+            currentSession.transcripts.map((result, index) => (
+              <TranscriptResultEditor
+                key={`${currentSession.id}-${index}`}
+                result={result}
+                onEdit={(text) =>
+                  editTranscript(currentSession.id, index, text)
+                }
+                onUndo={() => undoTranscriptEdit(currentSession.id, index)}
+                onRedo={() => redoTranscriptEdit(currentSession.id, index)}
+              />
+            ))
+          ) : (
+            <View style={styles.transcriptBox}>
+              <Text style={styles.transcriptText}>
+                {transcript}
+                {interimTranscript && (
+                  <Text style={styles.interimText}>{interimTranscript}</Text>
+                )}
+              </Text>
+            </View>
+          )}
+
+          {/* Export Buttons */}
+          {currentSession && currentSession.transcripts.length > 0 && (
+            <View style={styles.optionRow}>
+              {EXPORT_FORMATS.map(({ format, label }) => (
+                <TouchableOpacity
+                  key={format}
+                  style={styles.optionButton}
+                  onPress={() => handleExportTranscript(format)}
+                >
+                  <Text style={styles.optionButtonText}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
         </View>
 
         {/* Audio Files for Current Session */}
         {currentSession && currentSession.audioFiles.length > 0 && (
           <View style={styles.audioFilesContainer}>
             <Text style={styles.sectionTitle}>
-              Audio Files ({currentSession.audioFiles.length})
+              Segments ({currentSession.audioFiles.length})
             </Text>
+
+            {/* Transcribe the recorded files again, to compare per segment */}
+            <TouchableOpacity
+              style={[
+                styles.optionButton,
+                styles.retranscribeButton,
+                (retranscription || isRecordingActive(status)) &&
+                  styles.buttonDisabled,
+              ]}
+              onPress={handleRetranscribe}
+              disabled={!!retranscription || isRecordingActive(status)}
+            >
+              <Text style={styles.optionButtonText}>
+                {retranscription
+                  ? `Re-transcribing ${retranscription.fileIndex + 1} of ${
+                      retranscription.fileCount
+                    }...`
+                  : "Re-transcribe from Audio"}
+              </Text>
+            </TouchableOpacity>
+
             {currentSession.audioFiles.map((fileUri, index) => {
               const fileName =
                 fileUri.split("/").pop() || `Recording ${index + 1}`;
               const isCurrentlyPlaying = currentPlayingFile === fileUri;
+              const isRerecording = rerecordingIndex === index;
+              const segmentTranscript = currentSession.transcripts
+                .filter((result) => result.audioFileUri === fileUri)
+                .map((result) => result.transcript)
+                .join(" ");
+              const alternativeTranscript = alternativesForFile(
+                currentSession,
+                fileUri
+              )
+                .map((result) => result.transcript)
+                .join(" ");
 
               return (
                 <AudioPlayerItem
                   key={fileUri}
                   fileUri={fileUri}
-                  fileName={fileName}
-                />
+                  fileName={`${index + 1}. ${fileName}${
+                    currentSession.segmentLanguages[fileUri]
+                      ? ` • ${currentSession.segmentLanguages[fileUri]}`
+                      : ""
+                  }`}
+                  info={audioInfo[fileUri]}
+                  transcript={segmentTranscript}
+                  onSplit={(offsetMs) => handleSplitSegment(fileUri, offsetMs)}
+                  onCut={(startMs, endMs) =>
+                    handleCutSegment(fileUri, startMs, endMs)
+                  }
+                  editDisabled={isRecordingActive(status)}
+                >
+                  {!!alternativeTranscript && (
+                    <View style={styles.alternativeTranscript}>
+                      <Text style={styles.alternativeTranscriptLabel}>
+                        Re-transcribed
+                      </Text>
+                      <Text style={styles.segmentTranscript}>
+                        {alternativeTranscript}
+                      </Text>
+                      <View style={styles.optionRow}>
+                        <TouchableOpacity
+                          style={[styles.optionButton, styles.selectedOption]}
+                          onPress={() =>
+                            acceptRetranscription(currentSession.id, index)
+                          }
+                        >
+                          <Text style={styles.optionButtonText}>Use This</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={styles.optionButton}
+                          onPress={() =>
+                            discardRetranscription(currentSession.id, index)
+                          }
+                        >
+                          <Text style={styles.optionButtonText}>
+                            Keep Original
+                          </Text>
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  )}
+                  <View style={styles.optionRow}>
+                    <TouchableOpacity
+                      style={[
+                        styles.optionButton,
+                        index === 0 && styles.buttonDisabled,
+                      ]}
+                      onPress={() =>
+                        moveSegment(currentSession.id, index, index - 1)
+                      }
+                      disabled={index === 0}
+                    >
+                      <Text style={styles.optionButtonText}>↑</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[
+                        styles.optionButton,
+                        index === currentSession.audioFiles.length - 1 &&
+                          styles.buttonDisabled,
+                      ]}
+                      onPress={() =>
+                        moveSegment(currentSession.id, index, index + 1)
+                      }
+                      disabled={index === currentSession.audioFiles.length - 1}
+                    >
+                      <Text style={styles.optionButtonText}>↓</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[
+                        styles.optionButton,
+                        isRerecording && styles.cancelJobButton,
+                        isRecordingActive(status) &&
+                          !isRerecording &&
+                          styles.buttonDisabled,
+                      ]}
+                      onPress={() =>
+                        isRerecording
+                          ? handleStopRerecording()
+                          : handleRerecordSegment(index)
+                      }
+                      disabled={isRecordingActive(status) && !isRerecording}
+                    >
+                      <Text style={styles.optionButtonText}>
+                        {isRerecording ? "Stop" : "Re-record"}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[
+                        styles.optionButton,
+                        styles.cancelJobButton,
+                        isRerecording && styles.buttonDisabled,
+                      ]}
+                      onPress={() => handleDeleteSegment(index)}
+                      disabled={isRerecording}
+                    >
+                      <Text style={styles.optionButtonText}>Delete</Text>
+                    </TouchableOpacity>
+                  </View>
+                </AudioPlayerItem>
               );
             })}
 
+            {/* Transition between segments */}
+            <View style={styles.optionRow}>
+              {JOIN_TRANSITIONS.map(({ label }, index) => (
+                <TouchableOpacity
+                  key={label}
+                  style={[
+                    styles.optionButton,
+                    joinTransitionIndex === index && styles.selectedOption,
+                  ]}
+                  onPress={() => setJoinTransitionIndex(index)}
+                >
+                  <Text style={styles.optionButtonText}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={[
+                  styles.optionButton,
+                  trimJoinSilence && styles.selectedOption,
+                ]}
+                onPress={() => setTrimJoinSilence(!trimJoinSilence)}
+              >
+                <Text style={styles.optionButtonText}>Trim silence</Text>
+              </TouchableOpacity>
+            </View>
+
             {/* Join Audio Files Button */}
             <TouchableOpacity
               style={[
                 styles.button,
                 styles.joinButton,
-                isJoining && styles.buttonDisabled,
+                joinJob.isRunning && styles.buttonDisabled,
               ]}
               onPress={handleJoinAudioFiles}
-              disabled={isJoining}
+              disabled={joinJob.isRunning}
             >
               <Text style={styles.buttonText}>
-                {isJoining ? "Joining..." : "Join Audio Files"}
+                {joinJob.isRunning
+                  ? `Joining... ${Math.round(joinJob.fraction * 100)}%`
+                  : "Join Audio Files"}
               </Text>
             </TouchableOpacity>
 
+            {/* Join progress */}
+            {joinJob.isRunning && (
+              <View style={styles.progressRow}>
+                <View style={styles.progressTrack}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      { width: `${joinJob.fraction * 100}%` },
+                    ]}
+                  />
+                </View>
+                {joinJob.progress && (
+                  <Text style={styles.progressText}>
+                    File {joinJob.progress.fileIndex + 1} of{" "}
+                    {joinJob.progress.fileCount}
+                  </Text>
+                )}
+                <TouchableOpacity
+                  style={styles.cancelJobButton}
+                  onPress={joinJob.cancel}
+                  disabled={joinJob.status === "cancelling"}
+                >
+                  <Text style={styles.optionButtonText}>
+                    {joinJob.status === "cancelling"
+                      ? "Cancelling..."
+                      : "Cancel"}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
             {/* Joined Audio Player */}
             {joinedAudioFile && (
               <View style={styles.joinedAudioContainer}>
@@ -321,27 +1137,66 @@ export default function App() {
                       <Text style={styles.joinedAudioButtonText}>Stop</Text>
                     </TouchableOpacity>
                   </View>
-                  {/* Progress Bar */}
-                  <View style={styles.progressBarContainer}>
-                    <View style={styles.progressBar}>
-                      <View
-                        style={[
-                          styles.progressBarFill,
-                          {
-                            width: `${
-                              joinedAudioStatus.duration &&
-                              joinedAudioStatus.duration > 0
-                                ? ((joinedAudioStatus.currentTime || 0) /
-                                    joinedAudioStatus.duration) *
-                                  100
-                                : 0
-                            }%`,
-                          },
-                        ]}
-                      />
-                    </View>
-                  </View>
+                  {/* Tap or drag to seek, lines mark where segments start */}
+                  <Waveform
+                    uri={joinedAudioFile}
+                    player={joinedAudioPlayer}
+                    boundariesMs={currentSession.segments
+                      .slice(1)
+                      .map((segment) => segment.startMs)}
+                    refreshKey={currentSession.segments}
+                  />
                 </View>
+
+                {/* Share the joined audio */}
+                <View style={styles.optionRow}>
+                  {AUDIO_EXPORT_FORMATS.map(({ format, label }) => (
+                    <TouchableOpacity
+                      key={format}
+                      style={[
+                        styles.optionButton,
+                        exportJob.isRunning && styles.buttonDisabled,
+                      ]}
+                      onPress={() => handleExportAudio(format)}
+                      disabled={exportJob.isRunning}
+                    >
+                      <Text style={styles.optionButtonText}>{label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                  {exportJob.isRunning && (
+                    <TouchableOpacity
+                      style={styles.cancelJobButton}
+                      onPress={exportJob.cancel}
+                      disabled={exportJob.status === "cancelling"}
+                    >
+                      <Text style={styles.optionButtonText}>
+                        {`${Math.round(exportJob.fraction * 100)}% • Cancel`}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+
+                {/* Transcript lines, tap to seek to where they were spoken */}
+                {currentSession.transcripts.map((result, index) => {
+                  const segment = findSegmentForResult(currentSession, result);
+                  return (
+                    <TouchableOpacity
+                      key={index}
+                      style={styles.transcriptLine}
+                      onPress={() =>
+                        segment && handleSeekToSegment(segment.startMs)
+                      }
+                      disabled={!segment}
+                    >
+                      <Text style={styles.transcriptLineTime}>
+                        {segment ? formatTime(segment.startMs / 1000) : "--:--"}
+                      </Text>
+                      <Text style={styles.transcriptLineText}>
+                        {result.transcript}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
               </View>
             )}
           </View>
@@ -418,6 +1273,28 @@ const styles = StyleSheet.create({
     color: "#666",
     marginBottom: 5,
   },
+  errorBanner: {
+    backgroundColor: "#FFEBEE",
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: "#F44336",
+  },
+  errorText: {
+    fontSize: 14,
+    color: "#B71C1C",
+  },
+  errorDismiss: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 5,
+  },
+  autoStopText: {
+    fontSize: 14,
+    color: "#FF9800",
+    marginBottom: 15,
+  },
   transcriptContainer: {
     marginBottom: 20,
   },
@@ -438,50 +1315,60 @@ const styles = StyleSheet.create({
     color: "#999",
     fontStyle: "italic",
   },
-  tabsContainer: {
-    marginBottom: 20,
-  },
-  tabsScrollView: {
-    marginTop: 10,
-  },
-  tabsRow: {
+  transcriptHeader: {
     flexDirection: "row",
-    paddingHorizontal: 5,
+    justifyContent: "space-between",
+    alignItems: "baseline",
   },
-  tab: {
-    backgroundColor: "#f5f5f5",
-    paddingVertical: 12,
-    paddingHorizontal: 16,
-    marginHorizontal: 4,
-    borderRadius: 20,
+  editToggle: {
+    color: "#2196F3",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  resultEditor: {
+    backgroundColor: "#fff",
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 8,
     borderWidth: 1,
     borderColor: "#e0e0e0",
-    alignItems: "center",
-    minWidth: 80,
   },
-  activeTab: {
-    backgroundColor: "#2196F3",
-    borderColor: "#2196F3",
+  resultInput: {
+    fontSize: 16,
+    lineHeight: 22,
+    color: "#333",
   },
-  activeSessionTab: {
-    borderColor: "#4CAF50",
-    borderWidth: 2,
+  rawTranscript: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 5,
   },
-  tabText: {
-    fontSize: 14,
-    fontWeight: "bold",
-    color: "#666",
-    marginBottom: 2,
+  sessionsContainer: {
+    marginBottom: 20,
   },
-  activeTabText: {
-    color: "#fff",
+  sessionHeading: {
+    flex: 1,
+    marginRight: 10,
   },
-  tabSubtext: {
-    fontSize: 10,
-    color: "#999",
+  sessionDetails: {
+    gap: 8,
   },
-  activeTabSubtext: {
-    color: "#fff",
+  sessionTitleInput: {
+    backgroundColor: "#fff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    padding: 10,
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  sessionDetailsInput: {
+    backgroundColor: "#fff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    padding: 10,
+    fontSize: 14,
   },
   controls: {
     padding: 20,
@@ -544,6 +1431,30 @@ const styles = StyleSheet.create({
     color: "#333",
     marginBottom: 5,
   },
+  audioFileDetails: {
+    fontSize: 12,
+    color: "#666",
+  },
+  segmentTranscript: {
+    fontSize: 13,
+    color: "#333",
+    marginTop: 5,
+  },
+  alternativeTranscript: {
+    marginTop: 10,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: "#E3F2FD",
+  },
+  alternativeTranscriptLabel: {
+    fontSize: 12,
+    fontWeight: "bold",
+    color: "#1976D2",
+  },
+  retranscribeButton: {
+    flex: 0,
+    marginBottom: 10,
+  },
   audioFileUri: {
     fontSize: 12,
     color: "#666",
@@ -572,6 +1483,33 @@ const styles = StyleSheet.create({
   buttonDisabled: {
     opacity: 0.6,
   },
+  progressRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    marginTop: 10,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "#e0e0e0",
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    backgroundColor: "#9C27B0",
+  },
+  progressText: {
+    fontSize: 12,
+    color: "#666",
+  },
+  cancelJobButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: "#F44336",
+  },
   joinedAudioContainer: {
     marginTop: 20,
     paddingTop: 20,
@@ -619,18 +1557,44 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     fontSize: 14,
   },
-  progressBarContainer: {
+  optionRow: {
+    flexDirection: "row",
+    gap: 8,
     marginTop: 10,
   },
-  progressBar: {
-    height: 4,
-    backgroundColor: "#e0e0e0",
-    borderRadius: 2,
-    overflow: "hidden",
+  optionButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: "center",
+    backgroundColor: "#607D8B",
   },
-  progressBarFill: {
-    height: "100%",
-    backgroundColor: "#4CAF50",
-    borderRadius: 2,
+  selectedOption: {
+    backgroundColor: "#9C27B0",
+  },
+  optionButtonText: {
+    color: "#fff",
+    fontWeight: "bold",
+    fontSize: 12,
+  },
+  transcriptLine: {
+    flexDirection: "row",
+    backgroundColor: "#fff",
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 10,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  transcriptLineTime: {
+    fontSize: 14,
+    color: "#2196F3",
+    fontFamily: "monospace",
+    marginRight: 10,
+  },
+  transcriptLineText: {
+    flex: 1,
+    fontSize: 14,
+    color: "#333",
   },
 });
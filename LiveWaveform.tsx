@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from "react";
+import { StyleSheet, View } from "react-native";
+
+// How often a bar is added while recording
+const SAMPLE_INTERVAL_MS = 100;
+const DEFAULT_BAR_COUNT = 60;
+const HEIGHT = 48;
+
+interface LiveWaveformProps {
+  /** Smoothed input level from 0 to 1, as reported by the hook */
+  level: number;
+  /** Whether the recognizer is listening, a pause shows as a gap */
+  isListening: boolean;
+  /** Whether a recording was started, the waveform is cleared otherwise */
+  isActive: boolean;
+  /** Number of bars kept on screen */
+  barCount?: number;
+}
+
+/**
+ * Scrolling level meter of the current recording. Every bar is a level
+ * sample, newest on the right, and each pause between segments is marked
+ * with a single gap however long it lasted.
+ */
+export const LiveWaveform: React.FC<LiveWaveformProps> = ({
+  level,
+  isListening,
+  isActive,
+  barCount = DEFAULT_BAR_COUNT,
+}) => {
+  // Level samples, null for a pause
+  const [samples, setSamples] = useState<(number | null)[]>([]);
+  const levelRef = useRef(level);
+  levelRef.current = level;
+
+  useEffect(() => {
+    if (!isActive) {
+      setSamples([]);
+      return;
+    }
+
+    const interval = setInterval(() => {
+      setSamples((previous) => {
+        const sample = isListening ? levelRef.current : null;
+        // Nothing before the first segment, and one gap per pause
+        const last = previous[previous.length - 1];
+        if (sample === null && (previous.length === 0 || last === null)) {
+          return previous;
+        }
+        return [...previous, sample].slice(-barCount);
+      });
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isActive, isListening, barCount]);
+
+  return (
+    <View style={styles.container}>
+      {samples.map((sample, index) =>
+        sample === null ? (
+          <View key={index} style={styles.gap} />
+        ) : (
+          <View
+            key={index}
+            style={[
+              styles.bar,
+              { height: Math.max(2, sample * HEIGHT) },
+              isListening && index === samples.length - 1 && styles.currentBar,
+            ]}
+          />
+        )
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    height: HEIGHT,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "flex-end",
+    overflow: "hidden",
+    marginHorizontal: 20,
+    marginTop: 15,
+  },
+  bar: {
+    width: 3,
+    marginHorizontal: 1,
+    borderRadius: 1.5,
+    backgroundColor: "#F44336",
+  },
+  currentBar: {
+    backgroundColor: "#fff",
+  },
+  gap: {
+    width: 2,
+    height: HEIGHT * 0.6,
+    marginHorizontal: 4,
+    borderRadius: 1,
+    backgroundColor: "#FF9800",
+    opacity: 0.6,
+  },
+});
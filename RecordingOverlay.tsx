@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import {
   View,
   Text,
@@ -9,54 +9,233 @@ import {
   StatusBar,
   Platform,
 } from "react-native";
-import { useResumableSpeechRecognition } from "./useResumableSpeechRecognition";
+import type { UseResumableSpeechRecognitionReturn } from "./useResumableSpeechRecognition";
+import { isRecordingActive, RecordingStatus } from "./recordingStateMachine";
+import { errorMessage } from "./recognitionErrors";
+import {
+  DEFAULT_RECORDING_LIMITS,
+  describeAutoStop,
+  RecordingLimits,
+} from "./recordingLimits";
+import {
+  DEFAULT_PREFERENCES,
+  loadPreferences,
+  RecordingMode,
+  savePreferences,
+} from "./preferences";
+import { useVoiceActivity } from "./useVoiceActivity";
+import {
+  DEFAULT_SESSION_RECOGNITION_OPTIONS,
+  RECOGNITION_LANGUAGES,
+} from "./recognitionOptions";
+import { LiveWaveform } from "./LiveWaveform";
+
+// The language comes from the picker and is stored on the session
+const RECOGNITION_OPTIONS = {
+  interimResults: true,
+  continuous: true,
+};
+
+// Hands-free pauses after a short silence, and resumes when the user talks again
+const HANDS_FREE_LIMITS: RecordingLimits = {
+  ...DEFAULT_RECORDING_LIMITS,
+  silenceTimeoutMs: 2000,
+};
+
+const RECORDING_MODES: {
+  mode: RecordingMode;
+  label: string;
+  instructions: string;
+}[] = [
+  {
+    mode: "push-to-talk",
+    label: "Hold",
+    instructions:
+      "Hold the button to record • Release to pause • Tap I'm Done to finish",
+  },
+  {
+    mode: "tap-to-toggle",
+    label: "Tap",
+    instructions:
+      "Tap the button to record • Tap again to pause • Tap I'm Done to finish",
+  },
+  {
+    mode: "hands-free",
+    label: "Hands-free",
+    instructions:
+      "Just talk • Recording pauses when you stop and resumes when you talk again • Tap the button to stop listening • Tap I'm Done to finish",
+  },
+];
+
+const STATUS_TEXT: Record<RecordingStatus, string> = {
+  idle: "Ready",
+  "requesting-permission": "Starting...",
+  starting: "Starting...",
+  listening: "Recording...",
+  pausing: "Pausing...",
+  paused: "Paused",
+  stopping: "Finishing...",
+  stopped: "Done",
+  retrying: "Reconnecting...",
+  error: "Error",
+};
 
 interface RecordingOverlayProps {
+  /** Speech recognition of the screen that opened the overlay */
+  recognition: UseResumableSpeechRecognitionReturn;
+  /** Called with the recording limits of the selected mode */
+  onChangeLimits: (limits: RecordingLimits) => void;
   onClose: () => void;
 }
 
 export const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
+  recognition,
+  onChangeLimits,
   onClose,
 }) => {
+  const [mode, setMode] = useState<RecordingMode>(
+    DEFAULT_PREFERENCES.recordingMode
+  );
+  const [hasLoadedPreferences, setHasLoadedPreferences] = useState(false);
+  // Hands-free listening switched off by the user, voice doesn't resume it
+  const [isSuspended, setIsSuspended] = useState(false);
+  // Language for a session that wasn't started yet
+  const [pendingLang, setPendingLang] = useState(
+    DEFAULT_SESSION_RECOGNITION_OPTIONS.lang
+  );
   const {
-    isListening,
-    isPaused,
+    status,
+    currentSession,
     transcript,
     interimTranscript,
+    lastError,
+    autoStop,
+    level,
     start,
     pause,
     resume,
     stop,
-  } = useResumableSpeechRecognition();
+    clearError,
+    setRecognitionOptions,
+  } = recognition;
+
+  // Hands-free pauses on shorter silences, the defaults apply again once the
+  // overlay is closed
+  useEffect(() => {
+    onChangeLimits(
+      mode === "hands-free" ? HANDS_FREE_LIMITS : DEFAULT_RECORDING_LIMITS
+    );
+    return () => onChangeLimits(DEFAULT_RECORDING_LIMITS);
+  }, [mode, onChangeLimits]);
 
   const [isHolding, setIsHolding] = useState(false);
+  // Set when the last start failed, so releasing the button doesn't pause
+  // a recording that never started
+  const startFailedRef = useRef(false);
+  const lang = currentSession?.recognitionOptions.lang ?? pendingLang;
+  const isListening = status === "listening";
+  const isPaused = status === "paused" || status === "pausing";
+  const canStop = status !== "idle" && status !== "stopped";
 
-  const handlePressIn = async () => {
-    setIsHolding(true);
+  // Restore the remembered mode
+  useEffect(() => {
+    loadPreferences()
+      .then((preferences) => setMode(preferences.recordingMode))
+      .catch((error) => {
+        console.error("Error loading preferences:", error);
+      })
+      .finally(() => setHasLoadedPreferences(true));
+  }, []);
+
+  // Hands-free listens as soon as it's chosen or the overlay opens with it
+  useEffect(() => {
+    if (
+      hasLoadedPreferences &&
+      mode === "hands-free" &&
+      (status === "idle" || status === "stopped")
+    ) {
+      startRecording();
+    }
+  }, [hasLoadedPreferences, mode]);
+
+  // Resume a hands-free recording that paused on silence once the user talks
+  useVoiceActivity({
+    enabled: mode === "hands-free" && status === "paused" && !isSuspended,
+    onVoice: () => startRecording(),
+  });
+
+  const handleSelectMode = (nextMode: RecordingMode) => {
+    setMode(nextMode);
+    setIsSuspended(false);
+    savePreferences({ recordingMode: nextMode }).catch((error) => {
+      console.error("Error saving preferences:", error);
+    });
+  };
+
+  // Takes effect from the next resume, the session carries on
+  const handleSelectLanguage = (nextLang: string) => {
+    setPendingLang(nextLang);
+    if (currentSession) {
+      setRecognitionOptions(currentSession.id, { lang: nextLang });
+    }
+  };
+
+  const startRecording = async () => {
+    startFailedRef.current = false;
     try {
+      // Presses while a pause or stop is still pending are queued by the hook
       if (isPaused) {
         await resume();
-      } else if (!isListening) {
-        await start({
-          lang: "en-US",
-          interimResults: true,
-          continuous: true,
-        });
+      } else {
+        await start({ ...RECOGNITION_OPTIONS, lang });
       }
     } catch (error) {
-      Alert.alert("Error", "Failed to start recording");
+      startFailedRef.current = true;
+      Alert.alert("Error", errorMessage(error, "Failed to start recording"));
       setIsHolding(false);
     }
   };
 
+  const pauseRecording = async () => {
+    try {
+      await pause();
+    } catch (error) {
+      Alert.alert("Error", errorMessage(error, "Failed to pause recording"));
+    }
+  };
+
+  const handlePressIn = async () => {
+    setIsHolding(true);
+    await startRecording();
+  };
+
   const handlePressOut = async () => {
     setIsHolding(false);
-    try {
-      if (isListening) {
-        await pause();
+    if (startFailedRef.current) return;
+    await pauseRecording();
+  };
+
+  const handleTap = async () => {
+    // Hands-free: the button switches listening for voice off and on
+    if (mode === "hands-free") {
+      setIsSuspended(!isSuspended);
+      if (isSuspended) {
+        await startRecording();
+      } else if (isRecordingActive(status)) {
+        // While waiting for voice nothing is recording
+        await pauseRecording();
       }
-    } catch (error) {
-      Alert.alert("Error", "Failed to pause recording");
+      return;
+    }
+
+    if (
+      isListening ||
+      status === "starting" ||
+      status === "requesting-permission"
+    ) {
+      await pauseRecording();
+    } else {
+      await startRecording();
     }
   };
 
@@ -65,22 +244,31 @@ export const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
       await stop();
       onClose();
     } catch (error) {
-      Alert.alert("Error", "Failed to stop recording");
+      Alert.alert("Error", errorMessage(error, "Failed to stop recording"));
     }
   };
 
-  const getStatusText = () => {
-    if (isListening) return "Recording...";
-    if (isPaused) return "Paused";
-    return "Ready";
-  };
-
   const getStatusColor = () => {
     if (isListening) return "#4CAF50";
     if (isPaused) return "#FF9800";
+    if (status === "error") return "#F44336";
     return "#9E9E9E";
   };
 
+  const getRecordButtonText = () => {
+    switch (mode) {
+      case "push-to-talk":
+        if (isListening) return "Recording...";
+        return isPaused ? "Hold to Resume" : "Hold to Record";
+      case "tap-to-toggle":
+        if (isListening) return "Recording...\nTap to Pause";
+        return isPaused ? "Tap to Resume" : "Tap to Record";
+      case "hands-free":
+        if (isSuspended) return "Tap to Listen";
+        return isListening ? "Listening..." : "Waiting for voice...";
+    }
+  };
+
   const getRecordButtonColor = () => {
     if (isListening) return "#F44336";
     if (isPaused) return "#FF9800";
@@ -100,7 +288,7 @@ export const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
               { backgroundColor: getStatusColor() },
             ]}
           >
-            <Text style={styles.statusText}>{getStatusText()}</Text>
+            <Text style={styles.statusText}>{STATUS_TEXT[status]}</Text>
           </View>
         </View>
 
@@ -109,6 +297,26 @@ export const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
         </TouchableOpacity>
       </View>
 
+      {/* Last error, e.g. the recognizer failing mid-recording */}
+      {lastError && (
+        <TouchableOpacity style={styles.errorBanner} onPress={clearError}>
+          <Text style={styles.errorText}>{lastError.message}</Text>
+          <Text style={styles.errorDismiss}>Tap to dismiss</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Why a recording limit paused or stopped the recording */}
+      {autoStop && !isRecordingActive(status) && (
+        <Text style={styles.autoStopText}>{describeAutoStop(autoStop)}</Text>
+      )}
+
+      {/* Input level of the recording, with its pauses */}
+      <LiveWaveform
+        level={level}
+        isListening={isListening}
+        isActive={status !== "idle"}
+      />
+
       {/* Transcript Display */}
       <ScrollView style={styles.transcriptContainer}>
         <View style={styles.transcriptBox}>
@@ -123,6 +331,43 @@ export const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
 
       {/* Controls */}
       <View style={styles.controls}>
+        {/* Recognition language of this session */}
+        <View style={styles.modeRow}>
+          {RECOGNITION_LANGUAGES.map((option) => (
+            <TouchableOpacity
+              key={option.lang}
+              style={[
+                styles.languageButton,
+                lang === option.lang && styles.selectedMode,
+              ]}
+              onPress={() => handleSelectLanguage(option.lang)}
+            >
+              <Text style={styles.languageButtonText}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {isRecordingActive(status) && (
+          <Text style={styles.languageHint}>
+            A new language applies once you pause and resume
+          </Text>
+        )}
+
+        {/* Interaction mode, remembered between sessions */}
+        <View style={styles.modeRow}>
+          {RECORDING_MODES.map((option) => (
+            <TouchableOpacity
+              key={option.mode}
+              style={[
+                styles.modeButton,
+                mode === option.mode && styles.selectedMode,
+              ]}
+              onPress={() => handleSelectMode(option.mode)}
+            >
+              <Text style={styles.modeButtonText}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
         {/* Record Button */}
         <TouchableOpacity
           style={[
@@ -130,24 +375,19 @@ export const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
             { backgroundColor: getRecordButtonColor() },
             isHolding && styles.recordButtonPressed,
           ]}
-          onPressIn={handlePressIn}
-          onPressOut={handlePressOut}
+          {...(mode === "push-to-talk"
+            ? { onPressIn: handlePressIn, onPressOut: handlePressOut }
+            : { onPress: handleTap })}
           activeOpacity={0.8}
         >
           <View style={styles.recordButtonInner}>
-            <Text style={styles.recordButtonText}>
-              {isListening
-                ? "Recording..."
-                : isPaused
-                ? "Hold to Resume"
-                : "Hold to Record"}
-            </Text>
+            <Text style={styles.recordButtonText}>{getRecordButtonText()}</Text>
           </View>
         </TouchableOpacity>
 
         {/* Instructions */}
         <Text style={styles.instructions}>
-          Hold the button to record • Release to pause • Tap I'm Done to finish
+          {RECORDING_MODES.find((option) => option.mode === mode)?.instructions}
         </Text>
 
         {/* Stop Button */}
@@ -155,11 +395,11 @@ export const RecordingOverlay: React.FC<RecordingOverlayProps> = ({
           style={[
             styles.stopButton,
             {
-              opacity: isListening || isPaused ? 1 : 0.7,
+              opacity: canStop ? 1 : 0.7,
             },
           ]}
           onPress={handleStopRecording}
-          disabled={!isListening && !isPaused}
+          disabled={!canStop}
         >
           <Text style={styles.stopButtonText}>I'm Done</Text>
         </TouchableOpacity>
@@ -209,6 +449,29 @@ const styles = StyleSheet.create({
     color: "#fff",
     fontWeight: "bold",
   },
+  errorBanner: {
+    margin: 20,
+    marginBottom: 0,
+    padding: 15,
+    borderRadius: 12,
+    backgroundColor: "#B71C1C",
+  },
+  errorText: {
+    color: "#fff",
+    fontSize: 15,
+  },
+  errorDismiss: {
+    color: "#FFCDD2",
+    fontSize: 12,
+    marginTop: 6,
+  },
+  autoStopText: {
+    marginHorizontal: 20,
+    marginTop: 15,
+    color: "#FF9800",
+    fontSize: 14,
+    textAlign: "center",
+  },
   transcriptContainer: {
     flex: 1,
     padding: 20,
@@ -237,6 +500,41 @@ const styles = StyleSheet.create({
     borderTopColor: "#333",
     alignItems: "center",
   },
+  modeRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 20,
+  },
+  modeButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: "#333",
+  },
+  selectedMode: {
+    backgroundColor: "#2196F3",
+  },
+  languageButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 14,
+    backgroundColor: "#333",
+  },
+  languageButtonText: {
+    color: "#fff",
+    fontSize: 12,
+  },
+  languageHint: {
+    color: "#999",
+    fontSize: 12,
+    marginTop: -12,
+    marginBottom: 16,
+  },
+  modeButtonText: {
+    color: "#fff",
+    fontWeight: "bold",
+    fontSize: 13,
+  },
   recordButton: {
     width: 200,
     height: 200,
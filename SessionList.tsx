@@ -0,0 +1,305 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  Platform,
+} from "react-native";
+import type { RecordingSession } from "./useResumableSpeechRecognition";
+import {
+  collectTags,
+  filterSessions,
+  getSessionTitle,
+} from "./sessionMetadata";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date filters, by how many days back they reach. Today starts at midnight.
+const DATE_FILTERS: { label: string; days?: number }[] = [
+  { label: "Any Time" },
+  { label: "Today", days: 0 },
+  { label: "Last 7 Days", days: 7 },
+  { label: "Last 30 Days", days: 30 },
+];
+
+const getFilterStart = (days: number) => {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  return new Date(start.getTime() - days * DAY_MS);
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60)
+    .toString()
+    .padStart(2, "0")}`;
+};
+
+interface SessionListProps {
+  sessions: RecordingSession[];
+  selectedSessionId: string | null;
+  /** Length of a session's recordings */
+  getDurationMs: (session: RecordingSession) => number;
+  onSelectSession: (sessionId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Screen listing all sessions, newest first, filtered by tags and date
+ */
+export const SessionList: React.FC<SessionListProps> = ({
+  sessions,
+  selectedSessionId,
+  getDurationMs,
+  onSelectSession,
+  onClose,
+}) => {
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [dateFilterIndex, setDateFilterIndex] = useState(0);
+
+  const tags = useMemo(() => collectTags(sessions), [sessions]);
+  const filteredSessions = useMemo(() => {
+    const { days } = DATE_FILTERS[dateFilterIndex];
+    return filterSessions(sessions, {
+      // Ignore tags that no session has anymore
+      tags: selectedTags.filter((tag) => tags.includes(tag)),
+      from: days !== undefined ? getFilterStart(days) : undefined,
+    });
+  }, [sessions, tags, selectedTags, dateFilterIndex]);
+
+  const handleToggleTag = (tag: string) => {
+    setSelectedTags((prev) =>
+      prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]
+    );
+  };
+
+  const renderSession = ({ item: session }: { item: RecordingSession }) => {
+    const isSelected = session.id === selectedSessionId;
+    return (
+      <TouchableOpacity
+        style={[
+          styles.sessionItem,
+          isSelected && styles.selectedSessionItem,
+          session.isActive && styles.activeSessionItem,
+        ]}
+        onPress={() => onSelectSession(session.id)}
+      >
+        <Text style={styles.sessionTitle} numberOfLines={1}>
+          {getSessionTitle(session)}
+        </Text>
+        <Text style={styles.sessionDetails}>
+          {session.startTime.toLocaleString([], {
+            dateStyle: "medium",
+            timeStyle: "short",
+          })}{" "}
+          • {formatDuration(getDurationMs(session))} •{" "}
+          {session.audioFiles.length} segments
+        </Text>
+        {session.tags.length > 0 && (
+          <Text style={styles.sessionTags} numberOfLines={1}>
+            {session.tags.map((tag) => `#${tag}`).join(" ")}
+          </Text>
+        )}
+        {!!session.notes && (
+          <Text style={styles.sessionNotes} numberOfLines={1}>
+            {session.notes}
+          </Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Sessions ({sessions.length})</Text>
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <Text style={styles.closeButtonText}>✕</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Filters */}
+      <View style={styles.filters}>
+        <View style={styles.filterRow}>
+          {DATE_FILTERS.map(({ label }, index) => (
+            <TouchableOpacity
+              key={label}
+              style={[
+                styles.filterChip,
+                dateFilterIndex === index && styles.selectedFilterChip,
+              ]}
+              onPress={() => setDateFilterIndex(index)}
+            >
+              <Text
+                style={[
+                  styles.filterChipText,
+                  dateFilterIndex === index && styles.selectedFilterChipText,
+                ]}
+              >
+                {label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {tags.length > 0 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.filterRow}
+          >
+            {tags.map((tag) => {
+              const isSelected = selectedTags.includes(tag);
+              return (
+                <TouchableOpacity
+                  key={tag}
+                  style={[
+                    styles.filterChip,
+                    isSelected && styles.selectedFilterChip,
+                  ]}
+                  onPress={() => handleToggleTag(tag)}
+                >
+                  <Text
+                    style={[
+                      styles.filterChipText,
+                      isSelected && styles.selectedFilterChipText,
+                    ]}
+                  >
+                    #{tag}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        )}
+      </View>
+
+      {/* Virtualized, so hundreds of sessions stay fast */}
+      <FlatList
+        data={filteredSessions}
+        keyExtractor={(session) => session.id}
+        renderItem={renderSession}
+        contentContainerStyle={styles.list}
+        initialNumToRender={15}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {sessions.length === 0
+              ? "No sessions yet"
+              : "No sessions match the filters"}
+          </Text>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: Platform.OS === "ios" ? 55 : 30,
+    backgroundColor: "#f5f5f5",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e0e0e0",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#333",
+  },
+  closeButton: {
+    padding: 8,
+    borderRadius: 20,
+    backgroundColor: "#e0e0e0",
+  },
+  closeButtonText: {
+    fontSize: 18,
+    color: "#333",
+    fontWeight: "bold",
+  },
+  filters: {
+    paddingHorizontal: 20,
+    paddingBottom: 10,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e0e0e0",
+  },
+  filterRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 10,
+  },
+  filterChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    backgroundColor: "#f5f5f5",
+  },
+  selectedFilterChip: {
+    backgroundColor: "#2196F3",
+    borderColor: "#2196F3",
+  },
+  filterChipText: {
+    fontSize: 12,
+    color: "#666",
+  },
+  selectedFilterChipText: {
+    color: "#fff",
+    fontWeight: "bold",
+  },
+  list: {
+    padding: 20,
+  },
+  sessionItem: {
+    backgroundColor: "#fff",
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  selectedSessionItem: {
+    borderColor: "#2196F3",
+    borderLeftWidth: 4,
+  },
+  activeSessionItem: {
+    borderColor: "#4CAF50",
+    borderWidth: 2,
+  },
+  sessionTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#333",
+  },
+  sessionDetails: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 4,
+  },
+  sessionTags: {
+    fontSize: 12,
+    color: "#2196F3",
+    marginTop: 4,
+  },
+  sessionNotes: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 4,
+  },
+  emptyText: {
+    textAlign: "center",
+    color: "#999",
+    marginTop: 20,
+  },
+});
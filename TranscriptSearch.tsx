@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import type { RecordingSession } from "./useResumableSpeechRecognition";
+import { getSessionTitle, UNTITLED_SESSION } from "./sessionMetadata";
+import {
+  buildSearchIndex,
+  SearchHit,
+  SearchSnippet,
+  searchTranscripts,
+} from "./transcriptSearch";
+
+interface TranscriptSearchProps {
+  sessions: RecordingSession[];
+  /** Called when a hit is tapped */
+  onSelectHit: (hit: SearchHit) => void;
+}
+
+// Snippet text with the matched words in bold
+const HighlightedSnippet: React.FC<{ snippet: SearchSnippet }> = ({
+  snippet,
+}) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  snippet.highlights.forEach(({ start, end }, index) => {
+    parts.push(snippet.text.slice(position, start));
+    parts.push(
+      <Text key={index} style={styles.highlight}>
+        {snippet.text.slice(start, end)}
+      </Text>
+    );
+    position = end;
+  });
+  parts.push(snippet.text.slice(position));
+
+  return <Text style={styles.snippet}>{parts}</Text>;
+};
+
+/**
+ * Search box over the transcripts of all sessions, listing the best hits
+ */
+export const TranscriptSearch: React.FC<TranscriptSearchProps> = ({
+  sessions,
+  onSelectHit,
+}) => {
+  const [query, setQuery] = useState("");
+  const index = useMemo(() => buildSearchIndex(sessions), [sessions]);
+  const hits = useMemo(() => searchTranscripts(index, query), [index, query]);
+
+  const describeHit = (hit: SearchHit) => {
+    const session = sessions.find((session) => session.id === hit.sessionId);
+    const segment =
+      hit.segmentIndex >= 0 ? ` • Segment ${hit.segmentIndex + 1}` : "";
+    return `${session ? getSessionTitle(session) : UNTITLED_SESSION}${segment}`;
+  };
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={styles.input}
+        value={query}
+        onChangeText={setQuery}
+        placeholder="Search transcripts"
+        autoCorrect={false}
+        clearButtonMode="while-editing"
+      />
+      {query.trim() !== "" && hits.length === 0 && (
+        <Text style={styles.noHits}>No matches</Text>
+      )}
+      {hits.map((hit) => (
+        <TouchableOpacity
+          key={`${hit.sessionId}-${hit.resultIndex}`}
+          style={styles.hit}
+          onPress={() => {
+            setQuery("");
+            onSelectHit(hit);
+          }}
+        >
+          <Text style={styles.hitSource}>{describeHit(hit)}</Text>
+          <HighlightedSnippet snippet={hit.snippet} />
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 20,
+  },
+  input: {
+    backgroundColor: "#fff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  noHits: {
+    marginTop: 10,
+    color: "#999",
+  },
+  hit: {
+    marginTop: 8,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: "#fff",
+  },
+  hitSource: {
+    fontSize: 12,
+    color: "#666",
+    marginBottom: 4,
+  },
+  snippet: {
+    fontSize: 14,
+    color: "#333",
+  },
+  highlight: {
+    fontWeight: "bold",
+    backgroundColor: "#FFF59D",
+  },
+});
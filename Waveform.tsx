@@ -0,0 +1,152 @@
+import React, { useState } from "react";
+import { GestureResponderEvent, StyleSheet, View } from "react-native";
+import { AudioPlayer, useAudioPlayerStatus } from "expo-audio";
+import { useWaveformPeaks } from "./useWaveformPeaks";
+
+const DEFAULT_BUCKETS = 80;
+const DEFAULT_HEIGHT = 40;
+
+interface WaveformProps {
+  /** Audio file to draw, the one `player` plays */
+  uri: string;
+  player: AudioPlayer;
+  /** Where segments start, in milliseconds, marked with a line */
+  boundariesMs?: number[];
+  /** Number of bars */
+  buckets?: number;
+  height?: number;
+  /** Check the file for a rewrite when this changes */
+  refreshKey?: unknown;
+}
+
+/**
+ * Waveform of a recording with its playback position. Tap or drag to seek,
+ * the player seeks once the finger is lifted.
+ */
+export const Waveform: React.FC<WaveformProps> = ({
+  uri,
+  player,
+  boundariesMs = [],
+  buckets = DEFAULT_BUCKETS,
+  height = DEFAULT_HEIGHT,
+  refreshKey,
+}) => {
+  const peaks = useWaveformPeaks(uri, buckets, refreshKey);
+  const status = useAudioPlayerStatus(player);
+  const [width, setWidth] = useState(0);
+  // Position being dragged to, from 0 to 1
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+
+  const durationMs = peaks?.durationMs || (status.duration || 0) * 1000;
+  const position =
+    scrubPosition ??
+    (durationMs > 0 ? ((status.currentTime || 0) * 1000) / durationMs : 0);
+
+  const positionAt = (event: GestureResponderEvent) =>
+    width > 0
+      ? Math.min(Math.max(event.nativeEvent.locationX / width, 0), 1)
+      : 0;
+
+  const handleScrub = (event: GestureResponderEvent) => {
+    setScrubPosition(positionAt(event));
+  };
+
+  const handleSeek = (event: GestureResponderEvent) => {
+    setScrubPosition(null);
+    if (durationMs > 0) {
+      player.seekTo((positionAt(event) * durationMs) / 1000);
+    }
+  };
+
+  return (
+    <View
+      style={[styles.container, { height }]}
+      onLayout={(event) => setWidth(event.nativeEvent.layout.width)}
+      onStartShouldSetResponder={() => true}
+      onMoveShouldSetResponder={() => true}
+      onResponderGrant={handleScrub}
+      onResponderMove={handleScrub}
+      onResponderRelease={handleSeek}
+      onResponderTerminate={() => setScrubPosition(null)}
+    >
+      {/* Touches land on the container so locationX is relative to it */}
+      <View style={styles.bars} pointerEvents="none">
+        {peaks ? (
+          peaks.max.map((max, index) => (
+            <View
+              key={index}
+              style={[
+                styles.bar,
+                {
+                  height: Math.max(1, ((max - peaks.min[index]) * height) / 2),
+                },
+                (index + 0.5) / buckets <= position && styles.playedBar,
+              ]}
+            />
+          ))
+        ) : (
+          // Flat line until the peaks are loaded
+          <View style={[styles.placeholder, { width: `${position * 100}%` }]} />
+        )}
+      </View>
+
+      {durationMs > 0 &&
+        boundariesMs.map((boundaryMs) => (
+          <View
+            key={boundaryMs}
+            pointerEvents="none"
+            style={[
+              styles.boundary,
+              { left: `${(boundaryMs / durationMs) * 100}%` },
+            ]}
+          />
+        ))}
+
+      <View
+        pointerEvents="none"
+        style={[styles.playhead, { left: `${position * 100}%` }]}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 10,
+    justifyContent: "center",
+  },
+  bars: {
+    ...StyleSheet.absoluteFillObject,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  bar: {
+    flex: 1,
+    marginHorizontal: 0.5,
+    borderRadius: 1,
+    backgroundColor: "#ccc",
+  },
+  playedBar: {
+    backgroundColor: "#4CAF50",
+  },
+  placeholder: {
+    height: 2,
+    backgroundColor: "#4CAF50",
+  },
+  boundary: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    width: 1,
+    backgroundColor: "#2196F3",
+  },
+  playhead: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    width: 2,
+    marginLeft: -1,
+    backgroundColor: "#333",
+  },
+});
@@ -0,0 +1,18 @@
+import * as FileSystem from "expo-file-system";
+
+/**
+ * Identify the current contents of a file by its size and modification time.
+ * Edits and joins can write a new file at the URI of an old one, so anything
+ * read from a file is only valid while its version stays the same.
+ * @param uri - File to check
+ * @returns The version, or an empty string when the file can't be inspected
+ * (e.g. a blob URL on web, whose contents never change)
+ */
+export const getFileVersion = (uri: string): string => {
+  try {
+    const file = new FileSystem.File(uri);
+    return file.exists ? `${file.size}:${file.modificationTime}` : "";
+  } catch {
+    return "";
+  }
+};
@@ -0,0 +1,29 @@
+// Input level for meters, from the recognizer's `volumechange` events.
+
+// Loudest volume of a `volumechange` event, the scale goes from -2 to 10
+const MAX_VOLUME = 10;
+
+// How much of the way to a new volume the level moves per event. It rises
+// fast so speech shows right away, and falls slowly so it doesn't flicker.
+const ATTACK = 0.6;
+const RELEASE = 0.15;
+
+/**
+ * Map a recognizer volume to a level from 0 to 1, anything inaudible being 0
+ * @param value - Volume of a `volumechange` event
+ */
+export const normalizeVolume = (value: number) =>
+  Math.min(Math.max(value, 0) / MAX_VOLUME, 1);
+
+/**
+ * Move a level towards the next volume
+ * @param previous - Current smoothed level, from 0 to 1
+ * @param value - Volume of a `volumechange` event
+ * @returns The new smoothed level, from 0 to 1
+ */
+export const smoothLevel = (previous: number, value: number) => {
+  const target = normalizeVolume(value);
+  return (
+    previous + (target - previous) * (target > previous ? ATTACK : RELEASE)
+  );
+};
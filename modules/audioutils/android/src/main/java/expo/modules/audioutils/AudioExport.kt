@@ -0,0 +1,148 @@
+package expo.modules.audioutils
+
+import android.media.MediaCodec
+import android.media.MediaCodecInfo
+import android.media.MediaFormat
+import android.media.MediaMuxer
+import expo.modules.kotlin.records.Field
+import expo.modules.kotlin.records.Record
+import expo.modules.kotlin.types.Enumerable
+import java.io.File
+
+// Exporting the canonical WAV recordings to compressed formats for sharing.
+// FLAC is encoded by FlacEncoder.kt, AAC by the platform encoder.
+
+enum class ExportAudioFormat(val value: String) : Enumerable {
+  FLAC("flac"),
+  M4A("m4a");
+
+  val mimeType get() = when (this) {
+    FLAC -> "audio/flac"
+    M4A -> "audio/mp4"
+  }
+}
+
+class ExportAudioOptions : Record {
+  @Field
+  val format: ExportAudioFormat = ExportAudioFormat.FLAC
+
+  @Field
+  val bitRate: Int = 64000
+
+  @Field
+  val jobId: String? = null
+}
+
+// Output of an export, fed with interleaved float samples block by block
+internal interface AudioEncoder {
+  fun writeSamples(samples: FloatArray)
+  fun close()
+  fun abort()
+}
+
+// Time to wait for a codec buffer before draining the output again
+private const val CODEC_TIMEOUT_US = 10_000L
+
+// Encodes AAC-LC into an MPEG-4 container with MediaCodec and MediaMuxer. The
+// encoder takes 16-bit PCM with at most two channels.
+internal class AacWriter(private val path: String, private val format: WavFormat, bitRate: Int) : AudioEncoder {
+  private val codec = MediaCodec.createEncoderByType(MediaFormat.MIMETYPE_AUDIO_AAC)
+  private val muxer = MediaMuxer(path, MediaMuxer.OutputFormat.MUXER_OUTPUT_MPEG_4)
+  private val bufferInfo = MediaCodec.BufferInfo()
+  private var track = -1
+  private var framesQueued = 0L
+
+  init {
+    require(format.audioFormat == WAVE_FORMAT_PCM && format.bitsPerSample == 16 && format.numChannels <= 2) {
+      "AAC encoding needs 16-bit PCM with at most two channels"
+    }
+    val codecFormat = MediaFormat.createAudioFormat(MediaFormat.MIMETYPE_AUDIO_AAC, format.sampleRate, format.numChannels)
+    codecFormat.setInteger(MediaFormat.KEY_AAC_PROFILE, MediaCodecInfo.CodecProfileLevel.AACObjectLC)
+    codecFormat.setInteger(MediaFormat.KEY_BIT_RATE, bitRate)
+    codecFormat.setInteger(MediaFormat.KEY_MAX_INPUT_SIZE, BLOCK_FRAMES * format.blockAlign)
+    codec.configure(codecFormat, null, null, MediaCodec.CONFIGURE_FLAG_ENCODE)
+    codec.start()
+  }
+
+  override fun writeSamples(samples: FloatArray) {
+    val pcm = encodeSamples(samples, format)
+    var offset = 0
+    while (offset < pcm.size) {
+      val index = codec.dequeueInputBuffer(CODEC_TIMEOUT_US)
+      if (index < 0) {
+        drain(endOfStream = false)
+        continue
+      }
+      val buffer = codec.getInputBuffer(index)!!
+      buffer.clear()
+      // Whole frames only, so presentation times stay exact
+      val count = minOf(buffer.remaining() / format.blockAlign * format.blockAlign, pcm.size - offset)
+      buffer.put(pcm, offset, count)
+      codec.queueInputBuffer(index, 0, count, presentationTimeUs(), 0)
+      framesQueued += count / format.blockAlign
+      offset += count
+      drain(endOfStream = false)
+    }
+  }
+
+  // Flush the encoder and finish the container
+  override fun close() {
+    var index = codec.dequeueInputBuffer(CODEC_TIMEOUT_US)
+    while (index < 0) {
+      drain(endOfStream = false)
+      index = codec.dequeueInputBuffer(CODEC_TIMEOUT_US)
+    }
+    try {
+      codec.queueInputBuffer(index, 0, 0, presentationTimeUs(), MediaCodec.BUFFER_FLAG_END_OF_STREAM)
+      drain(endOfStream = true)
+      codec.stop()
+    } finally {
+      codec.release()
+      try {
+        // The muxer only starts once the encoder emitted its format, which
+        // doesn't happen for an empty input
+        if (track >= 0) {
+          muxer.stop()
+        }
+      } finally {
+        muxer.release()
+      }
+    }
+  }
+
+  // Release the encoder and delete the partial output
+  override fun abort() {
+    codec.release()
+    muxer.release()
+    File(path).delete()
+  }
+
+  private fun presentationTimeUs() = framesQueued * 1_000_000L / format.sampleRate
+
+  // Move encoded frames to the muxer. At the end of the stream this waits
+  // until the encoder has emitted its last frame.
+  private fun drain(endOfStream: Boolean) {
+    while (true) {
+      val index = codec.dequeueOutputBuffer(bufferInfo, if (endOfStream) CODEC_TIMEOUT_US else 0)
+      when {
+        index == MediaCodec.INFO_TRY_AGAIN_LATER -> if (!endOfStream) return
+        // Sent once before the first frame, with the codec specific data the muxer needs
+        index == MediaCodec.INFO_OUTPUT_FORMAT_CHANGED -> {
+          track = muxer.addTrack(codec.outputFormat)
+          muxer.start()
+        }
+        index >= 0 -> {
+          val buffer = codec.getOutputBuffer(index)!!
+          val isConfig = bufferInfo.flags and MediaCodec.BUFFER_FLAG_CODEC_CONFIG != 0
+          if (!isConfig && bufferInfo.size > 0 && track >= 0) {
+            buffer.position(bufferInfo.offset)
+            buffer.limit(bufferInfo.offset + bufferInfo.size)
+            muxer.writeSampleData(track, buffer, bufferInfo)
+          }
+          codec.releaseOutputBuffer(index, false)
+          if (bufferInfo.flags and MediaCodec.BUFFER_FLAG_END_OF_STREAM != 0) return
+        }
+      }
+    }
+  }
+}
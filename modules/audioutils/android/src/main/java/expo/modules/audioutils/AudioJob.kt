@@ -0,0 +1,62 @@
+package expo.modules.audioutils
+
+import expo.modules.kotlin.exception.CodedException
+
+// Rejected with code ERR_JOB_CANCELLED when cancelJob is called for a running job
+class JobCancelledException(jobId: String) :
+  CodedException("Job $jobId was cancelled")
+
+// Minimum time between progress events
+private const val PROGRESS_INTERVAL_MS = 100L
+
+// Progress reporting and cancellation for a long running operation. Jobs
+// without an id don't report progress and can't be cancelled.
+internal class AudioJob(
+  private val jobId: String?,
+  private val fileCount: Int,
+  private val totalBytes: Long,
+  private val cancelledJobs: Set<String>,
+  private val sendProgress: (Map<String, Any>) -> Unit
+) {
+  private var bytesProcessed = 0L
+  private var fileIndex = 0
+  private var lastReportTime = 0L
+
+  fun startFile(index: Int) {
+    fileIndex = index
+    throwIfCancelled()
+    report(force = true)
+  }
+
+  fun advance(bytes: Long) {
+    bytesProcessed = minOf(totalBytes, bytesProcessed + bytes)
+    throwIfCancelled()
+    report()
+  }
+
+  fun finish() {
+    bytesProcessed = totalBytes
+    report(force = true)
+  }
+
+  fun throwIfCancelled() {
+    if (jobId != null && jobId in cancelledJobs) {
+      throw JobCancelledException(jobId)
+    }
+  }
+
+  private fun report(force: Boolean = false) {
+    if (jobId == null) return
+    val now = System.currentTimeMillis()
+    if (!force && now - lastReportTime < PROGRESS_INTERVAL_MS) return
+    lastReportTime = now
+
+    sendProgress(mapOf(
+      "jobId" to jobId,
+      "bytesProcessed" to bytesProcessed.toDouble(),
+      "totalBytes" to totalBytes.toDouble(),
+      "fileIndex" to fileIndex,
+      "fileCount" to fileCount
+    ))
+  }
+}
@@ -1,41 +1,125 @@
 package expo.modules.audioutils
 
+import expo.modules.kotlin.exception.CodedException
 import expo.modules.kotlin.modules.Module
 import expo.modules.kotlin.modules.ModuleDefinition
 import java.io.*
 import java.nio.ByteBuffer
 import java.nio.ByteOrder
-import java.util.*
+import java.util.Collections
 
-class AudioutilsModule : Module() {
+// Rejected with code ERR_INCOMPATIBLE_AUDIO_FORMAT so JS can tell which file is bad
+class IncompatibleAudioFormatException(file: String, reason: String) :
+  CodedException("Incompatible audio format in $file: $reason")
+
+internal const val WAVE_FORMAT_PCM = 1
+internal const val WAVE_FORMAT_IEEE_FLOAT = 3
+internal const val WAVE_FORMAT_EXTENSIBLE = 0xFFFE
+
+internal data class WavFormat(
+  val audioFormat: Int,
+  val numChannels: Int,
+  val sampleRate: Int,
+  val bitsPerSample: Int
+) {
+  val bytesPerSample get() = bitsPerSample / 8
+  val blockAlign get() = numChannels * bytesPerSample
+  val byteRate get() = sampleRate * blockAlign
+
+  val isSupported get() = numChannels > 0 && sampleRate > 0 && when (audioFormat) {
+    WAVE_FORMAT_PCM -> bitsPerSample in listOf(8, 16, 24, 32)
+    WAVE_FORMAT_IEEE_FLOAT -> bitsPerSample == 32
+    else -> false
+  }
+
+  override fun toString() = "format $audioFormat, $sampleRate Hz, $numChannels ch, $bitsPerSample bit"
+}
+
+// Decode PCM data into interleaved float samples in [-1, 1]
+internal fun decodeSamples(data: ByteArray, offset: Int, size: Int, format: WavFormat): FloatArray {
+  val buffer = ByteBuffer.wrap(data).order(ByteOrder.LITTLE_ENDIAN)
+  val samples = FloatArray(size / format.bytesPerSample)
   
-  // Helper function to find the data chunk in a WAV file
-  private fun findDataChunk(data: ByteArray): Pair<Long, Long> {
-    var offset = 12L // Start after RIFF header
-    
-    while (offset < data.size - 8) {
-      // Read chunk ID (4 bytes)
-      val chunkID = String(data, offset.toInt(), 4)
-      
-      // Read chunk size (4 bytes, little-endian)
-      val chunkSize = (data[offset.toInt() + 4].toInt() and 0xFF) or
-                     ((data[offset.toInt() + 5].toInt() and 0xFF) shl 8) or
-                     ((data[offset.toInt() + 6].toInt() and 0xFF) shl 16) or
-                     ((data[offset.toInt() + 7].toInt() and 0xFF) shl 24)
-      
-      if (chunkID == "data") {
-        return Pair(offset + 8, chunkSize.toLong())
+  for (i in samples.indices) {
+    val position = offset + i * format.bytesPerSample
+    samples[i] = when {
+      format.audioFormat == WAVE_FORMAT_IEEE_FLOAT -> buffer.getFloat(position)
+      format.bitsPerSample == 8 -> ((data[position].toInt() and 0xFF) - 128) / 128f
+      format.bitsPerSample == 16 -> buffer.getShort(position) / 32768f
+      format.bitsPerSample == 24 -> ((data[position].toInt() and 0xFF) or
+                                    ((data[position + 1].toInt() and 0xFF) shl 8) or
+                                    (data[position + 2].toInt() shl 16)) / 8388608f
+      else -> buffer.getInt(position) / 2147483648f
+    }
+  }
+  
+  return samples
+}
+
+// Encode interleaved float samples into PCM data
+internal fun encodeSamples(samples: FloatArray, format: WavFormat): ByteArray {
+  val buffer = ByteBuffer.allocate(samples.size * format.bytesPerSample).order(ByteOrder.LITTLE_ENDIAN)
+  
+  for (value in samples) {
+    val sample = value.coerceIn(-1f, 1f)
+    when {
+      format.audioFormat == WAVE_FORMAT_IEEE_FLOAT -> buffer.putFloat(sample)
+      format.bitsPerSample == 8 -> buffer.put((Math.round(sample * 127) + 128).toByte())
+      format.bitsPerSample == 16 -> buffer.putShort(Math.round(sample * 32767).toShort())
+      format.bitsPerSample == 24 -> {
+        val intValue = Math.round(sample * 8388607)
+        buffer.put((intValue and 0xFF).toByte())
+        buffer.put(((intValue shr 8) and 0xFF).toByte())
+        buffer.put(((intValue shr 16) and 0xFF).toByte())
       }
-      
-      // Move to next chunk
-      offset += 8 + chunkSize
-      if (chunkSize % 2 == 1) {
-        offset += 1 // Skip padding byte if chunk size is odd
+      else -> buffer.putInt(Math.round(sample.toDouble() * 2147483647).toInt())
+    }
+  }
+  
+  return buffer.array()
+}
+
+// Downmix to mono, upmix from mono, or map channels one to one
+internal fun convertChannels(samples: FloatArray, fromChannels: Int, toChannels: Int): FloatArray {
+  if (fromChannels == toChannels) return samples
+  
+  val frames = samples.size / fromChannels
+  val output = FloatArray(frames * toChannels)
+  for (frame in 0 until frames) {
+    val input = frame * fromChannels
+    if (toChannels == 1) {
+      var sum = 0f
+      for (channel in 0 until fromChannels) {
+        sum += samples[input + channel]
+      }
+      output[frame] = sum / fromChannels
+    } else {
+      for (channel in 0 until toChannels) {
+        output[frame * toChannels + channel] = samples[input + (channel % fromChannels)]
       }
     }
-    
-    // Fallback: assume data starts at offset 44 (standard WAV header)
-    return Pair(44, data.size.toLong() - 44)
+  }
+  
+  return output
+}
+
+class AudioutilsModule : Module() {
+  
+  // Ids passed to cancelJob, checked by running jobs between blocks
+  private val cancelledJobs = Collections.synchronizedSet(mutableSetOf<String>())
+  
+  // Convert URL strings to file paths
+  private fun toFilePath(uri: String) = if (uri.startsWith("file://")) {
+    uri.substring(7) // Remove "file://" prefix
+  } else {
+    uri
+  }
+  
+  // Return output paths in the same form as the input URL
+  private fun toOutputUri(inputUri: String, path: String) = if (inputUri.startsWith("file://")) {
+    "file://$path"
+  } else {
+    path
   }
   
   // Each module class must implement the definition function. The definition consists of components
@@ -47,108 +131,411 @@ class AudioutilsModule : Module() {
     // The module will be accessible from `requireNativeModule('Audioutils')` in JavaScript.
     Name("Audioutils")
     
-    AsyncFunction("joinAudioFiles") { audioFiles: List<String> ->
+    // Progress of long running operations started with a jobId
+    Events("onProgress")
+    
+    AsyncFunction("getAudioInfo") { uri: String ->
+      try {
+        val filePath = toFilePath(uri)
+        val file = File(filePath)
+        if (!file.exists()) {
+          throw FileNotFoundException("Audio file not found: $filePath")
+        }
+        
+        // Only the chunk headers are read, not the audio
+        val info = RandomAccessFile(file, "r").use { readWavInfo(it, uri) }
+        val format = info.format
+        
+        return@AsyncFunction mapOf(
+          "uri" to uri,
+          "durationMs" to if (format.sampleRate > 0) info.frames * 1000.0 / format.sampleRate else 0.0,
+          "sampleRate" to format.sampleRate,
+          "numChannels" to format.numChannels,
+          "bitsPerSample" to format.bitsPerSample,
+          "audioFormat" to format.audioFormat,
+          "byteSize" to file.length().toDouble(),
+          "dataSize" to info.dataSize.toDouble(),
+          "unknownChunks" to info.chunks
+            .filter { it.id !in KNOWN_CHUNK_IDS }
+            .map { mapOf("id" to it.id, "size" to it.size.toDouble()) }
+        )
+      } catch (e: CodedException) {
+        throw e
+      } catch (e: Exception) {
+        throw RuntimeException("Failed to read audio info: ${e.message}", e)
+      }
+    }
+    
+    AsyncFunction("getWaveformPeaks") { uri: String, buckets: Int ->
+      try {
+        val filePath = toFilePath(uri)
+        val file = File(filePath)
+        if (!file.exists()) {
+          throw FileNotFoundException("Audio file not found: $filePath")
+        }
+        
+        RandomAccessFile(file, "r").use { input ->
+          val info = readWavInfo(input, uri)
+          val format = info.format
+          if (!format.isSupported) {
+            throw IncompatibleAudioFormatException(uri, "unsupported encoding ($format)")
+          }
+          
+          // Stream the data chunk, only the peaks are kept
+          val peaks = computePeaks(PcmReader(input, info, format), buckets)
+          return@AsyncFunction mapOf(
+            "durationMs" to info.frames * 1000.0 / format.sampleRate,
+            "min" to peaks.min.toList(),
+            "max" to peaks.max.toList()
+          )
+        }
+      } catch (e: CodedException) {
+        throw e
+      } catch (e: Exception) {
+        throw RuntimeException("Failed to compute waveform peaks: ${e.message}", e)
+      }
+    }
+    
+    // Abort a running operation, its partial output is deleted
+    Function("cancelJob") { jobId: String ->
+      cancelledJobs.add(jobId)
+    }
+    
+    AsyncFunction("joinAudioFiles") { audioFiles: List<String>, options: JoinAudioFilesOptions? ->
       try {
         if (audioFiles.isEmpty()) {
           throw IllegalArgumentException("No audio files provided")
         }
         
         // Convert URL strings to file paths
-        val firstFilePath = if (audioFiles[0].startsWith("file://")) {
-          audioFiles[0].substring(7) // Remove "file://" prefix
-        } else {
-          audioFiles[0]
-        }
+        val filePaths = audioFiles.map { toFilePath(it) }
         
         // Generate output file path
-        val outputPath = File(firstFilePath).parent + "/joined_audio_${System.currentTimeMillis()}.wav"
+        val outputPath = File(filePaths[0]).parent + "/joined_audio_${System.currentTimeMillis()}.wav"
         
-        // Read first file to get header information
-        val firstFile = File(firstFilePath)
-        if (!firstFile.exists()) {
-          throw FileNotFoundException("First audio file not found: $firstFilePath")
+        // Read the format and data chunk position of every file, the first
+        // file's format is the target format
+        val infos = filePaths.mapIndexed { index, filePath ->
+          val file = File(filePath)
+          if (!file.exists()) {
+            throw FileNotFoundException("Audio file not found: $filePath")
+          }
+          RandomAccessFile(file, "r").use { readWavInfo(it, audioFiles[index]) }
         }
+        val firstFormat = infos[0].format
+        for ((index, info) in infos.withIndex()) {
+          if (!info.format.isSupported) {
+            throw IncompatibleAudioFormatException(audioFiles[index], "unsupported encoding (${info.format})")
+          }
+        }
+        
+        // Trimming reads every file twice, once to measure and once to write
+        val passes = if (options?.trimSilence != null) 2 else 1
+        val job = AudioJob(
+          jobId = options?.jobId,
+          fileCount = infos.size,
+          totalBytes = infos.sumOf { it.dataSize } * passes,
+          cancelledJobs = cancelledJobs
+        ) { sendEvent("onProgress", it) }
         
-        val firstFileStream = FileInputStream(firstFile)
-        val header = ByteArray(44) // Standard WAV header size
-        firstFileStream.read(header)
-        firstFileStream.close()
+        // Measure the silence to trim in the target format
+        val trims = infos.mapIndexed { index, info ->
+          options?.trimSilence?.let { trimOptions ->
+            job.startFile(index)
+            RandomAccessFile(filePaths[index], "r").use { file ->
+              detectSilence(PcmReader(file, info, firstFormat, job::advance), firstFormat.sampleRate, trimOptions)
+            }
+          } ?: TrimmedFrames(0, 0)
+        }
         
-        // Validate WAV header
-        val headerString = String(header, 0, 4)
-        if (headerString != "RIFF") {
-          throw IllegalArgumentException("First file is not a valid WAV file")
+        // Resolve gaps and crossfades, which change the length of the output
+        val frameCounts = infos.mapIndexed { index, info ->
+          info.framesIn(firstFormat) - trims[index].start - trims[index].end
         }
+        val transitions = options?.takeIf { it.hasTransitions }?.resolve(frameCounts, firstFormat.sampleRate)
         
-        // Calculate total data size and find data chunk positions
-        var totalDataSize = 0L
-        val convertedFilePaths = mutableListOf<String>()
-        val dataChunkOffsets = mutableListOf<Long>()
-        val dataChunkSizes = mutableListOf<Long>()
+        // Stream the data chunks into the joined file, converting any file
+        // whose format differs from the first one. The header sizes are
+        // patched once everything has been written.
+        val writer = WavWriter(outputPath, firstFormat)
+        try {
+          var heldTail: FloatArray? = null
+          for ((index, info) in infos.withIndex()) {
+            val trim = trims[index]
+            val frames = frameCounts[index]
+            job.startFile(index)
+            
+            RandomAccessFile(filePaths[index], "r").use { file ->
+              if (info.format == firstFormat && transitions == null) {
+                writer.copyFrom(file, info.dataOffset + trim.start * firstFormat.blockAlign, frames * firstFormat.blockAlign, job::advance)
+                return@use
+              }
+              
+              val reader = PcmReader(file, info, firstFormat, job::advance)
+              reader.skip(trim.start)
+              if (transitions == null) {
+                while (reader.position < frames) {
+                  val samples = reader.read(minOf(frames - reader.position, BLOCK_FRAMES.toLong()).toInt()) ?: break
+                  writer.writeSamples(samples)
+                }
+                return@use
+              }
+              
+              if (index > 0) {
+                writer.writeSilence(transitions.gapFrames.toLong())
+              }
+              heldTail = transitions.streamSegment(reader, frames, index, heldTail) { writer.writeSamples(it) }
+            }
+          }
+          writer.close()
+        } catch (e: Exception) {
+          writer.abort()
+          throw e
+        }
+        job.finish()
         
-        for (audioFile in audioFiles) {
-          // Convert URL string to file path
-          val filePath = if (audioFile.startsWith("file://")) {
-            audioFile.substring(7) // Remove "file://" prefix
-          } else {
-            audioFile
+        // Map each input file to its position in the joined audio
+        var startFrame = 0L
+        val segments = audioFiles.mapIndexed { index, audioFile ->
+          if (transitions != null && index > 0) {
+            startFrame += transitions.gapFrames - transitions.overlaps[index]
+          }
+          val frames = frameCounts[index]
+          val segment = mutableMapOf<String, Any>(
+            "uri" to audioFile,
+            "durationMs" to frames * 1000.0 / firstFormat.sampleRate,
+            "startMs" to startFrame * 1000.0 / firstFormat.sampleRate,
+            "endMs" to (startFrame + frames) * 1000.0 / firstFormat.sampleRate
+          )
+          if (options?.trimSilence != null) {
+            segment["trimmedStartMs"] = trims[index].start * 1000.0 / firstFormat.sampleRate
+            segment["trimmedEndMs"] = trims[index].end * 1000.0 / firstFormat.sampleRate
+          }
+          startFrame += frames
+          segment
+        }
+        
+        return@AsyncFunction mapOf(
+          "uri" to toOutputUri(audioFiles[0], outputPath),
+          "segments" to segments
+        )
+      } catch (e: CodedException) {
+        throw e
+      } catch (e: Exception) {
+        throw RuntimeException("Failed to join audio files: ${e.message}", e)
+      } finally {
+        options?.jobId?.let { cancelledJobs.remove(it) }
+      }
+    }
+    
+    AsyncFunction("trimSilence") { uri: String, options: TrimSilenceOptions? ->
+      try {
+        val filePath = toFilePath(uri)
+        val file = File(filePath)
+        if (!file.exists()) {
+          throw FileNotFoundException("Audio file not found: $filePath")
+        }
+        
+        val outputPath = file.parent + "/" + file.nameWithoutExtension + "_trimmed_${System.currentTimeMillis()}.wav"
+        RandomAccessFile(file, "r").use { input ->
+          val info = readWavInfo(input, uri)
+          val format = info.format
+          if (!format.isSupported) {
+            throw IncompatibleAudioFormatException(uri, "unsupported encoding ($format)")
           }
-          convertedFilePaths.add(filePath)
           
-          val file = File(filePath)
-          if (!file.exists()) {
-            throw FileNotFoundException("Audio file not found: $filePath")
+          // Detect the silence at either end of the data chunk
+          val trim = detectSilence(PcmReader(input, info, format), format.sampleRate, options ?: TrimSilenceOptions())
+          val frames = info.frames - trim.start - trim.end
+          
+          // Copy the remaining data into a new file next to the original
+          val writer = WavWriter(outputPath, format)
+          try {
+            writer.copyFrom(input, info.dataOffset + trim.start * format.blockAlign, frames * format.blockAlign)
+            writer.close()
+          } catch (e: Exception) {
+            writer.abort()
+            throw e
+          }
+          
+          return@AsyncFunction mapOf(
+            "uri" to toOutputUri(uri, outputPath),
+            "trimmedStartMs" to trim.start * 1000.0 / format.sampleRate,
+            "trimmedEndMs" to trim.end * 1000.0 / format.sampleRate,
+            "durationMs" to frames * 1000.0 / format.sampleRate
+          )
+        }
+      } catch (e: CodedException) {
+        throw e
+      } catch (e: Exception) {
+        throw RuntimeException("Failed to trim silence: ${e.message}", e)
+      }
+    }
+    
+    AsyncFunction("splitAudioFile") { uri: String, offsetsMs: List<Double> ->
+      try {
+        val filePath = toFilePath(uri)
+        val file = File(filePath)
+        if (!file.exists()) {
+          throw FileNotFoundException("Audio file not found: $filePath")
+        }
+        
+        RandomAccessFile(file, "r").use { input ->
+          val info = readWavInfo(input, uri)
+          val format = info.format
+          if (!format.isSupported) {
+            throw IncompatibleAudioFormatException(uri, "unsupported encoding ($format)")
           }
           
-          val fileData = file.readBytes()
-          val (dataOffset, dataSize) = findDataChunk(fileData)
-          dataChunkOffsets.add(dataOffset)
-          dataChunkSizes.add(dataSize)
-          totalDataSize += dataSize
-        }
-        
-        // Create a clean WAV header (extract format info from first file)
-        val fmtChunk = header.sliceArray(12..35) // Extract fmt chunk
-        
-        // Create new header with clean structure
-        val newHeader = ByteArray(44)
-        val buffer = ByteBuffer.wrap(newHeader)
-        buffer.order(ByteOrder.LITTLE_ENDIAN)
-        
-        // RIFF header
-        buffer.put("RIFF".toByteArray())
-        buffer.putInt((36 + totalDataSize).toInt())
-        buffer.put("WAVE".toByteArray())
-        
-        // fmt chunk
-        buffer.position(12)
-        buffer.put(fmtChunk)
-        
-        // data chunk header
-        buffer.position(36)
-        buffer.put("data".toByteArray())
-        buffer.putInt(totalDataSize.toInt())
-        
-        // Write joined file
-        val outputStream = FileOutputStream(outputPath)
-        outputStream.write(newHeader)
-        
-        // Append data from all files (only the data chunks)
-        for ((index, filePath) in convertedFilePaths.withIndex()) {
-          val fileData = File(filePath).readBytes()
-          val dataOffset = dataChunkOffsets[index].toInt()
-          val dataSize = dataChunkSizes[index].toInt()
+          // Offsets outside the audio, or that round to the same frame, would
+          // make empty parts
+          val boundaries = listOf(0L) + offsetsMs.sorted().map { info.frameAt(it) } + info.frames
+          val ranges = boundaries.zipWithNext()
+          require(ranges.all { (start, end) -> end > start }) { "offsetsMs must be distinct offsets inside the audio" }
+          
+          // Copy each range into its own file next to the original, keeping
+          // the fmt chunk as is
+          val timestamp = System.currentTimeMillis()
+          val outputPaths = mutableListOf<String>()
+          try {
+            for ((index, range) in ranges.withIndex()) {
+              val (start, end) = range
+              val outputPath = file.parent + "/" + file.nameWithoutExtension + "_part${index + 1}_$timestamp.wav"
+              val writer = WavWriter(outputPath, format, info.fmtChunk)
+              try {
+                writer.copyFrom(input, info.dataOffset + start * format.blockAlign, (end - start) * format.blockAlign)
+                writer.close()
+              } catch (e: Exception) {
+                writer.abort()
+                throw e
+              }
+              outputPaths.add(outputPath)
+            }
+          } catch (e: Exception) {
+            // Don't leave the parts written so far behind
+            outputPaths.forEach { File(it).delete() }
+            throw e
+          }
           
-          // Extract only the data chunk
-          val audioData = fileData.sliceArray(dataOffset until (dataOffset + dataSize))
-          outputStream.write(audioData)
+          return@AsyncFunction mapOf(
+            "parts" to ranges.mapIndexed { index, (start, end) ->
+              mapOf(
+                "uri" to toOutputUri(uri, outputPaths[index]),
+                "startMs" to start * 1000.0 / format.sampleRate,
+                "endMs" to end * 1000.0 / format.sampleRate,
+                "durationMs" to (end - start) * 1000.0 / format.sampleRate
+              )
+            }
+          )
         }
+      } catch (e: CodedException) {
+        throw e
+      } catch (e: Exception) {
+        throw RuntimeException("Failed to split audio file: ${e.message}", e)
+      }
+    }
+    
+    AsyncFunction("cutRange") { uri: String, startMs: Double, endMs: Double ->
+      try {
+        val filePath = toFilePath(uri)
+        val file = File(filePath)
+        if (!file.exists()) {
+          throw FileNotFoundException("Audio file not found: $filePath")
+        }
+        require(startMs >= 0 && endMs > startMs) { "endMs must be after startMs, and startMs can't be negative" }
         
-        outputStream.close()
+        RandomAccessFile(file, "r").use { input ->
+          val info = readWavInfo(input, uri)
+          val format = info.format
+          if (!format.isSupported) {
+            throw IncompatibleAudioFormatException(uri, "unsupported encoding ($format)")
+          }
+          val start = info.frameAt(startMs)
+          val end = info.frameAt(endMs)
+          require(start < info.frames) { "startMs is past the end of the audio" }
+          
+          // Copy the audio either side of the range into a new file next to
+          // the original, keeping the fmt chunk as is
+          val outputPath = file.parent + "/" + file.nameWithoutExtension + "_cut_${System.currentTimeMillis()}.wav"
+          val writer = WavWriter(outputPath, format, info.fmtChunk)
+          try {
+            writer.copyFrom(input, info.dataOffset, start * format.blockAlign)
+            writer.copyFrom(input, info.dataOffset + end * format.blockAlign, (info.frames - end) * format.blockAlign)
+            writer.close()
+          } catch (e: Exception) {
+            writer.abort()
+            throw e
+          }
+          
+          return@AsyncFunction mapOf(
+            "uri" to toOutputUri(uri, outputPath),
+            "durationMs" to (info.frames - (end - start)) * 1000.0 / format.sampleRate,
+            "removedMs" to (end - start) * 1000.0 / format.sampleRate
+          )
+        }
+      } catch (e: CodedException) {
+        throw e
+      } catch (e: Exception) {
+        throw RuntimeException("Failed to cut range: ${e.message}", e)
+      }
+    }
+    
+    AsyncFunction("exportAudio") { uri: String, options: ExportAudioOptions ->
+      try {
+        val filePath = toFilePath(uri)
+        val file = File(filePath)
+        if (!file.exists()) {
+          throw FileNotFoundException("Audio file not found: $filePath")
+        }
         
-        return@AsyncFunction outputPath
+        // The WAV file is left as is, the export is written next to it
+        val format = options.format
+        val outputPath = file.parent + "/" + file.nameWithoutExtension + "_${System.currentTimeMillis()}.${format.value}"
+        RandomAccessFile(file, "r").use { input ->
+          val info = readWavInfo(input, uri)
+          if (!info.format.isSupported) {
+            throw IncompatibleAudioFormatException(uri, "unsupported encoding (${info.format})")
+          }
+          
+          // FLAC keeps the source format, the AAC encoder takes 16-bit PCM
+          // with at most two channels
+          val target = when (format) {
+            ExportAudioFormat.FLAC -> info.format
+            ExportAudioFormat.M4A -> WavFormat(WAVE_FORMAT_PCM, minOf(2, info.format.numChannels), info.format.sampleRate, 16)
+          }
+          val job = AudioJob(options.jobId, 1, info.dataSize, cancelledJobs) { sendEvent("onProgress", it) }
+          val encoder = when (format) {
+            ExportAudioFormat.FLAC -> FlacWriter(outputPath, target)
+            ExportAudioFormat.M4A -> AacWriter(outputPath, target, options.bitRate)
+          }
+          try {
+            job.startFile(0)
+            val reader = PcmReader(input, info, target, job::advance)
+            while (true) {
+              val samples = reader.read() ?: break
+              encoder.writeSamples(samples)
+            }
+            encoder.close()
+          } catch (e: Exception) {
+            encoder.abort()
+            throw e
+          }
+          job.finish()
+          
+          return@AsyncFunction mapOf(
+            "uri" to toOutputUri(uri, outputPath),
+            "format" to format.value,
+            "mimeType" to format.mimeType,
+            "byteSize" to File(outputPath).length().toDouble(),
+            "durationMs" to info.frames * 1000.0 / info.format.sampleRate
+          )
+        }
+      } catch (e: CodedException) {
+        throw e
       } catch (e: Exception) {
-        throw RuntimeException("Failed to join audio files: ${e.message}", e)
+        throw RuntimeException("Failed to export audio: ${e.message}", e)
+      } finally {
+        options.jobId?.let { cancelledJobs.remove(it) }
       }
     }
   }
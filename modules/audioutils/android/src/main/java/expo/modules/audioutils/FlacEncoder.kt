@@ -0,0 +1,327 @@
+package expo.modules.audioutils
+
+import java.io.File
+import java.io.RandomAccessFile
+import kotlin.math.roundToLong
+
+// FLAC encoder. Frames use FLAC's fixed polynomial predictors with Rice coded
+// residuals, which gets most of the compression of a full LPC encoder on speech
+// at a fraction of the cost. Mirrors src/flac.ts.
+
+// Samples per channel in every frame but the last
+private const val FLAC_BLOCK_SIZE = 4096
+private const val MAX_FIXED_ORDER = 4
+private const val MAX_PARTITION_ORDER = 8
+// Rice parameter 15 is the escape code, which this encoder doesn't use
+private const val MAX_RICE_PARAMETER = 14
+// "fLaC" marker, STREAMINFO block header and body
+private const val FLAC_HEADER_SIZE = 4 + 4 + 34
+
+// Sample size codes of the frame header, 0 means "see STREAMINFO"
+private val SAMPLE_SIZE_CODES = mapOf(8 to 1, 16 to 4, 24 to 6)
+
+// Bit depth a format is stored with in FLAC, float and 32-bit PCM audio is reduced to 24 bits
+internal fun flacBitsPerSample(format: WavFormat) =
+  if (format.audioFormat == WAVE_FORMAT_PCM && format.bitsPerSample <= 24) format.bitsPerSample else 24
+
+// Writes big-endian bit fields into a growing byte buffer
+private class BitWriter {
+  var bytes = ByteArray(8192)
+    private set
+  var size = 0
+    private set
+  private var acc = 0L
+  private var accBits = 0
+
+  // Write the low bits of a value (at most 32), negative values as two's complement
+  fun write(value: Long, bits: Int) {
+    acc = (acc shl bits) or (value and ((1L shl bits) - 1))
+    accBits += bits
+    while (accBits >= 8) {
+      accBits -= 8
+      push(((acc ushr accBits) and 0xFF).toInt())
+    }
+    acc = acc and ((1L shl accBits) - 1)
+  }
+
+  fun write(value: Int, bits: Int) = write(value.toLong(), bits)
+
+  // Write a number of zero bits followed by a one
+  fun writeUnary(zeros: Long) {
+    var remaining = zeros
+    while (remaining >= 31) {
+      write(0, 31)
+      remaining -= 31
+    }
+    write(1, remaining.toInt() + 1)
+  }
+
+  // Pad with zero bits to the next byte boundary
+  fun align() {
+    if (accBits > 0) write(0, 8 - accBits)
+  }
+
+  private fun push(byte: Int) {
+    if (size == bytes.size) bytes = bytes.copyOf(size * 2)
+    bytes[size++] = byte.toByte()
+  }
+}
+
+// CRC-8 (polynomial 0x07) of the frame header
+private fun crc8(bytes: ByteArray, length: Int): Int {
+  var crc = 0
+  for (i in 0 until length) {
+    crc = crc xor (bytes[i].toInt() and 0xFF)
+    repeat(8) {
+      crc = if (crc and 0x80 != 0) ((crc shl 1) xor 0x07) and 0xFF else (crc shl 1) and 0xFF
+    }
+  }
+  return crc
+}
+
+// CRC-16 (polynomial 0x8005) of the whole frame
+private fun crc16(bytes: ByteArray, length: Int): Int {
+  var crc = 0
+  for (i in 0 until length) {
+    crc = crc xor ((bytes[i].toInt() and 0xFF) shl 8)
+    repeat(8) {
+      crc = if (crc and 0x8000 != 0) ((crc shl 1) xor 0x8005) and 0xFFFF else (crc shl 1) and 0xFFFF
+    }
+  }
+  return crc
+}
+
+// Residual of the fixed predictor of the given order
+private fun fixedResidual(s: IntArray, order: Int) = IntArray(s.size - order) { index ->
+  val i = index + order
+  when (order) {
+    0 -> s[i]
+    1 -> s[i] - s[i - 1]
+    2 -> s[i] - 2 * s[i - 1] + s[i - 2]
+    3 -> s[i] - 3 * s[i - 1] + 3 * s[i - 2] - s[i - 3]
+    else -> s[i] - 4 * s[i - 1] + 6 * s[i - 2] - 4 * s[i - 3] + s[i - 4]
+  }
+}
+
+// Residuals are Rice coded as unsigned values: 0, -1, 1, -2, 2...
+private fun fold(value: Int) = if (value >= 0) value.toLong() * 2 else -value.toLong() * 2 - 1
+
+private class ResidualPlan(var bits: Long, val partitionOrder: Int, val parameters: List<Int>)
+
+// Pick the partition order and Rice parameters that code a residual in the
+// fewest bits
+private fun planResidual(residual: IntArray, blockSize: Int, order: Int): ResidualPlan {
+  var best = ResidualPlan(Long.MAX_VALUE, 0, listOf(0))
+  for (partitionOrder in 0..MAX_PARTITION_ORDER) {
+    val partitionSize = blockSize shr partitionOrder
+    // Every partition must be the same size, and the first one also holds
+    // the warm-up samples
+    if (blockSize % (1 shl partitionOrder) != 0 || partitionSize <= order) break
+
+    var bits = 2L + 4
+    val parameters = mutableListOf<Int>()
+    var start = 0
+    for (partition in 0 until (1 shl partitionOrder)) {
+      val end = (partition + 1) * partitionSize - order
+      var sum = 0L
+      for (i in start until end) {
+        sum += fold(residual[i])
+      }
+      // Estimated size of the partition with each Rice parameter
+      var partitionBits = Long.MAX_VALUE
+      var bestParameter = 0
+      for (parameter in 0..MAX_RICE_PARAMETER) {
+        val cost = (end - start).toLong() * (parameter + 1) + (sum shr parameter)
+        if (cost < partitionBits) {
+          partitionBits = cost
+          bestParameter = parameter
+        }
+      }
+      bits += 4 + partitionBits
+      parameters.add(bestParameter)
+      start = end
+    }
+    if (bits < best.bits) {
+      best = ResidualPlan(bits, partitionOrder, parameters)
+    }
+  }
+  return best
+}
+
+private fun BitWriter.writeResidual(residual: IntArray, plan: ResidualPlan, blockSize: Int, order: Int) {
+  // Rice coding with 4-bit parameters
+  write(0, 2)
+  write(plan.partitionOrder, 4)
+  val partitionSize = blockSize shr plan.partitionOrder
+  var start = 0
+  for ((partition, parameter) in plan.parameters.withIndex()) {
+    val end = (partition + 1) * partitionSize - order
+    write(parameter, 4)
+    for (i in start until end) {
+      val value = fold(residual[i])
+      writeUnary(value shr parameter)
+      if (parameter > 0) write(value, parameter)
+    }
+    start = end
+  }
+}
+
+// Write one channel of a frame as a constant, fixed predictor or verbatim
+// subframe, whichever is smallest
+private fun BitWriter.writeSubframe(samples: IntArray, bitsPerSample: Int) {
+  val blockSize = samples.size
+  if (samples.all { it == samples[0] }) {
+    write(0b00000000, 8)
+    write(samples[0], bitsPerSample)
+    return
+  }
+
+  var bestOrder = 0
+  var bestResidual = IntArray(0)
+  var bestPlan: ResidualPlan? = null
+  for (order in 0..minOf(MAX_FIXED_ORDER, blockSize - 1)) {
+    val residual = fixedResidual(samples, order)
+    val plan = planResidual(residual, blockSize, order)
+    plan.bits += order.toLong() * bitsPerSample
+    if (bestPlan == null || plan.bits < bestPlan.bits) {
+      bestOrder = order
+      bestResidual = residual
+      bestPlan = plan
+    }
+  }
+
+  if (bestPlan == null || bestPlan.bits >= blockSize.toLong() * bitsPerSample) {
+    write(0b00000010, 8)
+    for (sample in samples) {
+      write(sample, bitsPerSample)
+    }
+    return
+  }
+
+  write(0b00010000 or (bestOrder shl 1), 8)
+  for (i in 0 until bestOrder) {
+    write(samples[i], bitsPerSample)
+  }
+  writeResidual(bestResidual, bestPlan, blockSize, bestOrder)
+}
+
+// Frame numbers are coded like UTF-8 characters
+private fun BitWriter.writeFrameNumber(frameNumber: Long) {
+  if (frameNumber < 0x80) {
+    write(frameNumber, 8)
+    return
+  }
+  var continuationBytes = 1
+  while (frameNumber >= 1L shl (5 * continuationBytes + 6)) {
+    continuationBytes++
+  }
+  val prefix = (0xFF00 shr (continuationBytes + 1)) and 0xFF
+  write(prefix.toLong() or (frameNumber ushr (6 * continuationBytes)), 8)
+  for (i in continuationBytes - 1 downTo 0) {
+    write(0x80L or ((frameNumber ushr (6 * i)) and 0x3F), 8)
+  }
+}
+
+// Streams interleaved float samples into a FLAC file. Samples are buffered
+// into fixed-size frames, and the STREAMINFO block is patched with the total
+// length and frame sizes when closed.
+internal class FlacWriter(private val path: String, private val format: WavFormat) : AudioEncoder {
+  private val file = RandomAccessFile(path, "rw")
+  private val channels = format.numChannels
+  private val bitsPerSample = flacBitsPerSample(format)
+  private val scale = 1L shl (bitsPerSample - 1)
+
+  // Samples of the frame being filled, one array per channel
+  private val block = Array(channels) { IntArray(FLAC_BLOCK_SIZE) }
+  private var blockFrames = 0
+  private var frameNumber = 0L
+  private var totalFrames = 0L
+  private var minFrameSize = Int.MAX_VALUE
+  private var maxFrameSize = 0
+
+  init {
+    require(channels in 1..8) { "FLAC supports 1 to 8 channels" }
+    file.setLength(0)
+    file.write(header())
+  }
+
+  override fun writeSamples(samples: FloatArray) {
+    for (frame in 0 until samples.size / channels) {
+      // Decoded PCM converts back exactly, float audio is clamped and rounded
+      for (channel in 0 until channels) {
+        val sample = (samples[frame * channels + channel] * scale.toDouble()).roundToLong()
+        block[channel][blockFrames] = sample.coerceIn(-scale, scale - 1).toInt()
+      }
+      if (++blockFrames == FLAC_BLOCK_SIZE) writeFrame()
+    }
+  }
+
+  // Write the last, possibly shorter, frame and patch the header
+  override fun close() {
+    if (blockFrames > 0) writeFrame()
+    file.seek(0)
+    file.write(header())
+    file.close()
+  }
+
+  // Close and delete the partial output
+  override fun abort() {
+    file.close()
+    File(path).delete()
+  }
+
+  private fun writeFrame() {
+    val writer = BitWriter()
+
+    // Sync code, fixed block size stream
+    writer.write(0xFFF8, 16)
+    // Block size as a 16-bit value at the end of the header, sample rate
+    // from STREAMINFO
+    writer.write(0b0111, 4)
+    writer.write(0b0000, 4)
+    // Independent channels
+    writer.write(channels - 1, 4)
+    writer.write(SAMPLE_SIZE_CODES[bitsPerSample] ?: 0, 3)
+    writer.write(0, 1)
+    writer.writeFrameNumber(frameNumber)
+    writer.write(blockFrames - 1, 16)
+    writer.write(crc8(writer.bytes, writer.size), 8)
+
+    for (samples in block) {
+      writer.writeSubframe(samples.copyOf(blockFrames), bitsPerSample)
+    }
+    writer.align()
+    writer.write(crc16(writer.bytes, writer.size), 16)
+
+    file.write(writer.bytes, 0, writer.size)
+    minFrameSize = minOf(minFrameSize, writer.size)
+    maxFrameSize = maxOf(maxFrameSize, writer.size)
+    totalFrames += blockFrames
+    frameNumber++
+    blockFrames = 0
+  }
+
+  private fun header(): ByteArray {
+    val writer = BitWriter()
+    for (char in "fLaC") {
+      writer.write(char.code, 8)
+    }
+    // Last metadata block, type STREAMINFO
+    writer.write(0x80, 8)
+    writer.write(34, 24)
+    writer.write(FLAC_BLOCK_SIZE, 16)
+    writer.write(FLAC_BLOCK_SIZE, 16)
+    writer.write(if (frameNumber > 0) minFrameSize else 0, 24)
+    writer.write(maxFrameSize, 24)
+    writer.write(format.sampleRate, 20)
+    writer.write(channels - 1, 3)
+    writer.write(bitsPerSample - 1, 5)
+    writer.write(totalFrames ushr 32, 4)
+    writer.write(totalFrames, 32)
+    // MD5 of the audio, all zeros means it wasn't computed
+    repeat(16) {
+      writer.write(0, 8)
+    }
+    return writer.bytes.copyOf(FLAC_HEADER_SIZE)
+  }
+}
@@ -0,0 +1,32 @@
+package expo.modules.audioutils
+
+// Min/max peaks for drawing the waveform of a recording. Mirrors src/peaks.ts.
+
+internal class Peaks(val min: DoubleArray, val max: DoubleArray)
+
+// Split the audio into equally long buckets and find the lowest and highest
+// sample of each, over all channels. Buckets without audio stay 0.
+internal fun computePeaks(reader: PcmReader, buckets: Int): Peaks {
+  require(buckets > 0) { "buckets must be a positive integer" }
+
+  val channels = reader.channels
+  val frames = reader.frames
+  val lows = DoubleArray(buckets)
+  val highs = DoubleArray(buckets)
+  var frame = 0L
+
+  while (true) {
+    val samples = reader.read() ?: break
+    for (index in 0 until samples.size / channels) {
+      val bucket = minOf(frame * buckets / frames, buckets - 1L).toInt()
+      for (channel in 0 until channels) {
+        val sample = samples[index * channels + channel].toDouble()
+        if (sample < lows[bucket]) lows[bucket] = sample
+        if (sample > highs[bucket]) highs[bucket] = sample
+      }
+      frame++
+    }
+  }
+
+  return Peaks(lows, highs)
+}
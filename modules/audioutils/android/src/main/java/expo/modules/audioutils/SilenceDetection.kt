@@ -0,0 +1,74 @@
+package expo.modules.audioutils
+
+import expo.modules.kotlin.records.Field
+import expo.modules.kotlin.records.Record
+import kotlin.math.max
+import kotlin.math.min
+import kotlin.math.pow
+import kotlin.math.roundToInt
+import kotlin.math.sqrt
+
+// Energy-based voice activity detection, used to trim the dead air at the
+// start and end of hold-to-record segments. Mirrors src/vad.ts.
+
+class TrimSilenceOptions : Record {
+  @Field
+  val thresholdDb: Double = -40.0
+
+  @Field
+  val windowMs: Double = 20.0
+
+  @Field
+  val paddingMs: Double = 100.0
+}
+
+// Frames removed from the start and end of a segment
+internal class TrimmedFrames(val start: Long, val end: Long)
+
+// Find where speech starts and ends, judged by the RMS level of short windows.
+// Everything is trimmed if the audio is all silence.
+internal fun detectSilence(reader: PcmReader, sampleRate: Int, options: TrimSilenceOptions): TrimmedFrames {
+  require(options.windowMs > 0 && options.paddingMs >= 0) { "windowMs and paddingMs must be positive" }
+
+  val channels = reader.channels
+  val windowFrames = max(1, (options.windowMs * sampleRate / 1000).roundToInt())
+  val paddingFrames = (options.paddingMs * sampleRate / 1000).roundToInt()
+  val threshold = 10.0.pow(options.thresholdDb / 20)
+
+  var first = -1L
+  var last = -1L
+  var frames = 0L
+  var windowStart = 0L
+  var sum = 0.0
+
+  fun endWindow() {
+    if (frames > windowStart && sqrt(sum / ((frames - windowStart) * channels)) >= threshold) {
+      if (first < 0) first = windowStart
+      last = frames
+    }
+    windowStart = frames
+    sum = 0.0
+  }
+
+  while (true) {
+    val samples = reader.read() ?: break
+    for (frame in 0 until samples.size / channels) {
+      for (channel in 0 until channels) {
+        val sample = samples[frame * channels + channel]
+        sum += sample * sample
+      }
+      frames++
+      if (frames - windowStart == windowFrames.toLong()) endWindow()
+    }
+  }
+  endWindow()
+
+  if (first < 0) {
+    return TrimmedFrames(frames, 0)
+  }
+
+  return TrimmedFrames(
+    start = max(0L, first - paddingFrames),
+    end = frames - min(frames, last + paddingFrames)
+  )
+}
@@ -0,0 +1,181 @@
+package expo.modules.audioutils
+
+import expo.modules.kotlin.records.Field
+import expo.modules.kotlin.records.Record
+import expo.modules.kotlin.types.Enumerable
+import kotlin.math.PI
+import kotlin.math.cos
+import kotlin.math.roundToInt
+import kotlin.math.sin
+
+// Gaps, crossfades and fade ramps applied between segments when joining.
+// Mirrors src/transitions.ts.
+
+enum class CrossfadeCurve(val value: String) : Enumerable {
+  LINEAR("linear"),
+  EQUAL_POWER("equalPower")
+}
+
+class CrossfadeOptions : Record {
+  @Field
+  val durationMs: Double = 0.0
+
+  @Field
+  val curve: CrossfadeCurve = CrossfadeCurve.EQUAL_POWER
+}
+
+class JoinAudioFilesOptions : Record {
+  @Field
+  val gapMs: Double = 0.0
+
+  @Field
+  val crossfade: CrossfadeOptions? = null
+
+  @Field
+  val fadeInMs: Double = 0.0
+
+  @Field
+  val fadeOutMs: Double = 0.0
+
+  @Field
+  val trimSilence: TrimSilenceOptions? = null
+
+  @Field
+  val jobId: String? = null
+
+  val hasTransitions get() =
+    gapMs > 0 || (crossfade?.durationMs ?: 0.0) > 0 || fadeInMs > 0 || fadeOutMs > 0
+}
+
+internal class ResolvedTransitions(
+  val gapFrames: Int,
+  // overlaps[i] is the number of frames segment i overlaps segment i - 1
+  val overlaps: List<Int>,
+  val fadeInFrames: Int,
+  val fadeOutFrames: Int,
+  val curve: CrossfadeCurve
+)
+
+// Convert the options to frame counts for the given segments. Crossfades are
+// limited to half of the shorter neighbouring segment so overlaps never meet.
+internal fun JoinAudioFilesOptions.resolve(frameCounts: List<Long>, sampleRate: Int): ResolvedTransitions {
+  fun toFrames(ms: Double, name: String): Int {
+    require(ms.isFinite() && ms >= 0) { "$name must be a positive number of milliseconds" }
+    return (ms * sampleRate / 1000).roundToInt()
+  }
+
+  val gapFrames = toFrames(gapMs, "gapMs")
+  val crossfadeFrames = toFrames(crossfade?.durationMs ?: 0.0, "crossfade.durationMs")
+  require(gapFrames == 0 || crossfadeFrames == 0) { "gapMs and crossfade can't be combined" }
+
+  val overlaps = frameCounts.mapIndexed { index, frames ->
+    if (index == 0) 0 else minOf(
+      crossfadeFrames.toLong(),
+      frameCounts[index - 1] / 2,
+      frames / 2
+    ).toInt()
+  }
+
+  return ResolvedTransitions(
+    gapFrames = gapFrames,
+    overlaps = overlaps,
+    fadeInFrames = toFrames(fadeInMs, "fadeInMs"),
+    fadeOutFrames = toFrames(fadeOutMs, "fadeOutMs"),
+    curve = crossfade?.curve ?: CrossfadeCurve.EQUAL_POWER
+  )
+}
+
+// Apply linear fade-in and fade-out ramps in place to a block of samples that
+// starts at firstFrame of a segment totalFrames long
+internal fun applyFades(
+  samples: FloatArray,
+  channels: Int,
+  firstFrame: Long,
+  totalFrames: Long,
+  fadeInFrames: Int,
+  fadeOutFrames: Int
+) {
+  val fadeIn = minOf(fadeInFrames.toLong(), totalFrames)
+  val fadeOut = minOf(fadeOutFrames.toLong(), totalFrames)
+
+  for (index in 0 until samples.size / channels) {
+    val frame = firstFrame + index
+    var gain = 1f
+    if (frame < fadeIn) {
+      gain *= frame.toFloat() / fadeIn
+    }
+    if (totalFrames - 1 - frame < fadeOut) {
+      gain *= (totalFrames - 1 - frame).toFloat() / fadeOut
+    }
+    if (gain == 1f) continue
+    for (channel in 0 until channels) {
+      samples[index * channels + channel] *= gain
+    }
+  }
+}
+
+// Mix the tail of one segment into the head of the next (both the same length)
+internal fun crossfade(tail: FloatArray, head: FloatArray, channels: Int, curve: CrossfadeCurve): FloatArray {
+  val frames = head.size / channels
+  val output = FloatArray(head.size)
+
+  for (frame in 0 until frames) {
+    val t = (frame + 0.5) / frames
+    val fadeOutGain = if (curve == CrossfadeCurve.EQUAL_POWER) cos(t * PI / 2) else 1 - t
+    val fadeInGain = if (curve == CrossfadeCurve.EQUAL_POWER) sin(t * PI / 2) else t
+    for (channel in 0 until channels) {
+      val index = frame * channels + channel
+      output[index] = (tail[index] * fadeOutGain + head[index] * fadeInGain).toFloat()
+    }
+  }
+
+  return output
+}
+
+// Stream one segment through its fades and crossfades. The head that overlaps
+// the previous segment is mixed with previousTail, and the frames that overlap
+// the next segment are returned to be held back in turn. Only the overlapping
+// frames are kept in memory.
+internal fun ResolvedTransitions.streamSegment(
+  reader: PcmReader,
+  frames: Long,
+  index: Int,
+  previousTail: FloatArray?,
+  write: (FloatArray) -> Unit
+): FloatArray {
+  val channels = reader.channels
+  val headFrames = overlaps[index].toLong()
+  val tailStart = frames - overlaps.getOrElse(index + 1) { 0 }
+  val head = FloatArray((headFrames * channels).toInt())
+  val tail = FloatArray(((frames - tailStart) * channels).toInt())
+
+  var position = 0L
+  while (position < frames) {
+    val samples = reader.read(minOf(frames - position, BLOCK_FRAMES.toLong()).toInt()) ?: break
+    val count = samples.size / channels
+    val end = position + count
+    applyFades(samples, channels, position, frames, fadeInFrames, fadeOutFrames)
+
+    // Frames in [from, to) of the segment, as indices into this block
+    fun slice(from: Long, to: Long) = samples.copyOfRange(
+      ((maxOf(from, position) - position) * channels).toInt(),
+      ((minOf(to, end) - position) * channels).toInt()
+    )
+
+    if (position < headFrames) {
+      slice(0, headFrames).copyInto(head, (position * channels).toInt())
+      if (end >= headFrames) {
+        write(if (previousTail != null) crossfade(previousTail, head, channels, curve) else head)
+      }
+    }
+    if (end > headFrames && position < tailStart) {
+      write(slice(headFrames, tailStart))
+    }
+    if (end > tailStart) {
+      slice(tailStart, frames).copyInto(tail, ((maxOf(tailStart, position) - tailStart) * channels).toInt())
+    }
+    position = end
+  }
+
+  return tail
+}
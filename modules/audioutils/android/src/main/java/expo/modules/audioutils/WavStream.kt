@@ -0,0 +1,316 @@
+package expo.modules.audioutils
+
+import java.io.File
+import java.io.RandomAccessFile
+import java.nio.ByteBuffer
+import java.nio.ByteOrder
+
+// Streaming WAV reading and writing. Audio is processed in fixed-size blocks so
+// memory use doesn't grow with the length of a recording.
+
+// Frames processed per block
+internal const val BLOCK_FRAMES = 8192
+
+private const val RIFF_SIZE_LIMIT = 0xFFFFFFFFL
+
+// Header written by WavWriter: RIFF/RF64 (12), JUNK/ds64 (36), fmt (8 + body), data (8)
+private const val HEADER_SIZE_WITHOUT_FMT = 12 + 36 + 8 + 8
+
+// Chunks the parser understands, anything else is reported by getAudioInfo
+internal val KNOWN_CHUNK_IDS = setOf("fmt ", "data", "ds64", "JUNK")
+
+internal class WavChunk(val id: String, val size: Long)
+
+internal class WavInfo(
+  val format: WavFormat,
+  val dataOffset: Long,
+  val dataSize: Long,
+  // Every chunk after the RIFF header
+  val chunks: List<WavChunk>,
+  // Body of the fmt chunk, copied verbatim by edits
+  val fmtChunk: ByteArray
+) {
+  val frames get() = if (format.blockAlign > 0) dataSize / format.blockAlign else 0
+
+  // Number of frames after converting to the target sample rate
+  fun framesIn(target: WavFormat) = if (format.sampleRate == target.sampleRate) {
+    frames
+  } else {
+    frames * target.sampleRate / format.sampleRate
+  }
+
+  // Frame at a time offset, clamped to the end of the data
+  fun frameAt(ms: Double) = minOf(frames, Math.round(ms * format.sampleRate / 1000))
+}
+
+private fun RandomAccessFile.readLittleEndian(offset: Long, size: Int): ByteBuffer {
+  val bytes = ByteArray(size)
+  seek(offset)
+  readFully(bytes)
+  return ByteBuffer.wrap(bytes).order(ByteOrder.LITTLE_ENDIAN)
+}
+
+// Read the format and data chunk position of a RIFF or RF64 WAV file by walking
+// the chunk headers, without loading the audio
+internal fun readWavInfo(file: RandomAccessFile, name: String): WavInfo {
+  val length = file.length()
+  if (length < 12) {
+    throw IncompatibleAudioFormatException(name, "not a valid WAV file")
+  }
+  val riff = file.readLittleEndian(0, 12).array()
+  val riffId = String(riff, 0, 4, Charsets.US_ASCII)
+  if ((riffId != "RIFF" && riffId != "RF64") || String(riff, 8, 4, Charsets.US_ASCII) != "WAVE") {
+    throw IncompatibleAudioFormatException(name, "not a valid WAV file")
+  }
+
+  var format: WavFormat? = null
+  var fmtChunk = ByteArray(0)
+  var ds64DataSize: Long? = null
+  var dataChunk: Pair<Long, Long>? = null
+  val chunks = mutableListOf<WavChunk>()
+  var offset = 12L
+
+  while (offset + 8 <= length) {
+    val header = file.readLittleEndian(offset, 8)
+    val chunkId = String(header.array(), 0, 4, Charsets.US_ASCII)
+    val size = header.getInt(4).toLong() and 0xFFFFFFFFL
+    // RF64 files keep the real data size in the ds64 chunk
+    val chunkSize = ds64DataSize?.takeIf { chunkId == "data" && size == RIFF_SIZE_LIMIT } ?: size
+    val available = minOf(chunkSize, length - offset - 8)
+    chunks.add(WavChunk(chunkId, available))
+
+    when (chunkId) {
+      "ds64" -> if (available >= 16) {
+        ds64DataSize = file.readLittleEndian(offset + 8, 16).getLong(8)
+      }
+      "fmt " -> {
+        if (available < 16) {
+          throw IncompatibleAudioFormatException(name, "invalid fmt chunk")
+        }
+        val fmt = file.readLittleEndian(offset + 8, available.toInt())
+        fmtChunk = fmt.array()
+        var audioFormat = fmt.getShort(0).toInt() and 0xFFFF
+        // The actual encoding of an extensible format is the start of its sub-format GUID
+        if (audioFormat == WAVE_FORMAT_EXTENSIBLE && available >= 26) {
+          audioFormat = fmt.getShort(24).toInt() and 0xFFFF
+        }
+        format = WavFormat(
+          audioFormat = audioFormat,
+          numChannels = fmt.getShort(2).toInt() and 0xFFFF,
+          sampleRate = fmt.getInt(4),
+          bitsPerSample = fmt.getShort(14).toInt() and 0xFFFF
+        )
+      }
+      "data" -> if (dataChunk == null) {
+        dataChunk = Pair(offset + 8, available)
+      }
+    }
+
+    // Move to next chunk, skipping the padding byte if the chunk size is odd
+    offset += 8 + chunkSize + (chunkSize and 1)
+  }
+
+  val wavFormat = format ?: throw IncompatibleAudioFormatException(name, "missing fmt chunk")
+  // Fallback: assume data starts at offset 44 (standard WAV header)
+  val (dataOffset, dataSize) = dataChunk ?: Pair(44L, maxOf(0L, length - 44))
+  return WavInfo(wavFormat, dataOffset, dataSize, chunks, fmtChunk)
+}
+
+// Reads the data chunk of a WAV file block by block, converted to the target
+// format. Resampling keeps just enough input frames to interpolate across blocks.
+internal class PcmReader(
+  private val file: RandomAccessFile,
+  private val info: WavInfo,
+  target: WavFormat,
+  // Called with the number of input bytes consumed
+  private val onRead: (Long) -> Unit = {}
+) {
+  private val from = info.format
+  private val inputFrames = info.frames
+  private val ratio = from.sampleRate.toDouble() / target.sampleRate
+  private val bytes = ByteArray(BLOCK_FRAMES * from.blockAlign)
+
+  val channels = target.numChannels
+  // Total frames this reader produces
+  val frames = info.framesIn(target)
+  var position = 0L
+    private set
+
+  // Decoded input frames, starting at input frame bufferedStart
+  private var buffered = FloatArray(0)
+  private var bufferedStart = 0L
+  private var inputPosition = 0L
+
+  private fun decode(start: Long, count: Int): FloatArray {
+    val size = count * from.blockAlign
+    file.seek(info.dataOffset + start * from.blockAlign)
+    file.readFully(bytes, 0, size)
+    onRead(size.toLong())
+    return convertChannels(decodeSamples(bytes, 0, size, from), from.numChannels, channels)
+  }
+
+  // Read up to maxFrames frames, or null at the end of the data
+  fun read(maxFrames: Int = BLOCK_FRAMES): FloatArray? {
+    val count = minOf(maxFrames.toLong(), BLOCK_FRAMES.toLong(), frames - position).toInt()
+    if (count <= 0) return null
+
+    if (ratio == 1.0) {
+      val samples = decode(position, count)
+      position += count
+      return samples
+    }
+
+    val output = FloatArray(count * channels)
+    for (frame in 0 until count) {
+      val sourcePosition = (position + frame) * ratio
+      val index = sourcePosition.toLong()
+      val next = minOf(index + 1, inputFrames - 1)
+      // Drop the frames already used and decode the next block
+      while (next >= bufferedStart + buffered.size / channels) {
+        val blockFrames = minOf(BLOCK_FRAMES.toLong(), inputFrames - inputPosition).toInt()
+        if (blockFrames <= 0) break
+        val keep = maxOf(0L, index - bufferedStart).toInt() * channels
+        buffered = buffered.copyOfRange(minOf(keep, buffered.size), buffered.size) + decode(inputPosition, blockFrames)
+        bufferedStart += keep / channels
+        inputPosition += blockFrames
+      }
+
+      val a = ((index - bufferedStart) * channels).toInt()
+      val b = ((next - bufferedStart) * channels).toInt()
+      val fraction = (sourcePosition - index).toFloat()
+      for (channel in 0 until channels) {
+        output[frame * channels + channel] = buffered[a + channel] + (buffered[b + channel] - buffered[a + channel]) * fraction
+      }
+    }
+
+    position += count
+    return output
+  }
+
+  // Skip frames, e.g. silence trimmed from the start
+  fun skip(count: Long) {
+    if (ratio == 1.0) {
+      val skipped = minOf(frames - position, count)
+      position += skipped
+      onRead(skipped * from.blockAlign)
+      return
+    }
+    var remaining = count
+    while (remaining > 0) {
+      val block = read(minOf(remaining, BLOCK_FRAMES.toLong()).toInt()) ?: break
+      remaining -= block.size / channels
+    }
+  }
+}
+
+// Serialize a format as the body of a 16 byte fmt chunk
+internal fun encodeFmtChunk(format: WavFormat): ByteArray {
+  val buffer = ByteBuffer.allocate(16).order(ByteOrder.LITTLE_ENDIAN)
+  buffer.putShort(format.audioFormat.toShort())
+  buffer.putShort(format.numChannels.toShort())
+  buffer.putInt(format.sampleRate)
+  buffer.putInt(format.byteRate)
+  buffer.putShort(format.blockAlign.toShort())
+  buffer.putShort(format.bitsPerSample.toShort())
+  return buffer.array()
+}
+
+// Writes a WAV file with a placeholder header that is patched with the real
+// sizes when closed. The JUNK chunk reserves room for a ds64 chunk, so files
+// that outgrow the 32-bit RIFF size limit are promoted to RF64 in place. Edits
+// pass the source's fmt chunk so it's kept verbatim.
+internal class WavWriter(
+  private val path: String,
+  private val format: WavFormat,
+  private val fmtChunk: ByteArray = encodeFmtChunk(format)
+) {
+  private val file = RandomAccessFile(path, "rw")
+  private val copyBuffer = ByteArray(BLOCK_FRAMES * format.blockAlign)
+  private val headerSize = HEADER_SIZE_WITHOUT_FMT + fmtChunk.size + (fmtChunk.size and 1)
+
+  var dataSize = 0L
+    private set
+
+  init {
+    file.setLength(0)
+    file.write(header())
+  }
+
+  fun write(bytes: ByteArray, offset: Int = 0, length: Int = bytes.size) {
+    file.write(bytes, offset, length)
+    dataSize += length
+  }
+
+  fun writeSamples(samples: FloatArray) = write(encodeSamples(samples, format))
+
+  fun writeSilence(frames: Long) {
+    var remaining = frames
+    while (remaining > 0) {
+      val count = minOf(remaining, BLOCK_FRAMES.toLong()).toInt()
+      writeSamples(FloatArray(count * format.numChannels))
+      remaining -= count
+    }
+  }
+
+  // Copy raw data from another file through a fixed-size buffer
+  fun copyFrom(source: RandomAccessFile, offset: Long, size: Long, onRead: (Long) -> Unit = {}) {
+    source.seek(offset)
+    var remaining = size
+    while (remaining > 0) {
+      val count = source.read(copyBuffer, 0, minOf(remaining, copyBuffer.size.toLong()).toInt())
+      if (count < 0) break
+      write(copyBuffer, 0, count)
+      onRead(count.toLong())
+      remaining -= count
+    }
+  }
+
+  // Pad the data chunk to an even size and patch the header
+  fun close() {
+    if (dataSize % 2 == 1L) {
+      file.write(0)
+    }
+    file.seek(0)
+    file.write(header())
+    file.close()
+  }
+
+  // Close and delete the partial output
+  fun abort() {
+    file.close()
+    File(path).delete()
+  }
+
+  private fun header(): ByteArray {
+    val riffSize = headerSize - 8 + dataSize + (dataSize and 1)
+    val isRf64 = riffSize > RIFF_SIZE_LIMIT
+    val buffer = ByteBuffer.allocate(headerSize).order(ByteOrder.LITTLE_ENDIAN)
+
+    // RIFF header
+    buffer.put((if (isRf64) "RF64" else "RIFF").toByteArray())
+    buffer.putInt((if (isRf64) RIFF_SIZE_LIMIT else riffSize).toInt())
+    buffer.put("WAVE".toByteArray())
+
+    // ds64 chunk, or a JUNK chunk of the same size holding its place
+    buffer.put((if (isRf64) "ds64" else "JUNK").toByteArray())
+    buffer.putInt(28)
+    buffer.putLong(if (isRf64) riffSize else 0)
+    buffer.putLong(if (isRf64) dataSize else 0)
+    buffer.putLong(if (isRf64) dataSize / format.blockAlign else 0)
+    buffer.putInt(0) // No table entries
+
+    // fmt chunk, padded to an even size
+    buffer.put("fmt ".toByteArray())
+    buffer.putInt(fmtChunk.size)
+    buffer.put(fmtChunk)
+    if (fmtChunk.size % 2 == 1) {
+      buffer.put(0.toByte())
+    }
+
+    // data chunk header
+    buffer.put("data".toByteArray())
+    buffer.putInt((if (isRf64) RIFF_SIZE_LIMIT else dataSize).toInt())
+
+    return buffer.array()
+  }
+}
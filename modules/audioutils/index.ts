@@ -2,3 +2,10 @@
 // and on native platforms to AudioutilsModule.ts
 export { default } from "./src/AudioutilsModule";
 export * from "./src/Audioutils.types";
+export * from "./src/wav";
+export * from "./src/flac";
+export * from "./src/pcm";
+export * from "./src/transitions";
+export * from "./src/vad";
+export * from "./src/peaks";
+export * from "./src/errors";
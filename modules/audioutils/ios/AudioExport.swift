@@ -0,0 +1,84 @@
+import AVFoundation
+import ExpoModulesCore
+import Foundation
+
+// Exporting the canonical WAV recordings to compressed formats for sharing.
+// FLAC is encoded by FlacEncoder.swift, AAC by the platform encoder.
+
+enum ExportAudioFormat: String, Enumerable {
+  case flac
+  case m4a
+
+  var mimeType: String {
+    switch self {
+    case .flac: return "audio/flac"
+    case .m4a: return "audio/mp4"
+    }
+  }
+}
+
+struct ExportAudioOptions: Record {
+  @Field
+  var format: ExportAudioFormat = .flac
+
+  @Field
+  var bitRate: Int = 64000
+
+  @Field
+  var jobId: String? = nil
+}
+
+// Output of an export, fed with interleaved float samples block by block
+protocol AudioEncoder {
+  func writeSamples(_ samples: [Float]) throws
+  func close() throws
+  func abort()
+}
+
+// Encodes AAC-LC into an MPEG-4 container with AVAudioFile. The encoder takes
+// at most two channels.
+final class AacWriter: AudioEncoder {
+  private let path: String
+  private let channels: Int
+  // The file is finished when it's released
+  private var file: AVAudioFile?
+
+  init(path: String, format: WavFormat, bitRate: Int) throws {
+    guard format.numChannels <= 2 else {
+      throw NSError(domain: "AudioutilsModule", code: 11, userInfo: [NSLocalizedDescriptionKey: "AAC encoding supports at most two channels"])
+    }
+    self.path = path
+    self.channels = format.numChannels
+    let settings: [String: Any] = [
+      AVFormatIDKey: kAudioFormatMPEG4AAC,
+      AVSampleRateKey: format.sampleRate,
+      AVNumberOfChannelsKey: format.numChannels,
+      AVEncoderBitRateKey: bitRate
+    ]
+    file = try AVAudioFile(forWriting: URL(fileURLWithPath: path), settings: settings, commonFormat: .pcmFormatFloat32, interleaved: false)
+  }
+
+  func writeSamples(_ samples: [Float]) throws {
+    guard let file = file else { return }
+    let frames = samples.count / channels
+    guard frames > 0, let buffer = AVAudioPCMBuffer(pcmFormat: file.processingFormat, frameCapacity: AVAudioFrameCount(frames)),
+          let channelData = buffer.floatChannelData else { return }
+    buffer.frameLength = AVAudioFrameCount(frames)
+    for channel in 0..<channels {
+      for frame in 0..<frames {
+        channelData[channel][frame] = samples[frame * channels + channel]
+      }
+    }
+    try file.write(from: buffer)
+  }
+
+  func close() throws {
+    file = nil
+  }
+
+  // Release the encoder and delete the partial output
+  func abort() {
+    file = nil
+    try? FileManager.default.removeItem(atPath: path)
+  }
+}
@@ -0,0 +1,95 @@
+import ExpoModulesCore
+import Foundation
+
+// Rejected with code ERR_JOB_CANCELLED when cancelJob is called for a running job
+internal final class JobCancelledException: GenericException<String> {
+  override var reason: String {
+    "Job \(param) was cancelled"
+  }
+}
+
+// Minimum time between progress events
+private let PROGRESS_INTERVAL: TimeInterval = 0.1
+
+// Ids passed to cancelJob, checked by running jobs between blocks
+final class CancelledJobs {
+  private var ids = Set<String>()
+  private let lock = NSLock()
+
+  func insert(_ id: String) {
+    lock.lock()
+    defer { lock.unlock() }
+    ids.insert(id)
+  }
+
+  func remove(_ id: String) {
+    lock.lock()
+    defer { lock.unlock() }
+    ids.remove(id)
+  }
+
+  func contains(_ id: String) -> Bool {
+    lock.lock()
+    defer { lock.unlock() }
+    return ids.contains(id)
+  }
+}
+
+// Progress reporting and cancellation for a long running operation. Jobs
+// without an id don't report progress and can't be cancelled.
+final class AudioJob {
+  private let jobId: String?
+  private let fileCount: Int
+  private let totalBytes: Int64
+  private let cancelledJobs: CancelledJobs
+  private let sendProgress: ([String: Any]) -> Void
+  private var bytesProcessed: Int64 = 0
+  private var fileIndex = 0
+  private var lastReportTime: TimeInterval = 0
+
+  init(jobId: String?, fileCount: Int, totalBytes: Int64, cancelledJobs: CancelledJobs, sendProgress: @escaping ([String: Any]) -> Void) {
+    self.jobId = jobId
+    self.fileCount = fileCount
+    self.totalBytes = totalBytes
+    self.cancelledJobs = cancelledJobs
+    self.sendProgress = sendProgress
+  }
+
+  func startFile(_ index: Int) throws {
+    fileIndex = index
+    try throwIfCancelled()
+    report(force: true)
+  }
+
+  func advance(_ bytes: Int64) throws {
+    bytesProcessed = min(totalBytes, bytesProcessed + bytes)
+    try throwIfCancelled()
+    report()
+  }
+
+  func finish() {
+    bytesProcessed = totalBytes
+    report(force: true)
+  }
+
+  func throwIfCancelled() throws {
+    if let jobId = jobId, cancelledJobs.contains(jobId) {
+      throw JobCancelledException(jobId)
+    }
+  }
+
+  private func report(force: Bool = false) {
+    guard let jobId = jobId else { return }
+    let now = Date().timeIntervalSince1970
+    guard force || now - lastReportTime >= PROGRESS_INTERVAL else { return }
+    lastReportTime = now
+
+    sendProgress([
+      "jobId": jobId,
+      "bytesProcessed": Double(bytesProcessed),
+      "totalBytes": Double(totalBytes),
+      "fileIndex": fileIndex,
+      "fileCount": fileCount
+    ])
+  }
+}
@@ -1,36 +1,162 @@
 import ExpoModulesCore
 import Foundation
 
-public class AudioutilsModule: Module {
+// Rejected with code ERR_INCOMPATIBLE_AUDIO_FORMAT so JS can tell which file is bad
+internal final class IncompatibleAudioFormatException: GenericException<(file: String, reason: String)> {
+  override var reason: String {
+    "Incompatible audio format in \(param.file): \(param.reason)"
+  }
+}
+
+let WAVE_FORMAT_PCM = 1
+let WAVE_FORMAT_IEEE_FLOAT = 3
+let WAVE_FORMAT_EXTENSIBLE = 0xFFFE
+
+struct WavFormat: Equatable, CustomStringConvertible {
+  let audioFormat: Int
+  let numChannels: Int
+  let sampleRate: Int
+  let bitsPerSample: Int
+
+  var bytesPerSample: Int { bitsPerSample / 8 }
+  var blockAlign: Int { numChannels * bytesPerSample }
+  var byteRate: Int { sampleRate * blockAlign }
+
+  var isSupported: Bool {
+    guard numChannels > 0 && sampleRate > 0 else { return false }
+    switch audioFormat {
+    case WAVE_FORMAT_PCM: return [8, 16, 24, 32].contains(bitsPerSample)
+    case WAVE_FORMAT_IEEE_FLOAT: return bitsPerSample == 32
+    default: return false
+    }
+  }
+
+  var description: String {
+    "format \(audioFormat), \(sampleRate) Hz, \(numChannels) ch, \(bitsPerSample) bit"
+  }
+}
+
+// Little-endian readers that don't require aligned access
+func readUInt16(_ data: Data, _ offset: Int) -> Int {
+  let start = data.startIndex + offset
+  return Int(data[start]) | (Int(data[start + 1]) << 8)
+}
+
+func readUInt32(_ data: Data, _ offset: Int) -> UInt32 {
+  let start = data.startIndex + offset
+  return UInt32(data[start]) | (UInt32(data[start + 1]) << 8) |
+    (UInt32(data[start + 2]) << 16) | (UInt32(data[start + 3]) << 24)
+}
+
+func appendLittleEndian<T: FixedWidthInteger>(_ value: T, to data: inout Data) {
+  var littleEndian = value.littleEndian
+  data.append(Data(bytes: &littleEndian, count: MemoryLayout<T>.size))
+}
+
+// Decode PCM data into interleaved float samples in [-1, 1]
+func decodeSamples(_ data: Data, format: WavFormat) -> [Float] {
+  let bytes = [UInt8](data)
+  let bytesPerSample = format.bytesPerSample
+  var samples = [Float](repeating: 0, count: bytes.count / bytesPerSample)
   
-  // Helper function to find the data chunk in a WAV file
-  private func findDataChunk(in data: Data) -> (offset: Int64, size: Int64) {
-    var offset = 12 // Start after RIFF header
-    
-    while offset < data.count - 8 {
-      // Read chunk ID (4 bytes)
-      let chunkID = data.subdata(in: offset..<(offset + 4))
-      let chunkIDString = String(data: chunkID, encoding: .ascii) ?? ""
-      
-      // Read chunk size (4 bytes, little-endian)
-      let chunkSizeBytes = data.subdata(in: (offset + 4)..<(offset + 8))
-      let chunkSize = chunkSizeBytes.withUnsafeBytes { bytes in
-        bytes.load(as: UInt32.self)
-      }
-      
-      if chunkIDString == "data" {
-        return (Int64(offset + 8), Int64(chunkSize))
+  for i in 0..<samples.count {
+    let position = i * bytesPerSample
+    if format.audioFormat == WAVE_FORMAT_IEEE_FLOAT {
+      let bits = UInt32(bytes[position]) | (UInt32(bytes[position + 1]) << 8) |
+        (UInt32(bytes[position + 2]) << 16) | (UInt32(bytes[position + 3]) << 24)
+      samples[i] = Float(bitPattern: bits)
+      continue
+    }
+    switch format.bitsPerSample {
+    case 8:
+      samples[i] = (Float(bytes[position]) - 128) / 128
+    case 16:
+      let value = Int16(bitPattern: UInt16(bytes[position]) | (UInt16(bytes[position + 1]) << 8))
+      samples[i] = Float(value) / 32768
+    case 24:
+      let value = (Int32(bytes[position]) | (Int32(bytes[position + 1]) << 8) | (Int32(bytes[position + 2]) << 16)) << 8 >> 8
+      samples[i] = Float(value) / 8388608
+    default:
+      let value = Int32(bitPattern: UInt32(bytes[position]) | (UInt32(bytes[position + 1]) << 8) |
+        (UInt32(bytes[position + 2]) << 16) | (UInt32(bytes[position + 3]) << 24))
+      samples[i] = Float(value) / 2147483648
+    }
+  }
+  
+  return samples
+}
+
+// Encode interleaved float samples into PCM data
+func encodeSamples(_ samples: [Float], format: WavFormat) -> Data {
+  var data = Data(capacity: samples.count * format.bytesPerSample)
+  
+  for value in samples {
+    let sample = max(-1, min(1, value))
+    if format.audioFormat == WAVE_FORMAT_IEEE_FLOAT {
+      appendLittleEndian(sample.bitPattern, to: &data)
+      continue
+    }
+    switch format.bitsPerSample {
+    case 8:
+      data.append(UInt8(Int(roundf(sample * 127)) + 128))
+    case 16:
+      appendLittleEndian(Int16(roundf(sample * 32767)), to: &data)
+    case 24:
+      let intValue = Int32(roundf(sample * 8388607))
+      data.append(UInt8(truncatingIfNeeded: intValue))
+      data.append(UInt8(truncatingIfNeeded: intValue >> 8))
+      data.append(UInt8(truncatingIfNeeded: intValue >> 16))
+    default:
+      appendLittleEndian(Int32((Double(sample) * 2147483647).rounded()), to: &data)
+    }
+  }
+  
+  return data
+}
+
+// Downmix to mono, upmix from mono, or map channels one to one
+func convertChannels(_ samples: [Float], from fromChannels: Int, to toChannels: Int) -> [Float] {
+  guard fromChannels != toChannels else { return samples }
+  
+  let frames = samples.count / fromChannels
+  var output = [Float](repeating: 0, count: frames * toChannels)
+  for frame in 0..<frames {
+    let input = frame * fromChannels
+    if toChannels == 1 {
+      var sum: Float = 0
+      for channel in 0..<fromChannels {
+        sum += samples[input + channel]
       }
-      
-      // Move to next chunk
-      offset += 8 + Int(chunkSize)
-      if chunkSize % 2 == 1 {
-        offset += 1 // Skip padding byte if chunk size is odd
+      output[frame] = sum / Float(fromChannels)
+    } else {
+      for channel in 0..<toChannels {
+        output[frame * toChannels + channel] = samples[input + (channel % fromChannels)]
       }
     }
-    
-    // Fallback: assume data starts at offset 44 (standard WAV header)
-    return (44, Int64(data.count - 44))
+  }
+  
+  return output
+}
+
+public class AudioutilsModule: Module {
+  
+  private let cancelledJobs = CancelledJobs()
+  
+  // Convert URL strings to file paths
+  private func toFilePath(_ uri: String) -> String {
+    uri.hasPrefix("file://") ? URL(string: uri)!.path : uri
+  }
+  
+  // Return output paths in the same form as the input URL
+  private func toOutputUri(_ inputUri: String, _ path: String) -> String {
+    inputUri.hasPrefix("file://") ? URL(fileURLWithPath: path).absoluteString : path
+  }
+  
+  private func openFile(_ filePath: String) throws -> FileHandle {
+    guard let file = FileHandle(forReadingAtPath: filePath) else {
+      throw NSError(domain: "AudioutilsModule", code: 6, userInfo: [NSLocalizedDescriptionKey: "Audio file not found: \(filePath)"])
+    }
+    return file
   }
   
   // Each module class must implement the definition function. The definition consists of components
@@ -41,116 +167,397 @@ public class AudioutilsModule: Module {
     // Can be inferred from module's class name, but it's recommended to set it explicitly for clarity.
     // The module will be accessible from `requireNativeModule('Audioutils')` in JavaScript.
     Name("Audioutils")
+    
+    // Progress of long running operations started with a jobId
+    Events("onProgress")
+    
+    AsyncFunction("getAudioInfo") { (uri: String) -> [String: Any] in
+      let filePath = toFilePath(uri)
+      let file = try openFile(filePath)
+      defer { try? file.close() }
+      
+      // Only the chunk headers are read, not the audio
+      let info = try readWavInfo(file, name: uri)
+      let format = info.format
+      let byteSize = try file.seekToEnd()
+      
+      return [
+        "uri": uri,
+        "durationMs": format.sampleRate > 0 ? Double(info.frames) * 1000.0 / Double(format.sampleRate) : 0,
+        "sampleRate": format.sampleRate,
+        "numChannels": format.numChannels,
+        "bitsPerSample": format.bitsPerSample,
+        "audioFormat": format.audioFormat,
+        "byteSize": Double(byteSize),
+        "dataSize": Double(info.dataSize),
+        "unknownChunks": info.chunks
+          .filter { !KNOWN_CHUNK_IDS.contains($0.id) }
+          .map { ["id": $0.id, "size": Double($0.size)] }
+      ]
+    }
+    
+    AsyncFunction("getWaveformPeaks") { (uri: String, buckets: Int) -> [String: Any] in
+      let filePath = toFilePath(uri)
+      let file = try openFile(filePath)
+      defer { try? file.close() }
+      
+      let info = try readWavInfo(file, name: uri)
+      let format = info.format
+      guard format.isSupported else {
+        throw IncompatibleAudioFormatException((file: uri, reason: "unsupported encoding (\(format))"))
+      }
+      
+      // Stream the data chunk, only the peaks are kept
+      let peaks = try computePeaks(PcmReader(file: file, info: info, target: format), buckets: buckets)
+      return [
+        "durationMs": Double(info.frames) * 1000.0 / Double(format.sampleRate),
+        "min": peaks.min,
+        "max": peaks.max
+      ]
+    }
+    
+    // Abort a running operation, its partial output is deleted
+    Function("cancelJob") { (jobId: String) in
+      cancelledJobs.insert(jobId)
+    }
 
     // Defines a JavaScript function that always returns a Promise and whose native code
     // is by default dispatched on the different thread than the JavaScript runtime runs on.
-    AsyncFunction("joinAudioFiles") { (audioFiles: [String]) -> String in
+    AsyncFunction("joinAudioFiles") { (audioFiles: [String], options: JoinAudioFilesOptions?) -> [String: Any] in
       guard !audioFiles.isEmpty else {
         throw NSError(domain: "AudioutilsModule", code: 1, userInfo: [NSLocalizedDescriptionKey: "No audio files provided"])
       }
       
       // Convert URL strings to file paths
-      let firstFilePath = audioFiles[0].hasPrefix("file://") ? 
-        URL(string: audioFiles[0])!.path : audioFiles[0]
+      let filePaths = audioFiles.map { toFilePath($0) }
       
       // Generate output file path
-      let firstFileURL = URL(fileURLWithPath: firstFilePath)
-      let outputPath = firstFileURL.deletingLastPathComponent().appendingPathComponent("joined_audio_\(Int(Date().timeIntervalSince1970)).wav").path
+      let firstFileURL = URL(fileURLWithPath: filePaths[0])
+      let outputPath = firstFileURL.deletingLastPathComponent().appendingPathComponent("joined_audio_\(Int(Date().timeIntervalSince1970 * 1000)).wav").path
       
-      // Read first file to get header information
-      guard FileManager.default.fileExists(atPath: firstFilePath) else {
-        throw NSError(domain: "AudioutilsModule", code: 2, userInfo: [NSLocalizedDescriptionKey: "First audio file not found: \(firstFilePath)"])
+      // Read the format and data chunk position of every file, the first
+      // file's format is the target format
+      var infos: [WavInfo] = []
+      for (index, filePath) in filePaths.enumerated() {
+        let file = try openFile(filePath)
+        defer { try? file.close() }
+        let info = try readWavInfo(file, name: audioFiles[index])
+        guard info.format.isSupported else {
+          throw IncompatibleAudioFormatException((file: audioFiles[index], reason: "unsupported encoding (\(info.format))"))
+        }
+        infos.append(info)
       }
+      let firstFormat = infos[0].format
       
-      guard let firstFileData = FileManager.default.contents(atPath: firstFilePath) else {
-        throw NSError(domain: "AudioutilsModule", code: 3, userInfo: [NSLocalizedDescriptionKey: "Could not read first audio file"])
+      // Trimming reads every file twice, once to measure and once to write
+      let passes: Int64 = options?.trimSilence != nil ? 2 : 1
+      let job = AudioJob(
+        jobId: options?.jobId,
+        fileCount: infos.count,
+        totalBytes: infos.reduce(0) { $0 + $1.dataSize } * passes,
+        cancelledJobs: cancelledJobs
+      ) { [weak self] body in
+        self?.sendEvent("onProgress", body)
+      }
+      defer {
+        if let jobId = options?.jobId {
+          cancelledJobs.remove(jobId)
+        }
       }
       
-      guard firstFileData.count >= 44 else {
-        throw NSError(domain: "AudioutilsModule", code: 4, userInfo: [NSLocalizedDescriptionKey: "First file is too small to be a valid WAV file"])
+      // Measure the silence to trim in the target format
+      var trims: [TrimmedFrames] = []
+      for (index, info) in infos.enumerated() {
+        guard let trimOptions = options?.trimSilence else {
+          trims.append(.none)
+          continue
+        }
+        try job.startFile(index)
+        let file = try openFile(filePaths[index])
+        defer { try? file.close() }
+        trims.append(try detectSilence(PcmReader(file: file, info: info, target: firstFormat, onRead: job.advance), sampleRate: firstFormat.sampleRate, options: trimOptions))
       }
       
-      // Validate WAV header
-      let headerBytes = firstFileData.subdata(in: 0..<4)
-      let headerString = String(data: headerBytes, encoding: .ascii) ?? ""
-      guard headerString == "RIFF" else {
-        throw NSError(domain: "AudioutilsModule", code: 5, userInfo: [NSLocalizedDescriptionKey: "First file is not a valid WAV file"])
+      // Resolve gaps and crossfades, which change the length of the output
+      let frameCounts = infos.enumerated().map { index, info in
+        info.frames(in: firstFormat) - trims[index].start - trims[index].end
+      }
+      var transitions: ResolvedTransitions? = nil
+      if let options = options, options.hasTransitions {
+        transitions = try options.resolve(frameCounts: frameCounts, sampleRate: firstFormat.sampleRate)
       }
       
-      // Calculate total data size and find data chunk positions
-      var totalDataSize: Int64 = 0
-      var convertedFilePaths: [String] = []
-      var dataChunkOffsets: [Int64] = []
-      var dataChunkSizes: [Int64] = []
+      // Stream the data chunks into the joined file, converting any file
+      // whose format differs from the first one. The header sizes are
+      // patched once everything has been written.
+      let writer = try WavWriter(path: outputPath, format: firstFormat)
+      do {
+        var heldTail: [Float]? = nil
+        for (index, info) in infos.enumerated() {
+          let trim = trims[index]
+          let frames = frameCounts[index]
+          try job.startFile(index)
+          let file = try openFile(filePaths[index])
+          defer { try? file.close() }
+          
+          if info.format == firstFormat && transitions == nil {
+            let blockAlign = Int64(firstFormat.blockAlign)
+            try writer.copy(from: file, offset: info.dataOffset + trim.start * blockAlign, size: frames * blockAlign, onRead: job.advance)
+            continue
+          }
+          
+          let reader = PcmReader(file: file, info: info, target: firstFormat, onRead: job.advance)
+          try reader.skip(trim.start)
+          guard let transitions = transitions else {
+            while reader.position < frames, let samples = try reader.read(maxFrames: Int(min(frames - reader.position, Int64(BLOCK_FRAMES)))) {
+              try writer.writeSamples(samples)
+            }
+            continue
+          }
+          
+          if index > 0 {
+            try writer.writeSilence(frames: Int64(transitions.gapFrames))
+          }
+          heldTail = try transitions.streamSegment(reader, frames: frames, index: index, previousTail: heldTail) {
+            try writer.writeSamples($0)
+          }
+        }
+        try writer.close()
+      } catch {
+        writer.abort()
+        throw error
+      }
+      job.finish()
       
-      for audioFile in audioFiles {
-        // Convert URL string to file path
-        let filePath = audioFile.hasPrefix("file://") ? 
-          URL(string: audioFile)!.path : audioFile
-        convertedFilePaths.append(filePath)
-        
-        guard FileManager.default.fileExists(atPath: filePath) else {
-          throw NSError(domain: "AudioutilsModule", code: 6, userInfo: [NSLocalizedDescriptionKey: "Audio file not found: \(filePath)"])
+      // Map each input file to its position in the joined audio
+      let sampleRate = Double(firstFormat.sampleRate)
+      var startFrame: Int64 = 0
+      var segments: [[String: Any]] = []
+      for (index, audioFile) in audioFiles.enumerated() {
+        if let transitions = transitions, index > 0 {
+          startFrame += Int64(transitions.gapFrames - transitions.overlaps[index])
         }
-        
-        guard let fileData = FileManager.default.contents(atPath: filePath) else {
-          throw NSError(domain: "AudioutilsModule", code: 7, userInfo: [NSLocalizedDescriptionKey: "Could not read audio file: \(filePath)"])
+        let frames = frameCounts[index]
+        var segment: [String: Any] = [
+          "uri": audioFile,
+          "durationMs": Double(frames) * 1000.0 / sampleRate,
+          "startMs": Double(startFrame) * 1000.0 / sampleRate,
+          "endMs": Double(startFrame + frames) * 1000.0 / sampleRate
+        ]
+        if options?.trimSilence != nil {
+          segment["trimmedStartMs"] = Double(trims[index].start) * 1000.0 / sampleRate
+          segment["trimmedEndMs"] = Double(trims[index].end) * 1000.0 / sampleRate
         }
-        
-        // Find the data chunk
-        let (dataOffset, dataSize) = findDataChunk(in: fileData)
-        dataChunkOffsets.append(dataOffset)
-        dataChunkSizes.append(dataSize)
-        totalDataSize += dataSize
+        segments.append(segment)
+        startFrame += frames
+      }
+      
+      return [
+        "uri": toOutputUri(audioFiles[0], outputPath),
+        "segments": segments
+      ]
+    }
+    
+    AsyncFunction("trimSilence") { (uri: String, options: TrimSilenceOptions?) -> [String: Any] in
+      let filePath = toFilePath(uri)
+      let file = try openFile(filePath)
+      defer { try? file.close() }
+      
+      let info = try readWavInfo(file, name: uri)
+      let format = info.format
+      guard format.isSupported else {
+        throw IncompatibleAudioFormatException((file: uri, reason: "unsupported encoding (\(format))"))
+      }
+      
+      // Detect the silence at either end of the data chunk
+      let trim = try detectSilence(PcmReader(file: file, info: info, target: format), sampleRate: format.sampleRate, options: options ?? TrimSilenceOptions())
+      let frames = info.frames - trim.start - trim.end
+      
+      // Copy the remaining data into a new file next to the original
+      let fileURL = URL(fileURLWithPath: filePath)
+      let outputPath = fileURL.deletingLastPathComponent()
+        .appendingPathComponent("\(fileURL.deletingPathExtension().lastPathComponent)_trimmed_\(Int(Date().timeIntervalSince1970 * 1000)).wav").path
+      let blockAlign = Int64(format.blockAlign)
+      let writer = try WavWriter(path: outputPath, format: format)
+      do {
+        try writer.copy(from: file, offset: info.dataOffset + trim.start * blockAlign, size: frames * blockAlign)
+        try writer.close()
+      } catch {
+        writer.abort()
+        throw error
       }
       
-      // Create a clean WAV header (extract format info from first file)
-      let fmtChunk = firstFileData.subdata(in: 12..<36) // Extract fmt chunk
+      let sampleRate = Double(format.sampleRate)
+      return [
+        "uri": toOutputUri(uri, outputPath),
+        "trimmedStartMs": Double(trim.start) * 1000.0 / sampleRate,
+        "trimmedEndMs": Double(trim.end) * 1000.0 / sampleRate,
+        "durationMs": Double(frames) * 1000.0 / sampleRate
+      ]
+    }
+    
+    AsyncFunction("splitAudioFile") { (uri: String, offsetsMs: [Double]) -> [String: Any] in
+      let filePath = toFilePath(uri)
+      let file = try openFile(filePath)
+      defer { try? file.close() }
       
-      // Create new header with clean structure
-      var newHeader = Data()
+      let info = try readWavInfo(file, name: uri)
+      let format = info.format
+      guard format.isSupported else {
+        throw IncompatibleAudioFormatException((file: uri, reason: "unsupported encoding (\(format))"))
+      }
       
-      // RIFF header
-      newHeader.append("RIFF".data(using: .ascii)!)
-      var riffSize = UInt32(36 + totalDataSize)
-      newHeader.append(Data(bytes: &riffSize, count: 4))
-      newHeader.append("WAVE".data(using: .ascii)!)
+      // Offsets outside the audio, or that round to the same frame, would
+      // make empty parts
+      let boundaries = [0] + offsetsMs.sorted().map { info.frame(at: $0) } + [info.frames]
+      let ranges = zip(boundaries, boundaries.dropFirst()).map { (start: $0, end: $1) }
+      guard ranges.allSatisfy({ $0.end > $0.start }) else {
+        throw NSError(domain: "AudioutilsModule", code: 12, userInfo: [NSLocalizedDescriptionKey: "offsetsMs must be distinct offsets inside the audio"])
+      }
       
-      // fmt chunk
-      newHeader.append(fmtChunk)
+      // Copy each range into its own file next to the original, keeping the
+      // fmt chunk as is
+      let fileURL = URL(fileURLWithPath: filePath)
+      let baseName = fileURL.deletingPathExtension().lastPathComponent
+      let timestamp = Int(Date().timeIntervalSince1970 * 1000)
+      let blockAlign = Int64(format.blockAlign)
+      var outputPaths: [String] = []
+      do {
+        for (index, range) in ranges.enumerated() {
+          let outputPath = fileURL.deletingLastPathComponent()
+            .appendingPathComponent("\(baseName)_part\(index + 1)_\(timestamp).wav").path
+          let writer = try WavWriter(path: outputPath, format: format, fmtChunk: info.fmtChunk)
+          do {
+            try writer.copy(from: file, offset: info.dataOffset + range.start * blockAlign, size: (range.end - range.start) * blockAlign)
+            try writer.close()
+          } catch {
+            writer.abort()
+            throw error
+          }
+          outputPaths.append(outputPath)
+        }
+      } catch {
+        // Don't leave the parts written so far behind
+        for outputPath in outputPaths {
+          try? FileManager.default.removeItem(atPath: outputPath)
+        }
+        throw error
+      }
       
-      // data chunk header
-      newHeader.append("data".data(using: .ascii)!)
-      var dataSize = UInt32(totalDataSize)
-      newHeader.append(Data(bytes: &dataSize, count: 4))
+      let sampleRate = Double(format.sampleRate)
+      return [
+        "parts": ranges.enumerated().map { index, range in
+          [
+            "uri": toOutputUri(uri, outputPaths[index]),
+            "startMs": Double(range.start) * 1000.0 / sampleRate,
+            "endMs": Double(range.end) * 1000.0 / sampleRate,
+            "durationMs": Double(range.end - range.start) * 1000.0 / sampleRate
+          ] as [String: Any]
+        }
+      ]
+    }
+    
+    AsyncFunction("cutRange") { (uri: String, startMs: Double, endMs: Double) -> [String: Any] in
+      guard startMs >= 0 && endMs > startMs else {
+        throw NSError(domain: "AudioutilsModule", code: 13, userInfo: [NSLocalizedDescriptionKey: "endMs must be after startMs, and startMs can't be negative"])
+      }
+      let filePath = toFilePath(uri)
+      let file = try openFile(filePath)
+      defer { try? file.close() }
       
-      // Create output file
-      FileManager.default.createFile(atPath: outputPath, contents: nil, attributes: nil)
+      let info = try readWavInfo(file, name: uri)
+      let format = info.format
+      guard format.isSupported else {
+        throw IncompatibleAudioFormatException((file: uri, reason: "unsupported encoding (\(format))"))
+      }
+      let start = info.frame(at: startMs)
+      let end = info.frame(at: endMs)
+      guard start < info.frames else {
+        throw NSError(domain: "AudioutilsModule", code: 13, userInfo: [NSLocalizedDescriptionKey: "startMs is past the end of the audio"])
+      }
+      
+      // Copy the audio either side of the range into a new file next to the
+      // original, keeping the fmt chunk as is
+      let fileURL = URL(fileURLWithPath: filePath)
+      let outputPath = fileURL.deletingLastPathComponent()
+        .appendingPathComponent("\(fileURL.deletingPathExtension().lastPathComponent)_cut_\(Int(Date().timeIntervalSince1970 * 1000)).wav").path
+      let blockAlign = Int64(format.blockAlign)
+      let writer = try WavWriter(path: outputPath, format: format, fmtChunk: info.fmtChunk)
+      do {
+        try writer.copy(from: file, offset: info.dataOffset, size: start * blockAlign)
+        try writer.copy(from: file, offset: info.dataOffset + end * blockAlign, size: (info.frames - end) * blockAlign)
+        try writer.close()
+      } catch {
+        writer.abort()
+        throw error
+      }
+      
+      let sampleRate = Double(format.sampleRate)
+      return [
+        "uri": toOutputUri(uri, outputPath),
+        "durationMs": Double(info.frames - (end - start)) * 1000.0 / sampleRate,
+        "removedMs": Double(end - start) * 1000.0 / sampleRate
+      ]
+    }
+    
+    AsyncFunction("exportAudio") { (uri: String, options: ExportAudioOptions) -> [String: Any] in
+      let filePath = toFilePath(uri)
+      let file = try openFile(filePath)
+      defer { try? file.close() }
       
-      guard let outputHandle = FileHandle(forWritingAtPath: outputPath) else {
-        throw NSError(domain: "AudioutilsModule", code: 7, userInfo: [NSLocalizedDescriptionKey: "Could not create output file"])
+      let info = try readWavInfo(file, name: uri)
+      guard info.format.isSupported else {
+        throw IncompatibleAudioFormatException((file: uri, reason: "unsupported encoding (\(info.format))"))
       }
       
-      // Write new clean header
-      outputHandle.write(newHeader)
+      // The WAV file is left as is, the export is written next to it
+      let format = options.format
+      let fileURL = URL(fileURLWithPath: filePath)
+      let outputPath = fileURL.deletingLastPathComponent()
+        .appendingPathComponent("\(fileURL.deletingPathExtension().lastPathComponent)_\(Int(Date().timeIntervalSince1970 * 1000)).\(format.rawValue)").path
+      
+      // FLAC keeps the source format, AAC takes at most two channels
+      let target: WavFormat
+      let encoder: AudioEncoder
+      switch format {
+      case .flac:
+        target = info.format
+        encoder = try FlacWriter(path: outputPath, format: target)
+      case .m4a:
+        target = WavFormat(audioFormat: WAVE_FORMAT_IEEE_FLOAT, numChannels: min(2, info.format.numChannels), sampleRate: info.format.sampleRate, bitsPerSample: 32)
+        encoder = try AacWriter(path: outputPath, format: target, bitRate: options.bitRate)
+      }
       
-      // Append data from all files (only the data chunks)
-      for (index, filePath) in convertedFilePaths.enumerated() {
-        guard let fileData = FileManager.default.contents(atPath: filePath) else {
-          outputHandle.closeFile()
-          throw NSError(domain: "AudioutilsModule", code: 8, userInfo: [NSLocalizedDescriptionKey: "Could not read audio file: \(filePath)"])
+      let job = AudioJob(jobId: options.jobId, fileCount: 1, totalBytes: info.dataSize, cancelledJobs: cancelledJobs) { [weak self] body in
+        self?.sendEvent("onProgress", body)
+      }
+      defer {
+        if let jobId = options.jobId {
+          cancelledJobs.remove(jobId)
         }
-        
-        // Extract only the data chunk
-        let dataOffset = Int(dataChunkOffsets[index])
-        let dataSize = Int(dataChunkSizes[index])
-        let audioData = fileData.subdata(in: dataOffset..<(dataOffset + dataSize))
-        outputHandle.write(audioData)
       }
       
-      outputHandle.closeFile()
+      do {
+        try job.startFile(0)
+        let reader = PcmReader(file: file, info: info, target: target, onRead: job.advance)
+        while let samples = try reader.read() {
+          try encoder.writeSamples(samples)
+        }
+        try encoder.close()
+      } catch {
+        encoder.abort()
+        throw error
+      }
+      job.finish()
       
-      return outputPath
+      let byteSize = (try? FileManager.default.attributesOfItem(atPath: outputPath)[.size] as? NSNumber)?.doubleValue ?? 0
+      return [
+        "uri": toOutputUri(uri, outputPath),
+        "format": format.rawValue,
+        "mimeType": format.mimeType,
+        "byteSize": byteSize,
+        "durationMs": Double(info.frames) * 1000.0 / Double(info.format.sampleRate)
+      ]
     }
   }
 }
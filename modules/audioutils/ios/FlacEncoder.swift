@@ -0,0 +1,341 @@
+import Foundation
+
+// FLAC encoder. Frames use FLAC's fixed polynomial predictors with Rice coded
+// residuals, which gets most of the compression of a full LPC encoder on speech
+// at a fraction of the cost. Mirrors src/flac.ts.
+
+// Samples per channel in every frame but the last
+private let FLAC_BLOCK_SIZE = 4096
+private let MAX_FIXED_ORDER = 4
+private let MAX_PARTITION_ORDER = 8
+// Rice parameter 15 is the escape code, which this encoder doesn't use
+private let MAX_RICE_PARAMETER = 14
+
+// Sample size codes of the frame header, 0 means "see STREAMINFO"
+private let SAMPLE_SIZE_CODES = [8: 1, 16: 4, 24: 6]
+
+// Bit depth a format is stored with in FLAC, float and 32-bit PCM audio is reduced to 24 bits
+func flacBitsPerSample(_ format: WavFormat) -> Int {
+  format.audioFormat == WAVE_FORMAT_PCM && format.bitsPerSample <= 24 ? format.bitsPerSample : 24
+}
+
+// Writes big-endian bit fields into a growing byte buffer
+private struct BitWriter {
+  private(set) var bytes: [UInt8] = []
+  private var acc: UInt64 = 0
+  private var accBits = 0
+
+  init() {
+    bytes.reserveCapacity(8192)
+  }
+
+  // Write the low bits of a value (at most 32), negative values as two's complement
+  mutating func write(_ value: Int, _ bits: Int) {
+    acc = (acc << UInt64(bits)) | (UInt64(truncatingIfNeeded: value) & ((1 << UInt64(bits)) - 1))
+    accBits += bits
+    while accBits >= 8 {
+      accBits -= 8
+      bytes.append(UInt8(truncatingIfNeeded: acc >> UInt64(accBits)))
+    }
+    acc &= (1 << UInt64(accBits)) - 1
+  }
+
+  // Write a number of zero bits followed by a one
+  mutating func writeUnary(_ zeros: Int) {
+    var remaining = zeros
+    while remaining >= 31 {
+      write(0, 31)
+      remaining -= 31
+    }
+    write(1, remaining + 1)
+  }
+
+  // Pad with zero bits to the next byte boundary
+  mutating func align() {
+    if accBits > 0 {
+      write(0, 8 - accBits)
+    }
+  }
+}
+
+// CRC-8 (polynomial 0x07) of the frame header
+private func crc8(_ bytes: [UInt8]) -> Int {
+  var crc: UInt8 = 0
+  for byte in bytes {
+    crc ^= byte
+    for _ in 0..<8 {
+      crc = crc & 0x80 != 0 ? (crc << 1) ^ 0x07 : crc << 1
+    }
+  }
+  return Int(crc)
+}
+
+// CRC-16 (polynomial 0x8005) of the whole frame
+private func crc16(_ bytes: [UInt8]) -> Int {
+  var crc: UInt16 = 0
+  for byte in bytes {
+    crc ^= UInt16(byte) << 8
+    for _ in 0..<8 {
+      crc = crc & 0x8000 != 0 ? (crc << 1) ^ 0x8005 : crc << 1
+    }
+  }
+  return Int(crc)
+}
+
+// Residual of the fixed predictor of the given order
+private func fixedResidual(_ s: [Int], order: Int) -> [Int] {
+  (order..<s.count).map { i in
+    switch order {
+    case 0: return s[i]
+    case 1: return s[i] - s[i - 1]
+    case 2: return s[i] - 2 * s[i - 1] + s[i - 2]
+    case 3: return s[i] - 3 * s[i - 1] + 3 * s[i - 2] - s[i - 3]
+    default: return s[i] - 4 * s[i - 1] + 6 * s[i - 2] - 4 * s[i - 3] + s[i - 4]
+    }
+  }
+}
+
+// Residuals are Rice coded as unsigned values: 0, -1, 1, -2, 2...
+private func fold(_ value: Int) -> Int {
+  value >= 0 ? value * 2 : -value * 2 - 1
+}
+
+private struct ResidualPlan {
+  var bits: Int
+  let partitionOrder: Int
+  let parameters: [Int]
+}
+
+// Pick the partition order and Rice parameters that code a residual in the
+// fewest bits
+private func planResidual(_ residual: [Int], blockSize: Int, order: Int) -> ResidualPlan {
+  var best = ResidualPlan(bits: Int.max, partitionOrder: 0, parameters: [0])
+  for partitionOrder in 0...MAX_PARTITION_ORDER {
+    let partitionSize = blockSize >> partitionOrder
+    // Every partition must be the same size, and the first one also holds
+    // the warm-up samples
+    guard blockSize % (1 << partitionOrder) == 0 && partitionSize > order else { break }
+
+    var bits = 2 + 4
+    var parameters: [Int] = []
+    var start = 0
+    for partition in 0..<(1 << partitionOrder) {
+      let end = (partition + 1) * partitionSize - order
+      let sum = residual[start..<end].reduce(0) { $0 + fold($1) }
+      // Estimated size of the partition with each Rice parameter
+      var partitionBits = Int.max
+      var bestParameter = 0
+      for parameter in 0...MAX_RICE_PARAMETER {
+        let cost = (end - start) * (parameter + 1) + (sum >> parameter)
+        if cost < partitionBits {
+          partitionBits = cost
+          bestParameter = parameter
+        }
+      }
+      bits += 4 + partitionBits
+      parameters.append(bestParameter)
+      start = end
+    }
+    if bits < best.bits {
+      best = ResidualPlan(bits: bits, partitionOrder: partitionOrder, parameters: parameters)
+    }
+  }
+  return best
+}
+
+private extension BitWriter {
+  mutating func writeResidual(_ residual: [Int], plan: ResidualPlan, blockSize: Int, order: Int) {
+    // Rice coding with 4-bit parameters
+    write(0, 2)
+    write(plan.partitionOrder, 4)
+    let partitionSize = blockSize >> plan.partitionOrder
+    var start = 0
+    for (partition, parameter) in plan.parameters.enumerated() {
+      let end = (partition + 1) * partitionSize - order
+      write(parameter, 4)
+      for i in start..<end {
+        let value = fold(residual[i])
+        writeUnary(value >> parameter)
+        if parameter > 0 {
+          write(value, parameter)
+        }
+      }
+      start = end
+    }
+  }
+
+  // Write one channel of a frame as a constant, fixed predictor or verbatim
+  // subframe, whichever is smallest
+  mutating func writeSubframe(_ samples: [Int], bitsPerSample: Int) {
+    let blockSize = samples.count
+    if samples.allSatisfy({ $0 == samples[0] }) {
+      write(0b00000000, 8)
+      write(samples[0], bitsPerSample)
+      return
+    }
+
+    var best: (order: Int, residual: [Int], plan: ResidualPlan)? = nil
+    for order in 0...min(MAX_FIXED_ORDER, blockSize - 1) {
+      let residual = fixedResidual(samples, order: order)
+      var plan = planResidual(residual, blockSize: blockSize, order: order)
+      plan.bits += order * bitsPerSample
+      if best == nil || plan.bits < best!.plan.bits {
+        best = (order, residual, plan)
+      }
+    }
+
+    guard let fixed = best, fixed.plan.bits < blockSize * bitsPerSample else {
+      write(0b00000010, 8)
+      for sample in samples {
+        write(sample, bitsPerSample)
+      }
+      return
+    }
+
+    write(0b00010000 | (fixed.order << 1), 8)
+    for i in 0..<fixed.order {
+      write(samples[i], bitsPerSample)
+    }
+    writeResidual(fixed.residual, plan: fixed.plan, blockSize: blockSize, order: fixed.order)
+  }
+
+  // Frame numbers are coded like UTF-8 characters
+  mutating func writeFrameNumber(_ frameNumber: Int) {
+    if frameNumber < 0x80 {
+      write(frameNumber, 8)
+      return
+    }
+    var continuationBytes = 1
+    while frameNumber >= 1 << (5 * continuationBytes + 6) {
+      continuationBytes += 1
+    }
+    let prefix = (0xFF00 >> (continuationBytes + 1)) & 0xFF
+    write(prefix | (frameNumber >> (6 * continuationBytes)), 8)
+    for i in stride(from: continuationBytes - 1, through: 0, by: -1) {
+      write(0x80 | ((frameNumber >> (6 * i)) & 0x3F), 8)
+    }
+  }
+}
+
+// Streams interleaved float samples into a FLAC file. Samples are buffered
+// into fixed-size frames, and the STREAMINFO block is patched with the total
+// length and frame sizes when closed.
+final class FlacWriter: AudioEncoder {
+  private let path: String
+  private let format: WavFormat
+  private let file: FileHandle
+  private let channels: Int
+  private let bitsPerSample: Int
+  private let scale: Float
+
+  // Samples of the frame being filled, one array per channel
+  private var block: [[Int]]
+  private var frameNumber = 0
+  private var totalFrames: Int64 = 0
+  private var minFrameSize = Int.max
+  private var maxFrameSize = 0
+
+  init(path: String, format: WavFormat) throws {
+    guard (1...8).contains(format.numChannels) else {
+      throw NSError(domain: "AudioutilsModule", code: 10, userInfo: [NSLocalizedDescriptionKey: "FLAC supports 1 to 8 channels"])
+    }
+    let bitsPerSample = flacBitsPerSample(format)
+    self.path = path
+    self.format = format
+    self.channels = format.numChannels
+    self.bitsPerSample = bitsPerSample
+    self.scale = Float(1 << (bitsPerSample - 1))
+    self.block = Array(repeating: [], count: format.numChannels)
+    guard FileManager.default.createFile(atPath: path, contents: nil, attributes: nil),
+          let file = FileHandle(forUpdatingAtPath: path) else {
+      throw NSError(domain: "AudioutilsModule", code: 7, userInfo: [NSLocalizedDescriptionKey: "Could not create output file"])
+    }
+    self.file = file
+    try file.write(contentsOf: header())
+  }
+
+  func writeSamples(_ samples: [Float]) throws {
+    for frame in 0..<(samples.count / channels) {
+      // Decoded PCM converts back exactly, float audio is clamped and rounded
+      for channel in 0..<channels {
+        let sample = (samples[frame * channels + channel] * scale).rounded()
+        block[channel].append(Int(max(-scale, min(scale - 1, sample))))
+      }
+      if block[0].count == FLAC_BLOCK_SIZE {
+        try writeFrame()
+      }
+    }
+  }
+
+  // Write the last, possibly shorter, frame and patch the header
+  func close() throws {
+    if !block[0].isEmpty {
+      try writeFrame()
+    }
+    try file.seek(toOffset: 0)
+    try file.write(contentsOf: header())
+    try file.close()
+  }
+
+  // Close and delete the partial output
+  func abort() {
+    try? file.close()
+    try? FileManager.default.removeItem(atPath: path)
+  }
+
+  private func writeFrame() throws {
+    let blockSize = block[0].count
+    var writer = BitWriter()
+
+    // Sync code, fixed block size stream
+    writer.write(0xFFF8, 16)
+    // Block size as a 16-bit value at the end of the header, sample rate
+    // from STREAMINFO
+    writer.write(0b0111, 4)
+    writer.write(0b0000, 4)
+    // Independent channels
+    writer.write(channels - 1, 4)
+    writer.write(SAMPLE_SIZE_CODES[bitsPerSample] ?? 0, 3)
+    writer.write(0, 1)
+    writer.writeFrameNumber(frameNumber)
+    writer.write(blockSize - 1, 16)
+    writer.write(crc8(writer.bytes), 8)
+
+    for samples in block {
+      writer.writeSubframe(samples, bitsPerSample: bitsPerSample)
+    }
+    writer.align()
+    writer.write(crc16(writer.bytes), 16)
+
+    try file.write(contentsOf: Data(writer.bytes))
+    minFrameSize = min(minFrameSize, writer.bytes.count)
+    maxFrameSize = max(maxFrameSize, writer.bytes.count)
+    totalFrames += Int64(blockSize)
+    frameNumber += 1
+    block = Array(repeating: [], count: channels)
+  }
+
+  private func header() -> Data {
+    var writer = BitWriter()
+    for char in "fLaC".utf8 {
+      writer.write(Int(char), 8)
+    }
+    // Last metadata block, type STREAMINFO
+    writer.write(0x80, 8)
+    writer.write(34, 24)
+    writer.write(FLAC_BLOCK_SIZE, 16)
+    writer.write(FLAC_BLOCK_SIZE, 16)
+    writer.write(frameNumber > 0 ? minFrameSize : 0, 24)
+    writer.write(maxFrameSize, 24)
+    writer.write(format.sampleRate, 20)
+    writer.write(channels - 1, 3)
+    writer.write(bitsPerSample - 1, 5)
+    writer.write(Int(totalFrames >> 32), 4)
+    writer.write(Int(totalFrames), 32)
+    // MD5 of the audio, all zeros means it wasn't computed
+    for _ in 0..<16 {
+      writer.write(0, 8)
+    }
+    return Data(writer.bytes)
+  }
+}
@@ -0,0 +1,36 @@
+import Foundation
+
+// Min/max peaks for drawing the waveform of a recording. Mirrors src/peaks.ts.
+
+struct Peaks {
+  let min: [Double]
+  let max: [Double]
+}
+
+// Split the audio into equally long buckets and find the lowest and highest
+// sample of each, over all channels. Buckets without audio stay 0.
+func computePeaks(_ reader: PcmReader, buckets: Int) throws -> Peaks {
+  guard buckets > 0 else {
+    throw NSError(domain: "AudioutilsModule", code: 9, userInfo: [NSLocalizedDescriptionKey: "buckets must be a positive integer"])
+  }
+
+  let channels = reader.channels
+  let frames = reader.frames
+  var lows = [Double](repeating: 0, count: buckets)
+  var highs = [Double](repeating: 0, count: buckets)
+  var frame: Int64 = 0
+
+  while let samples = try reader.read() {
+    for index in 0..<(samples.count / channels) {
+      let bucket = Int(Swift.min(frame * Int64(buckets) / frames, Int64(buckets - 1)))
+      for channel in 0..<channels {
+        let sample = Double(samples[index * channels + channel])
+        if sample < lows[bucket] { lows[bucket] = sample }
+        if sample > highs[bucket] { highs[bucket] = sample }
+      }
+      frame += 1
+    }
+  }
+
+  return Peaks(min: lows, max: highs)
+}
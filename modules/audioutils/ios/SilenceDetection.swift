@@ -0,0 +1,73 @@
+import ExpoModulesCore
+import Foundation
+
+// Energy-based voice activity detection, used to trim the dead air at the
+// start and end of hold-to-record segments. Mirrors src/vad.ts.
+
+struct TrimSilenceOptions: Record {
+  @Field
+  var thresholdDb: Double = -40
+
+  @Field
+  var windowMs: Double = 20
+
+  @Field
+  var paddingMs: Double = 100
+}
+
+// Frames removed from the start and end of a segment
+struct TrimmedFrames {
+  let start: Int64
+  let end: Int64
+
+  static let none = TrimmedFrames(start: 0, end: 0)
+}
+
+// Find where speech starts and ends, judged by the RMS level of short windows.
+// Everything is trimmed if the audio is all silence.
+func detectSilence(_ reader: PcmReader, sampleRate: Int, options: TrimSilenceOptions) throws -> TrimmedFrames {
+  guard options.windowMs > 0 && options.paddingMs >= 0 else {
+    throw NSError(domain: "AudioutilsModule", code: 9, userInfo: [NSLocalizedDescriptionKey: "windowMs and paddingMs must be positive"])
+  }
+
+  let channels = reader.channels
+  let windowFrames = Int64(max(1, Int((options.windowMs * Double(sampleRate) / 1000).rounded())))
+  let paddingFrames = Int64((options.paddingMs * Double(sampleRate) / 1000).rounded())
+  let threshold = pow(10, options.thresholdDb / 20)
+
+  var first: Int64 = -1
+  var last: Int64 = -1
+  var frames: Int64 = 0
+  var windowStart: Int64 = 0
+  var sum = 0.0
+
+  func endWindow() {
+    if frames > windowStart && (sum / Double((frames - windowStart) * Int64(channels))).squareRoot() >= threshold {
+      if first < 0 { first = windowStart }
+      last = frames
+    }
+    windowStart = frames
+    sum = 0
+  }
+
+  while let samples = try reader.read() {
+    for frame in 0..<(samples.count / channels) {
+      for channel in 0..<channels {
+        let sample = Double(samples[frame * channels + channel])
+        sum += sample * sample
+      }
+      frames += 1
+      if frames - windowStart == windowFrames { endWindow() }
+    }
+  }
+  endWindow()
+
+  guard first >= 0 else {
+    return TrimmedFrames(start: frames, end: 0)
+  }
+
+  return TrimmedFrames(
+    start: max(0, first - paddingFrames),
+    end: frames - min(frames, last + paddingFrames)
+  )
+}
@@ -0,0 +1,174 @@
+import ExpoModulesCore
+import Foundation
+
+// Gaps, crossfades and fade ramps applied between segments when joining.
+// Mirrors src/transitions.ts.
+
+enum CrossfadeCurve: String, Enumerable {
+  case linear
+  case equalPower
+}
+
+struct CrossfadeOptions: Record {
+  @Field
+  var durationMs: Double = 0
+
+  @Field
+  var curve: CrossfadeCurve = .equalPower
+}
+
+struct JoinAudioFilesOptions: Record {
+  @Field
+  var gapMs: Double = 0
+
+  @Field
+  var crossfade: CrossfadeOptions? = nil
+
+  @Field
+  var fadeInMs: Double = 0
+
+  @Field
+  var fadeOutMs: Double = 0
+
+  @Field
+  var trimSilence: TrimSilenceOptions? = nil
+
+  @Field
+  var jobId: String? = nil
+
+  var hasTransitions: Bool {
+    gapMs > 0 || (crossfade?.durationMs ?? 0) > 0 || fadeInMs > 0 || fadeOutMs > 0
+  }
+}
+
+struct ResolvedTransitions {
+  let gapFrames: Int
+  // overlaps[i] is the number of frames segment i overlaps segment i - 1
+  let overlaps: [Int]
+  let fadeInFrames: Int
+  let fadeOutFrames: Int
+  let curve: CrossfadeCurve
+}
+
+extension JoinAudioFilesOptions {
+  // Convert the options to frame counts for the given segments. Crossfades are
+  // limited to half of the shorter neighbouring segment so overlaps never meet.
+  func resolve(frameCounts: [Int64], sampleRate: Int) throws -> ResolvedTransitions {
+    func toFrames(_ ms: Double, _ name: String) throws -> Int {
+      guard ms.isFinite && ms >= 0 else {
+        throw NSError(domain: "AudioutilsModule", code: 9, userInfo: [NSLocalizedDescriptionKey: "\(name) must be a positive number of milliseconds"])
+      }
+      return Int((ms * Double(sampleRate) / 1000).rounded())
+    }
+
+    let gapFrames = try toFrames(gapMs, "gapMs")
+    let crossfadeFrames = try toFrames(crossfade?.durationMs ?? 0, "crossfade.durationMs")
+    guard gapFrames == 0 || crossfadeFrames == 0 else {
+      throw NSError(domain: "AudioutilsModule", code: 9, userInfo: [NSLocalizedDescriptionKey: "gapMs and crossfade can't be combined"])
+    }
+
+    let overlaps = frameCounts.enumerated().map { index, frames -> Int in
+      index == 0 ? 0 : Int(min(Int64(crossfadeFrames), frameCounts[index - 1] / 2, frames / 2))
+    }
+
+    return ResolvedTransitions(
+      gapFrames: gapFrames,
+      overlaps: overlaps,
+      fadeInFrames: try toFrames(fadeInMs, "fadeInMs"),
+      fadeOutFrames: try toFrames(fadeOutMs, "fadeOutMs"),
+      curve: crossfade?.curve ?? .equalPower
+    )
+  }
+}
+
+// Apply linear fade-in and fade-out ramps in place to a block of samples that
+// starts at firstFrame of a segment totalFrames long
+func applyFades(_ samples: inout [Float], channels: Int, firstFrame: Int64, totalFrames: Int64, fadeInFrames: Int, fadeOutFrames: Int) {
+  let fadeIn = min(Int64(fadeInFrames), totalFrames)
+  let fadeOut = min(Int64(fadeOutFrames), totalFrames)
+
+  for index in 0..<(samples.count / channels) {
+    let frame = firstFrame + Int64(index)
+    var gain: Float = 1
+    if frame < fadeIn {
+      gain *= Float(frame) / Float(fadeIn)
+    }
+    if totalFrames - 1 - frame < fadeOut {
+      gain *= Float(totalFrames - 1 - frame) / Float(fadeOut)
+    }
+    if gain == 1 { continue }
+    for channel in 0..<channels {
+      samples[index * channels + channel] *= gain
+    }
+  }
+}
+
+// Mix the tail of one segment into the head of the next (both the same length)
+func crossfade(tail: ArraySlice<Float>, head: ArraySlice<Float>, channels: Int, curve: CrossfadeCurve) -> [Float] {
+  let frames = head.count / channels
+  let tail = Array(tail)
+  let head = Array(head)
+  var output = [Float](repeating: 0, count: head.count)
+
+  for frame in 0..<frames {
+    let t = (Double(frame) + 0.5) / Double(frames)
+    let fadeOutGain = Float(curve == .equalPower ? cos(t * .pi / 2) : 1 - t)
+    let fadeInGain = Float(curve == .equalPower ? sin(t * .pi / 2) : t)
+    for channel in 0..<channels {
+      let index = frame * channels + channel
+      output[index] = tail[index] * fadeOutGain + head[index] * fadeInGain
+    }
+  }
+
+  return output
+}
+
+extension ResolvedTransitions {
+  // Stream one segment through its fades and crossfades. The head that overlaps
+  // the previous segment is mixed with previousTail, and the frames that overlap
+  // the next segment are returned to be held back in turn. Only the overlapping
+  // frames are kept in memory.
+  func streamSegment(
+    _ reader: PcmReader,
+    frames: Int64,
+    index: Int,
+    previousTail: [Float]?,
+    write: ([Float]) throws -> Void
+  ) throws -> [Float] {
+    let channels = reader.channels
+    let headFrames = Int64(overlaps[index])
+    let tailStart = frames - Int64(index + 1 < overlaps.count ? overlaps[index + 1] : 0)
+    var head = [Float](repeating: 0, count: Int(headFrames) * channels)
+    var tail = [Float](repeating: 0, count: Int(frames - tailStart) * channels)
+
+    var position: Int64 = 0
+    while position < frames, var samples = try reader.read(maxFrames: Int(min(frames - position, Int64(BLOCK_FRAMES)))) {
+      let end = position + Int64(samples.count / channels)
+      applyFades(&samples, channels: channels, firstFrame: position, totalFrames: frames, fadeInFrames: fadeInFrames, fadeOutFrames: fadeOutFrames)
+
+      // Frames in from..<to of the segment, as a range of this block
+      func range(_ from: Int64, _ to: Int64) -> Range<Int> {
+        Int(max(from, position) - position) * channels..<Int(min(to, end) - position) * channels
+      }
+
+      if position < headFrames {
+        let block = range(0, headFrames)
+        head.replaceSubrange((Int(position) * channels)..<(Int(position) * channels + block.count), with: samples[block])
+        if end >= headFrames {
+          try write(previousTail.map { crossfade(tail: $0[...], head: head[...], channels: channels, curve: curve) } ?? head)
+        }
+      }
+      if end > headFrames && position < tailStart {
+        try write(Array(samples[range(headFrames, tailStart)]))
+      }
+      if end > tailStart {
+        let block = range(tailStart, frames)
+        let offset = Int(max(tailStart, position) - tailStart) * channels
+        tail.replaceSubrange(offset..<(offset + block.count), with: samples[block])
+      }
+      position = end
+    }
+
+    return tail
+  }
+}
@@ -0,0 +1,323 @@
+import Foundation
+
+// Streaming WAV reading and writing. Audio is processed in fixed-size blocks so
+// memory use doesn't grow with the length of a recording.
+
+// Frames processed per block
+let BLOCK_FRAMES = 8192
+
+private let RIFF_SIZE_LIMIT: Int64 = 0xFFFFFFFF
+
+// Header written by WavWriter: RIFF/RF64 (12), JUNK/ds64 (36), fmt (8 + body), data (8)
+private let HEADER_SIZE_WITHOUT_FMT: Int64 = 12 + 36 + 8 + 8
+
+// Chunks the parser understands, anything else is reported by getAudioInfo
+let KNOWN_CHUNK_IDS: Set<String> = ["fmt ", "data", "ds64", "JUNK"]
+
+struct WavChunk {
+  let id: String
+  let size: Int64
+}
+
+struct WavInfo {
+  let format: WavFormat
+  let dataOffset: Int64
+  let dataSize: Int64
+  // Every chunk after the RIFF header
+  let chunks: [WavChunk]
+  // Body of the fmt chunk, copied verbatim by edits
+  let fmtChunk: Data
+
+  var frames: Int64 { format.blockAlign > 0 ? dataSize / Int64(format.blockAlign) : 0 }
+
+  // Number of frames after converting to the target sample rate
+  func frames(in target: WavFormat) -> Int64 {
+    format.sampleRate == target.sampleRate ? frames : frames * Int64(target.sampleRate) / Int64(format.sampleRate)
+  }
+
+  // Frame at a time offset, clamped to the end of the data
+  func frame(at ms: Double) -> Int64 {
+    let frame = (ms * Double(format.sampleRate) / 1000).rounded()
+    // Negative offsets stay negative so callers can reject them
+    return frame.isNaN ? 0 : Int64(max(-1, min(Double(frames), frame)))
+  }
+}
+
+private func readBytes(_ file: FileHandle, at offset: Int64, count: Int) throws -> Data {
+  try file.seek(toOffset: UInt64(offset))
+  return try file.read(upToCount: count) ?? Data()
+}
+
+// Read the format and data chunk position of a RIFF or RF64 WAV file by walking
+// the chunk headers, without loading the audio
+func readWavInfo(_ file: FileHandle, name: String) throws -> WavInfo {
+  let length = Int64(try file.seekToEnd())
+  let riff = try readBytes(file, at: 0, count: 12)
+  let riffId = riff.count == 12 ? String(data: riff.subdata(in: 0..<4), encoding: .ascii) : nil
+  guard riffId == "RIFF" || riffId == "RF64",
+        String(data: riff.subdata(in: 8..<12), encoding: .ascii) == "WAVE" else {
+    throw IncompatibleAudioFormatException((file: name, reason: "not a valid WAV file"))
+  }
+
+  var format: WavFormat? = nil
+  var fmtChunk = Data()
+  var ds64DataSize: Int64? = nil
+  var dataChunk: (offset: Int64, size: Int64)? = nil
+  var chunks: [WavChunk] = []
+  var offset: Int64 = 12
+
+  while offset + 8 <= length {
+    let header = try readBytes(file, at: offset, count: 8)
+    let chunkId = String(data: header.subdata(in: 0..<4), encoding: .ascii) ?? ""
+    let size = Int64(readUInt32(header, 4))
+    // RF64 files keep the real data size in the ds64 chunk
+    let chunkSize = chunkId == "data" && size == RIFF_SIZE_LIMIT ? ds64DataSize ?? size : size
+    let available = min(chunkSize, length - offset - 8)
+    chunks.append(WavChunk(id: chunkId, size: available))
+
+    switch chunkId {
+    case "ds64" where available >= 16:
+      let ds64 = try readBytes(file, at: offset + 8, count: 16)
+      ds64DataSize = Int64(readUInt32(ds64, 8)) | (Int64(readUInt32(ds64, 12)) << 32)
+    case "fmt ":
+      guard available >= 16 else {
+        throw IncompatibleAudioFormatException((file: name, reason: "invalid fmt chunk"))
+      }
+      let fmt = try readBytes(file, at: offset + 8, count: Int(available))
+      fmtChunk = fmt
+      var audioFormat = readUInt16(fmt, 0)
+      // The actual encoding of an extensible format is the start of its sub-format GUID
+      if audioFormat == WAVE_FORMAT_EXTENSIBLE && available >= 26 {
+        audioFormat = readUInt16(fmt, 24)
+      }
+      format = WavFormat(
+        audioFormat: audioFormat,
+        numChannels: readUInt16(fmt, 2),
+        sampleRate: Int(readUInt32(fmt, 4)),
+        bitsPerSample: readUInt16(fmt, 14)
+      )
+    case "data" where dataChunk == nil:
+      dataChunk = (offset + 8, available)
+    default:
+      break
+    }
+
+    // Move to next chunk, skipping the padding byte if the chunk size is odd
+    offset += 8 + chunkSize + (chunkSize & 1)
+  }
+
+  guard let wavFormat = format else {
+    throw IncompatibleAudioFormatException((file: name, reason: "missing fmt chunk"))
+  }
+  // Fallback: assume data starts at offset 44 (standard WAV header)
+  let data = dataChunk ?? (44, max(0, length - 44))
+  return WavInfo(format: wavFormat, dataOffset: data.offset, dataSize: data.size, chunks: chunks, fmtChunk: fmtChunk)
+}
+
+// Reads the data chunk of a WAV file block by block, converted to the target
+// format. Resampling keeps just enough input frames to interpolate across blocks.
+final class PcmReader {
+  private let file: FileHandle
+  private let info: WavInfo
+  private let from: WavFormat
+  private let inputFrames: Int64
+  private let ratio: Double
+  // Called with the number of input bytes consumed
+  private let onRead: (Int64) throws -> Void
+
+  let channels: Int
+  // Total frames this reader produces
+  let frames: Int64
+  private(set) var position: Int64 = 0
+
+  // Decoded input frames, starting at input frame bufferedStart
+  private var buffered: [Float] = []
+  private var bufferedStart: Int64 = 0
+  private var inputPosition: Int64 = 0
+
+  init(file: FileHandle, info: WavInfo, target: WavFormat, onRead: @escaping (Int64) throws -> Void = { _ in }) {
+    self.file = file
+    self.onRead = onRead
+    self.info = info
+    self.from = info.format
+    self.inputFrames = info.frames
+    self.ratio = Double(info.format.sampleRate) / Double(target.sampleRate)
+    self.channels = target.numChannels
+    self.frames = info.frames(in: target)
+  }
+
+  private func decode(start: Int64, count: Int) throws -> [Float] {
+    let data = try readBytes(file, at: info.dataOffset + start * Int64(from.blockAlign), count: count * from.blockAlign)
+    try onRead(Int64(data.count))
+    return convertChannels(decodeSamples(data, format: from), from: from.numChannels, to: channels)
+  }
+
+  // Read up to maxFrames frames, or nil at the end of the data
+  func read(maxFrames: Int = BLOCK_FRAMES) throws -> [Float]? {
+    let count = Int(min(Int64(maxFrames), Int64(BLOCK_FRAMES), frames - position))
+    guard count > 0 else { return nil }
+
+    if ratio == 1 {
+      let samples = try decode(start: position, count: count)
+      position += Int64(count)
+      return samples
+    }
+
+    var output = [Float](repeating: 0, count: count * channels)
+    for frame in 0..<count {
+      let sourcePosition = Double(position + Int64(frame)) * ratio
+      let index = Int64(sourcePosition)
+      let next = min(index + 1, inputFrames - 1)
+      // Drop the frames already used and decode the next block
+      while next >= bufferedStart + Int64(buffered.count / channels) {
+        let blockFrames = Int(min(Int64(BLOCK_FRAMES), inputFrames - inputPosition))
+        guard blockFrames > 0 else { break }
+        let keep = min(Int(max(0, index - bufferedStart)) * channels, buffered.count)
+        buffered = Array(buffered[keep...]) + (try decode(start: inputPosition, count: blockFrames))
+        bufferedStart += Int64(keep / channels)
+        inputPosition += Int64(blockFrames)
+      }
+
+      let a = Int(index - bufferedStart) * channels
+      let b = Int(next - bufferedStart) * channels
+      let fraction = Float(sourcePosition - Double(index))
+      for channel in 0..<channels {
+        output[frame * channels + channel] = buffered[a + channel] + (buffered[b + channel] - buffered[a + channel]) * fraction
+      }
+    }
+
+    position += Int64(count)
+    return output
+  }
+
+  // Skip frames, e.g. silence trimmed from the start
+  func skip(_ count: Int64) throws {
+    if ratio == 1 {
+      let skipped = min(frames - position, count)
+      position += skipped
+      try onRead(skipped * Int64(from.blockAlign))
+      return
+    }
+    var remaining = count
+    while remaining > 0, let block = try read(maxFrames: Int(min(remaining, Int64(BLOCK_FRAMES)))) {
+      remaining -= Int64(block.count / channels)
+    }
+  }
+}
+
+// Serialize a format as the body of a 16 byte fmt chunk
+func encodeFmtChunk(_ format: WavFormat) -> Data {
+  var fmtChunk = Data()
+  appendLittleEndian(UInt16(format.audioFormat), to: &fmtChunk)
+  appendLittleEndian(UInt16(format.numChannels), to: &fmtChunk)
+  appendLittleEndian(UInt32(format.sampleRate), to: &fmtChunk)
+  appendLittleEndian(UInt32(format.byteRate), to: &fmtChunk)
+  appendLittleEndian(UInt16(format.blockAlign), to: &fmtChunk)
+  appendLittleEndian(UInt16(format.bitsPerSample), to: &fmtChunk)
+  return fmtChunk
+}
+
+// Writes a WAV file with a placeholder header that is patched with the real
+// sizes when closed. The JUNK chunk reserves room for a ds64 chunk, so files
+// that outgrow the 32-bit RIFF size limit are promoted to RF64 in place. Edits
+// pass the source's fmt chunk so it's kept verbatim.
+final class WavWriter {
+  private let path: String
+  private let format: WavFormat
+  private let fmtChunk: Data
+  private let file: FileHandle
+  private(set) var dataSize: Int64 = 0
+
+  init(path: String, format: WavFormat, fmtChunk: Data? = nil) throws {
+    self.path = path
+    self.format = format
+    self.fmtChunk = fmtChunk ?? encodeFmtChunk(format)
+    guard FileManager.default.createFile(atPath: path, contents: nil, attributes: nil),
+          let file = FileHandle(forUpdatingAtPath: path) else {
+      throw NSError(domain: "AudioutilsModule", code: 7, userInfo: [NSLocalizedDescriptionKey: "Could not create output file"])
+    }
+    self.file = file
+    try file.write(contentsOf: header())
+  }
+
+  func write(_ data: Data) throws {
+    try file.write(contentsOf: data)
+    dataSize += Int64(data.count)
+  }
+
+  func writeSamples(_ samples: [Float]) throws {
+    try write(encodeSamples(samples, format: format))
+  }
+
+  func writeSilence(frames: Int64) throws {
+    var remaining = frames
+    while remaining > 0 {
+      let count = Int(min(remaining, Int64(BLOCK_FRAMES)))
+      try writeSamples([Float](repeating: 0, count: count * format.numChannels))
+      remaining -= Int64(count)
+    }
+  }
+
+  // Copy raw data from another file through a fixed-size buffer
+  func copy(from source: FileHandle, offset: Int64, size: Int64, onRead: (Int64) throws -> Void = { _ in }) throws {
+    try source.seek(toOffset: UInt64(offset))
+    var remaining = size
+    let blockSize = Int64(BLOCK_FRAMES * format.blockAlign)
+    while remaining > 0 {
+      guard let data = try source.read(upToCount: Int(min(remaining, blockSize))), !data.isEmpty else { break }
+      try write(data)
+      try onRead(Int64(data.count))
+      remaining -= Int64(data.count)
+    }
+  }
+
+  // Pad the data chunk to an even size and patch the header
+  func close() throws {
+    if dataSize % 2 == 1 {
+      try file.write(contentsOf: Data([0]))
+    }
+    try file.seek(toOffset: 0)
+    try file.write(contentsOf: header())
+    try file.close()
+  }
+
+  // Close and delete the partial output
+  func abort() {
+    try? file.close()
+    try? FileManager.default.removeItem(atPath: path)
+  }
+
+  private func header() -> Data {
+    let headerSize = HEADER_SIZE_WITHOUT_FMT + Int64(fmtChunk.count + (fmtChunk.count & 1))
+    let riffSize = headerSize - 8 + dataSize + (dataSize & 1)
+    let isRf64 = riffSize > RIFF_SIZE_LIMIT
+    var header = Data()
+
+    // RIFF header
+    header.append((isRf64 ? "RF64" : "RIFF").data(using: .ascii)!)
+    appendLittleEndian(UInt32(isRf64 ? RIFF_SIZE_LIMIT : riffSize), to: &header)
+    header.append("WAVE".data(using: .ascii)!)
+
+    // ds64 chunk, or a JUNK chunk of the same size holding its place
+    header.append((isRf64 ? "ds64" : "JUNK").data(using: .ascii)!)
+    appendLittleEndian(UInt32(28), to: &header)
+    appendLittleEndian(UInt64(isRf64 ? riffSize : 0), to: &header)
+    appendLittleEndian(UInt64(isRf64 ? dataSize : 0), to: &header)
+    appendLittleEndian(UInt64(isRf64 ? dataSize / Int64(format.blockAlign) : 0), to: &header)
+    appendLittleEndian(UInt32(0), to: &header) // No table entries
+
+    // fmt chunk, padded to an even size
+    header.append("fmt ".data(using: .ascii)!)
+    appendLittleEndian(UInt32(fmtChunk.count), to: &header)
+    header.append(fmtChunk)
+    if fmtChunk.count % 2 == 1 {
+      header.append(0)
+    }
+
+    // data chunk header
+    header.append("data".data(using: .ascii)!)
+    appendLittleEndian(UInt32(isRf64 ? RIFF_SIZE_LIMIT : dataSize), to: &header)
+
+    return header
+  }
+}
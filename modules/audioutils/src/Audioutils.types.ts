@@ -1,13 +1,155 @@
-import type { StyleProp, ViewStyle } from "react-native";
+export type AudioutilsModuleEvents = {
+  onProgress: (params: ProgressEventPayload) => void;
+};
 
-export type OnLoadEventPayload = {
-  url: string;
+export type ProgressEventPayload = {
+  /** The `jobId` passed to the operation */
+  jobId: string;
+  /** Bytes of input audio processed so far */
+  bytesProcessed: number;
+  /** Bytes of input audio the operation will process in total */
+  totalBytes: number;
+  /** Index of the input file being processed */
+  fileIndex: number;
+  fileCount: number;
 };
 
-export type AudioutilsModuleEvents = {
-  onChange: (params: ChangeEventPayload) => void;
+export type AudioChunkInfo = {
+  /** Four character chunk id, e.g. "LIST" */
+  id: string;
+  /** Size of the chunk body in bytes */
+  size: number;
+};
+
+export type AudioInfo = {
+  uri: string;
+  durationMs: number;
+  sampleRate: number;
+  numChannels: number;
+  bitsPerSample: number;
+  /** 1 = PCM, 3 = IEEE float (WAVE_FORMAT_EXTENSIBLE is resolved to its sub-format) */
+  audioFormat: number;
+  /** Size of the whole file in bytes */
+  byteSize: number;
+  /** Size of the PCM data in bytes */
+  dataSize: number;
+  /** Chunks other than fmt, data, ds64 and JUNK, e.g. LIST metadata */
+  unknownChunks: AudioChunkInfo[];
+};
+
+export type AudioSegment = {
+  /** The input file this segment came from */
+  uri: string;
+  durationMs: number;
+  /** Start offset of the segment in the joined audio */
+  startMs: number;
+  /** End offset of the segment in the joined audio */
+  endMs: number;
+  /** Leading silence removed when joining with `trimSilence` */
+  trimmedStartMs?: number;
+  /** Trailing silence removed when joining with `trimSilence` */
+  trimmedEndMs?: number;
+};
+
+export type JoinAudioFilesResult = {
+  /** Path to the joined audio file */
+  uri: string;
+  /** Where each input file ended up in the joined audio, in input order */
+  segments: AudioSegment[];
+};
+
+export type CrossfadeCurve = "linear" | "equalPower";
+
+export type JoinAudioFilesOptions = {
+  /** Silence inserted between segments, in milliseconds. Can't be combined with `crossfade` */
+  gapMs?: number;
+  /** Overlap consecutive segments, fading one out while the next fades in */
+  crossfade?: {
+    durationMs: number;
+    /** Default: "equalPower" */
+    curve?: CrossfadeCurve;
+  };
+  /** Linear ramp applied to the start of every segment, in milliseconds */
+  fadeInMs?: number;
+  /** Linear ramp applied to the end of every segment, in milliseconds */
+  fadeOutMs?: number;
+  /** Trim leading and trailing silence from every segment (pass `{}` for the defaults) */
+  trimSilence?: TrimSilenceOptions;
+  /** Report progress as `onProgress` events and allow cancelling with `cancelJob` */
+  jobId?: string;
+};
+
+export type TrimSilenceOptions = {
+  /** Level in dBFS below which a window counts as silence. Default: -40 */
+  thresholdDb?: number;
+  /** Length of the analysis windows, in milliseconds. Default: 20 */
+  windowMs?: number;
+  /** Silence kept before and after the detected speech, in milliseconds. Default: 100 */
+  paddingMs?: number;
+};
+
+export type TrimSilenceResult = {
+  /** Path to the trimmed audio file */
+  uri: string;
+  /** Leading silence that was removed, in milliseconds */
+  trimmedStartMs: number;
+  /** Trailing silence that was removed, in milliseconds */
+  trimmedEndMs: number;
+  /** Duration of the trimmed audio, in milliseconds */
+  durationMs: number;
+};
+
+export type AudioFilePart = {
+  /** Path to the part's audio file */
+  uri: string;
+  /** Start of the part in the original audio, in milliseconds */
+  startMs: number;
+  /** End of the part in the original audio, in milliseconds */
+  endMs: number;
+  durationMs: number;
+};
+
+export type SplitAudioFileResult = {
+  /** One part per range between offsets, in order */
+  parts: AudioFilePart[];
+};
+
+export type CutRangeResult = {
+  /** Path to the edited audio file */
+  uri: string;
+  /** Duration of the edited audio, in milliseconds */
+  durationMs: number;
+  /** Audio that was removed, in milliseconds */
+  removedMs: number;
+};
+
+export type WaveformPeaksResult = {
+  /** Duration of the audio, in milliseconds */
+  durationMs: number;
+  /** Lowest sample of each bucket, from -1 to 0 */
+  min: number[];
+  /** Highest sample of each bucket, from 0 to 1 */
+  max: number[];
+};
+
+/** flac: lossless FLAC. m4a: AAC-LC in an MPEG-4 container, not available on web */
+export type ExportAudioFormat = "flac" | "m4a";
+
+export type ExportAudioOptions = {
+  format: ExportAudioFormat;
+  /** Target bit rate of m4a exports, in bits per second. Default: 64000 */
+  bitRate?: number;
+  /** Report progress as `onProgress` events and allow cancelling with `cancelJob` */
+  jobId?: string;
 };
 
-export type ChangeEventPayload = {
-  value: string;
+export type ExportAudioResult = {
+  /** Path to the exported audio file */
+  uri: string;
+  format: ExportAudioFormat;
+  /** MIME type to share the file with, e.g. "audio/flac" */
+  mimeType: string;
+  /** Size of the exported file in bytes */
+  byteSize: number;
+  durationMs: number;
 };
@@ -1,14 +1,110 @@
 import { NativeModule, requireNativeModule } from "expo";
 
-import { AudioutilsModuleEvents } from "./Audioutils.types";
+import {
+  AudioInfo,
+  AudioutilsModuleEvents,
+  CutRangeResult,
+  ExportAudioOptions,
+  ExportAudioResult,
+  JoinAudioFilesOptions,
+  JoinAudioFilesResult,
+  SplitAudioFileResult,
+  TrimSilenceOptions,
+  TrimSilenceResult,
+  WaveformPeaksResult,
+} from "./Audioutils.types";
 
 declare class AudioutilsModule extends NativeModule<AudioutilsModuleEvents> {
   /**
-   * Join audio files into a single audio file
+   * Join audio files into a single audio file. Files whose sample rate, channel
+   * count or bit depth differ from the first file are converted to its format.
+   * Rejects with `ERR_INCOMPATIBLE_AUDIO_FORMAT` naming the file when an input
+   * can't be decoded.
    * @param audioFiles - Array of audio file paths (.wav files)
-   * @returns Path to the joined audio file
+   * @param options - Gaps, crossfades and fade ramps between segments, and a
+   * `jobId` to follow progress and cancel the join
+   * @returns Path to the joined audio file and the offset of each input in it
    */
-  joinAudioFiles(audioFiles: string[]): Promise<string>;
+  joinAudioFiles(
+    audioFiles: string[],
+    options?: JoinAudioFilesOptions
+  ): Promise<JoinAudioFilesResult>;
+
+  /**
+   * Read the format, duration and size of an audio file from its header
+   * @param uri - Path to the audio file (.wav file)
+   * @returns Duration, format, sizes and any RIFF chunks the parser doesn't know
+   */
+  getAudioInfo(uri: string): Promise<AudioInfo>;
+
+  /**
+   * Compute min/max peaks of an audio file for drawing its waveform. The data
+   * chunk is streamed, so long recordings aren't loaded into memory.
+   * @param uri - Path to the audio file (.wav file)
+   * @param buckets - Number of equally long buckets to split the audio into,
+   * e.g. one per bar of the waveform
+   * @returns The duration and the lowest and highest sample of each bucket
+   */
+  getWaveformPeaks(uri: string, buckets: number): Promise<WaveformPeaksResult>;
+
+  /**
+   * Abort a running job. The job rejects with `ERR_JOB_CANCELLED` and any
+   * partial output is deleted.
+   * @param jobId - The `jobId` passed to the operation
+   */
+  cancelJob(jobId: string): void;
+
+  /**
+   * Remove leading and trailing silence from an audio file
+   * @param uri - Path to the audio file (.wav file)
+   * @param options - Detection threshold, window size and padding
+   * @returns Path to a new trimmed audio file and how much was removed
+   */
+  trimSilence(
+    uri: string,
+    options?: TrimSilenceOptions
+  ): Promise<TrimSilenceResult>;
+
+  /**
+   * Split an audio file into parts. The data is copied as is and every part
+   * keeps the original fmt chunk.
+   * @param uri - Path to the audio file (.wav file)
+   * @param offsetsMs - Where to split, in milliseconds from the start. Each
+   * offset must fall inside the audio.
+   * @returns Paths to the new part files and their position in the original
+   */
+  splitAudioFile(
+    uri: string,
+    offsetsMs: number[]
+  ): Promise<SplitAudioFileResult>;
+
+  /**
+   * Remove a range from an audio file, e.g. a false start. The data is copied
+   * as is and the fmt chunk is kept.
+   * @param uri - Path to the audio file (.wav file)
+   * @param startMs - Start of the range to remove
+   * @param endMs - End of the range to remove, clamped to the end of the audio
+   * @returns Path to a new audio file without the range
+   */
+  cutRange(
+    uri: string,
+    startMs: number,
+    endMs: number
+  ): Promise<CutRangeResult>;
+
+  /**
+   * Encode an audio file to a compressed format for sharing. The WAV file is
+   * kept as is, the export is written next to it. FLAC is encoded by the
+   * module itself, m4a by the platform's AAC encoder.
+   * @param uri - Path to the audio file (.wav file)
+   * @param options - Output format, m4a bit rate and a `jobId` to follow
+   * progress and cancel the export
+   * @returns Path, MIME type and size of the exported file
+   */
+  exportAudio(
+    uri: string,
+    options: ExportAudioOptions
+  ): Promise<ExportAudioResult>;
 }
 
 // This call loads the native module object from the JSI.
@@ -1,15 +1,291 @@
 import { registerWebModule, NativeModule } from "expo";
 
-import { ChangeEventPayload } from "./Audioutils.types";
+import {
+  AudioInfo,
+  AudioutilsModuleEvents,
+  CutRangeResult,
+  ExportAudioOptions,
+  ExportAudioResult,
+  JoinAudioFilesOptions,
+  JoinAudioFilesResult,
+  SplitAudioFileResult,
+  TrimSilenceOptions,
+  TrimSilenceResult,
+  WaveformPeaksResult,
+} from "./Audioutils.types";
+import {
+  IncompatibleAudioFormatError,
+  isJobCancelledError,
+  JobCancelledError,
+} from "./errors";
+import { encodeFlacBlocks } from "./flac";
+import {
+  cutWav,
+  joinWavs,
+  readAudioInfo,
+  splitWav,
+  trimWav,
+  wavPeaks,
+} from "./wav";
 
-type AudioutilsModuleEvents = {
-  onChange: (params: ChangeEventPayload) => void;
+// Read a file (blob:, data: or http(s): URL) into memory
+const readAudioFile = async (uri: string): Promise<Uint8Array> => {
+  const response = await fetch(uri);
+  if (!response.ok) {
+    throw new Error(`Audio file not found: ${uri}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
 };
 
+// FLAC blocks encoded between checks for cancellation, about a second of
+// audio at 44.1 kHz
+const BLOCKS_PER_STEP = 10;
+
+// Let other tasks run, e.g. a click that cancels the job
+const yieldToEventLoop = () =>
+  new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+// Results are object URLs, which can be used directly as a player source.
+// They belong to the caller, who revokes them with `URL.revokeObjectURL` once
+// they're no longer played or shared, e.g. when a new result replaces them.
+const toObjectUrl = (bytes: Uint8Array, type: string) =>
+  URL.createObjectURL(new Blob([bytes], { type }));
+
 class AudioutilsModule extends NativeModule<AudioutilsModuleEvents> {
   PI = Math.PI;
-  async joinAudioFiles(audioFiles: string[]): Promise<string> {
-    return Promise.resolve("");
+
+  // Ids of the jobs that are running, and of those cancelJob was called for.
+  // Running jobs check for cancellation between steps and remove their ids
+  // once they settle.
+  private runningJobs = new Set<string>();
+  private cancelledJobs = new Set<string>();
+
+  // Track a job until it settles, and throw once it was cancelled
+  private startJob(jobId: string | undefined) {
+    if (jobId !== undefined) {
+      this.runningJobs.add(jobId);
+    }
+    return {
+      throwIfCancelled: () => {
+        if (jobId !== undefined && this.cancelledJobs.has(jobId)) {
+          throw new JobCancelledError(jobId);
+        }
+      },
+      finish: () => {
+        if (jobId !== undefined) {
+          this.runningJobs.delete(jobId);
+          this.cancelledJobs.delete(jobId);
+        }
+      },
+    };
+  }
+
+  async joinAudioFiles(
+    audioFiles: string[],
+    options?: JoinAudioFilesOptions
+  ): Promise<JoinAudioFilesResult> {
+    if (audioFiles.length === 0) {
+      throw new Error("No audio files provided");
+    }
+
+    const jobId = options?.jobId;
+    const { throwIfCancelled, finish } = this.startJob(jobId);
+
+    try {
+      // Files are fetched one at a time so progress can be reported, the
+      // join itself happens in memory once everything has been read
+      const files: Uint8Array[] = [];
+      let bytesProcessed = 0;
+      for (const [fileIndex, uri] of audioFiles.entries()) {
+        throwIfCancelled();
+        const file = await readAudioFile(uri);
+        files.push(file);
+        bytesProcessed += file.length;
+        if (jobId !== undefined) {
+          this.emit("onProgress", {
+            jobId,
+            bytesProcessed,
+            // Estimated from the files fetched so far
+            totalBytes: Math.round(
+              (bytesProcessed / (fileIndex + 1)) * audioFiles.length
+            ),
+            fileIndex,
+            fileCount: audioFiles.length,
+          });
+        }
+      }
+      throwIfCancelled();
+      const { bytes, segments } = joinWavs(files, audioFiles, options);
+
+      return { uri: toObjectUrl(bytes, "audio/wav"), segments };
+    } catch (error) {
+      if (
+        error instanceof IncompatibleAudioFormatError ||
+        isJobCancelledError(error)
+      ) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to join audio files: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    } finally {
+      finish();
+    }
+  }
+
+  async getAudioInfo(uri: string): Promise<AudioInfo> {
+    try {
+      return { uri, ...readAudioInfo(await readAudioFile(uri)) };
+    } catch (error) {
+      throw new Error(
+        `Failed to read audio info: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  async getWaveformPeaks(
+    uri: string,
+    buckets: number
+  ): Promise<WaveformPeaksResult> {
+    try {
+      return wavPeaks(await readAudioFile(uri), buckets);
+    } catch (error) {
+      throw new Error(
+        `Failed to compute waveform peaks: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  cancelJob(jobId: string): void {
+    // Jobs that aren't running have nothing to cancel
+    if (this.runningJobs.has(jobId)) {
+      this.cancelledJobs.add(jobId);
+    }
+  }
+
+  async trimSilence(
+    uri: string,
+    options?: TrimSilenceOptions
+  ): Promise<TrimSilenceResult> {
+    try {
+      const { bytes, ...result } = trimWav(await readAudioFile(uri), options);
+      return { uri: toObjectUrl(bytes, "audio/wav"), ...result };
+    } catch (error) {
+      throw new Error(
+        `Failed to trim silence: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  async splitAudioFile(
+    uri: string,
+    offsetsMs: number[]
+  ): Promise<SplitAudioFileResult> {
+    try {
+      const parts = splitWav(await readAudioFile(uri), offsetsMs);
+      return {
+        parts: parts.map(({ bytes, ...part }) => ({
+          uri: toObjectUrl(bytes, "audio/wav"),
+          ...part,
+        })),
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to split audio file: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  async cutRange(
+    uri: string,
+    startMs: number,
+    endMs: number
+  ): Promise<CutRangeResult> {
+    try {
+      const { bytes, ...result } = cutWav(
+        await readAudioFile(uri),
+        startMs,
+        endMs
+      );
+      return { uri: toObjectUrl(bytes, "audio/wav"), ...result };
+    } catch (error) {
+      throw new Error(
+        `Failed to cut range: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  async exportAudio(
+    uri: string,
+    options: ExportAudioOptions
+  ): Promise<ExportAudioResult> {
+    const jobId = options.jobId;
+    const { throwIfCancelled, finish } = this.startJob(jobId);
+    try {
+      // Browsers can decode AAC but offer no way to encode a file to it
+      if (options.format !== "flac") {
+        throw new Error(`${options.format} export isn't supported on web`);
+      }
+
+      const bytes = await readAudioFile(uri);
+      const reportProgress = (bytesProcessed: number) => {
+        if (jobId !== undefined) {
+          this.emit("onProgress", {
+            jobId,
+            bytesProcessed,
+            totalBytes: bytes.length,
+            fileIndex: 0,
+            fileCount: 1,
+          });
+        }
+      };
+      reportProgress(0);
+      throwIfCancelled();
+
+      // Encode in steps, so the job can be cancelled while it runs
+      const blocks = encodeFlacBlocks(bytes);
+      let result = blocks.next();
+      for (let blockCount = 1; !result.done; blockCount++) {
+        if (blockCount % BLOCKS_PER_STEP === 0) {
+          reportProgress(result.value);
+          await yieldToEventLoop();
+          throwIfCancelled();
+        }
+        result = blocks.next();
+      }
+      const flac = result.value;
+      reportProgress(bytes.length);
+      return {
+        uri: toObjectUrl(flac, "audio/flac"),
+        format: "flac",
+        mimeType: "audio/flac",
+        byteSize: flac.length,
+        durationMs: readAudioInfo(bytes).durationMs,
+      };
+    } catch (error) {
+      if (isJobCancelledError(error)) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to export audio: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    } finally {
+      finish();
+    }
   }
 }
 
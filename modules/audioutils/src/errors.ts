@@ -0,0 +1,52 @@
+// Error codes shared by the native and web implementations. Native rejections
+// surface as `CodedError`s with the same `code`.
+export const ERR_INCOMPATIBLE_AUDIO_FORMAT = "ERR_INCOMPATIBLE_AUDIO_FORMAT";
+export const ERR_JOB_CANCELLED = "ERR_JOB_CANCELLED";
+
+/**
+ * Thrown when an input file can't be decoded or converted to the join format
+ */
+export class IncompatibleAudioFormatError extends Error {
+  readonly code = ERR_INCOMPATIBLE_AUDIO_FORMAT;
+
+  constructor(readonly file: string, reason: string) {
+    super(`Incompatible audio format in ${file}: ${reason}`);
+    this.name = "IncompatibleAudioFormatError";
+  }
+}
+
+/**
+ * Check whether an error names a file that can't be decoded, from either the
+ * native or the web implementation
+ */
+export function isIncompatibleAudioFormatError(
+  error: unknown
+): error is Error & { code: typeof ERR_INCOMPATIBLE_AUDIO_FORMAT } {
+  return (
+    error instanceof Error &&
+    (error as { code?: string }).code === ERR_INCOMPATIBLE_AUDIO_FORMAT
+  );
+}
+
+/**
+ * Thrown when a job is aborted with `cancelJob`
+ */
+export class JobCancelledError extends Error {
+  readonly code = ERR_JOB_CANCELLED;
+
+  constructor(readonly jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = "JobCancelledError";
+  }
+}
+
+/**
+ * Check whether an error is a cancellation, from either the native or the web
+ * implementation
+ */
+export function isJobCancelledError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error as { code?: string }).code === ERR_JOB_CANCELLED
+  );
+}
@@ -0,0 +1,236 @@
+import { encodeFlac, encodeFlacBlocks, flacBitsPerSample } from "./flac";
+import {
+  encodeFmtChunk,
+  makeFormat,
+  WAVE_FORMAT_IEEE_FLOAT,
+  WAVE_FORMAT_PCM,
+} from "./pcm";
+import { writeWav } from "./wav";
+
+// Reads big-endian bit fields, the counterpart of the encoder's BitWriter
+class BitReader {
+  position = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  read(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      const byte = this.bytes[this.position >> 3];
+      value = value * 2 + ((byte >> (7 - (this.position & 7))) & 1);
+      this.position++;
+    }
+    return value;
+  }
+
+  readSigned(bits: number): number {
+    const value = this.read(bits);
+    return value >= 2 ** (bits - 1) ? value - 2 ** bits : value;
+  }
+
+  readUnary(): number {
+    let zeros = 0;
+    while (this.read(1) === 0) zeros++;
+    return zeros;
+  }
+
+  align() {
+    this.position = Math.ceil(this.position / 8) * 8;
+  }
+}
+
+// Coefficients of the fixed predictors, newest sample first
+const FIXED_COEFFICIENTS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]];
+
+const readSubframe = (
+  reader: BitReader,
+  blockSize: number,
+  bitsPerSample: number
+): number[] => {
+  reader.read(1);
+  const type = reader.read(6);
+  reader.read(1);
+  if (type === 0) {
+    return new Array(blockSize).fill(reader.readSigned(bitsPerSample));
+  }
+  if (type === 1) {
+    return Array.from({ length: blockSize }, () =>
+      reader.readSigned(bitsPerSample)
+    );
+  }
+  if ((type & 0b111000) !== 0b001000) {
+    throw new Error(`Unexpected subframe type ${type}`);
+  }
+
+  const order = type & 0b111;
+  const samples = Array.from({ length: order }, () =>
+    reader.readSigned(bitsPerSample)
+  );
+  expect(reader.read(2)).toBe(0);
+  const partitionOrder = reader.read(4);
+  const partitionSize = blockSize >> partitionOrder;
+  const residual: number[] = [];
+  for (let partition = 0; partition < 1 << partitionOrder; partition++) {
+    const parameter = reader.read(4);
+    const count = partition === 0 ? partitionSize - order : partitionSize;
+    for (let i = 0; i < count; i++) {
+      const folded =
+        reader.readUnary() * 2 ** parameter + reader.read(parameter);
+      residual.push(folded % 2 ? -(folded + 1) / 2 : folded / 2);
+    }
+  }
+  for (const value of residual) {
+    const n = samples.length;
+    samples.push(
+      FIXED_COEFFICIENTS[order].reduce(
+        (sum, coefficient, i) => sum + coefficient * samples[n - 1 - i],
+        value
+      )
+    );
+  }
+  return samples;
+};
+
+// Decode what encodeFlac writes: STREAMINFO, then fixed block size frames of
+// independent channels
+const decodeFlac = (bytes: Uint8Array) => {
+  const reader = new BitReader(bytes);
+  expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe("fLaC");
+  reader.position = 8 * 8;
+  const info = {
+    minBlockSize: reader.read(16),
+    maxBlockSize: reader.read(16),
+    minFrameSize: reader.read(24),
+    maxFrameSize: reader.read(24),
+    sampleRate: reader.read(20),
+    numChannels: reader.read(3) + 1,
+    bitsPerSample: reader.read(5) + 1,
+    totalFrames: reader.read(36),
+  };
+  reader.position = 42 * 8;
+
+  const channels: number[][] = Array.from(
+    { length: info.numChannels },
+    () => []
+  );
+  let frameNumber = 0;
+  while (reader.position < bytes.length * 8) {
+    expect(reader.read(16)).toBe(0xfff8);
+    reader.read(8);
+    expect(reader.read(4)).toBe(info.numChannels - 1);
+    reader.read(4);
+    // Frame number, coded like a UTF-8 character
+    const first = reader.read(8);
+    let number = first;
+    if (first >= 0x80) {
+      let continuationBytes = 0;
+      while (first & (0x40 >> continuationBytes)) continuationBytes++;
+      number = first & (0x3f >> continuationBytes);
+      for (let i = 0; i < continuationBytes; i++) {
+        number = number * 64 + (reader.read(8) & 0x3f);
+      }
+    }
+    expect(number).toBe(frameNumber++);
+    const blockSize = reader.read(16) + 1;
+    reader.read(8);
+    for (const channel of channels) {
+      channel.push(...readSubframe(reader, blockSize, info.bitsPerSample));
+    }
+    reader.align();
+    reader.read(16);
+  }
+  return { info, channels };
+};
+
+const wavOf = (
+  samples: number[],
+  numChannels: number,
+  bitsPerSample: 8 | 16 | 24
+) => {
+  const format = makeFormat(WAVE_FORMAT_PCM, numChannels, 8000, bitsPerSample);
+  const data = new Uint8Array(samples.length * (bitsPerSample / 8));
+  const view = new DataView(data.buffer);
+  samples.forEach((sample, i) => {
+    if (bitsPerSample === 8) {
+      view.setUint8(i, sample + 128);
+    } else if (bitsPerSample === 16) {
+      view.setInt16(i * 2, sample, true);
+    } else {
+      view.setUint16(i * 3, sample & 0xffff, true);
+      view.setInt8(i * 3 + 2, sample >> 16);
+    }
+  });
+  return writeWav(encodeFmtChunk(format), [data]);
+};
+
+// A tone with some noise, which every predictor order is tried on
+const tone = (frames: number, amplitude: number) =>
+  Array.from({ length: frames }, (_, i) =>
+    Math.round(amplitude * Math.sin(i / 7) + ((i * 7919) % 13) - 6)
+  );
+
+const interleave = (channels: number[][]) =>
+  channels[0].flatMap((_, i) => channels.map((channel) => channel[i]));
+
+describe("encodeFlac", () => {
+  it("decodes back to the 16-bit samples, smaller than the WAV", () => {
+    // More than one block, the last one shorter
+    const samples = tone(10_000, 8000);
+    const wav = wavOf(samples, 1, 16);
+    const flac = encodeFlac(wav);
+
+    const { info, channels } = decodeFlac(flac);
+    expect(info).toMatchObject({
+      minBlockSize: 4096,
+      maxBlockSize: 4096,
+      sampleRate: 8000,
+      numChannels: 1,
+      bitsPerSample: 16,
+      totalFrames: 10_000,
+    });
+    expect(channels[0]).toEqual(samples);
+    expect(flac.length).toBeLessThan(wav.length * 0.75);
+  });
+
+  it("keeps the channels of stereo 24-bit audio apart", () => {
+    const left = tone(3000, 2_000_000);
+    const right = left.map((sample) => -sample);
+    const { info, channels } = decodeFlac(
+      encodeFlac(wavOf(interleave([left, right]), 2, 24))
+    );
+    expect(info).toMatchObject({ numChannels: 2, bitsPerSample: 24 });
+    expect(channels).toEqual([left, right]);
+  });
+
+  it("codes silence and 8-bit audio", () => {
+    const samples = [...new Array(100).fill(0), 127, -128, 5, -5];
+    const { channels } = decodeFlac(encodeFlac(wavOf(samples, 1, 8)));
+    expect(channels[0]).toEqual(samples);
+  });
+
+  it("stores float audio with 24 bits", () => {
+    const format = makeFormat(WAVE_FORMAT_IEEE_FLOAT, 1, 8000, 32);
+    expect(flacBitsPerSample(format)).toBe(24);
+    const wav = writeWav(encodeFmtChunk(format), [
+      new Uint8Array(new Float32Array([0, 0.5, -1, 2]).buffer),
+    ]);
+    const { info, channels } = decodeFlac(encodeFlac(wav));
+    expect(info.bitsPerSample).toBe(24);
+    // Out of range samples are clamped
+    expect(channels[0]).toEqual([0, 2 ** 22, -(2 ** 23), 2 ** 23 - 1]);
+  });
+});
+
+describe("encodeFlacBlocks", () => {
+  it("reports the audio data encoded after every block", () => {
+    const blocks = encodeFlacBlocks(wavOf(tone(10_000, 100), 1, 16));
+    const progress: number[] = [];
+    let result = blocks.next();
+    while (!result.done) {
+      progress.push(result.value);
+      result = blocks.next();
+    }
+    expect(progress).toEqual([4096 * 2, 8192 * 2, 10_000 * 2]);
+    expect(decodeFlac(result.value).info.totalFrames).toBe(10_000);
+  });
+});
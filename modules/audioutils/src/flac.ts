@@ -0,0 +1,421 @@
+// Pure TypeScript FLAC encoder. Frames use FLAC's fixed polynomial predictors
+// with Rice coded residuals, which gets most of the compression of a full LPC
+// encoder on speech at a fraction of the cost. Mirrors FlacEncoder.kt.
+
+import type { WavFormat } from "./wav";
+import { decodeSamples, isSupportedFormat, WAVE_FORMAT_PCM } from "./pcm";
+import { parseWav } from "./wav";
+
+// Samples per channel in every frame but the last
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 8;
+// Rice parameter 15 is the escape code, which this encoder doesn't use
+const MAX_RICE_PARAMETER = 14;
+// "fLaC" marker, STREAMINFO block header and body
+const HEADER_SIZE = 4 + 4 + 34;
+
+// Writes big-endian bit fields into a growing byte buffer
+class BitWriter {
+  bytes = new Uint8Array(8192);
+  length = 0;
+  private acc = 0;
+  private accBits = 0;
+
+  /** Write the low `bits` bits of a value, negative values as two's complement */
+  write(value: number, bits: number) {
+    // Kept to 24 bits at a time so the accumulator stays within 31 bits
+    if (bits > 24) {
+      this.write(Math.floor(value / 0x10000), bits - 16);
+      this.write(value & 0xffff, 16);
+      return;
+    }
+    this.acc = (this.acc << bits) | (value & ((1 << bits) - 1));
+    this.accBits += bits;
+    while (this.accBits >= 8) {
+      this.accBits -= 8;
+      this.push((this.acc >>> this.accBits) & 0xff);
+    }
+    this.acc &= (1 << this.accBits) - 1;
+  }
+
+  /** Write a number of zero bits followed by a one */
+  writeUnary(zeros: number) {
+    for (; zeros >= 24; zeros -= 24) {
+      this.write(0, 24);
+    }
+    this.write(1, zeros + 1);
+  }
+
+  /** Pad with zero bits to the next byte boundary */
+  align() {
+    if (this.accBits > 0) {
+      this.write(0, 8 - this.accBits);
+    }
+  }
+
+  toBytes(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+
+  private push(byte: number) {
+    if (this.length === this.bytes.length) {
+      const bytes = new Uint8Array(this.bytes.length * 2);
+      bytes.set(this.bytes);
+      this.bytes = bytes;
+    }
+    this.bytes[this.length++] = byte;
+  }
+}
+
+// CRC-8 (polynomial 0x07) of the frame header
+const crc8 = (bytes: Uint8Array, length: number) => {
+  let crc = 0;
+  for (let i = 0; i < length; i++) {
+    crc ^= bytes[i];
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+};
+
+// CRC-16 (polynomial 0x8005) of the whole frame
+const crc16 = (bytes: Uint8Array, length: number) => {
+  let crc = 0;
+  for (let i = 0; i < length; i++) {
+    crc ^= bytes[i] << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+};
+
+/**
+ * Bit depth a format is stored with in FLAC. Float and 32-bit PCM audio is
+ * reduced to 24 bits.
+ */
+export function flacBitsPerSample(format: WavFormat): number {
+  return format.audioFormat === WAVE_FORMAT_PCM && format.bitsPerSample <= 24
+    ? format.bitsPerSample
+    : 24;
+}
+
+// Residual of the fixed predictor of the given order
+const fixedResidual = (s: Int32Array, order: number) => {
+  const residual = new Int32Array(s.length - order);
+  for (let i = order; i < s.length; i++) {
+    switch (order) {
+      case 0:
+        residual[i] = s[i];
+        break;
+      case 1:
+        residual[i - 1] = s[i] - s[i - 1];
+        break;
+      case 2:
+        residual[i - 2] = s[i] - 2 * s[i - 1] + s[i - 2];
+        break;
+      case 3:
+        residual[i - 3] = s[i] - 3 * s[i - 1] + 3 * s[i - 2] - s[i - 3];
+        break;
+      default:
+        residual[i - 4] =
+          s[i] - 4 * s[i - 1] + 6 * s[i - 2] - 4 * s[i - 3] + s[i - 4];
+    }
+  }
+  return residual;
+};
+
+// Residuals are Rice coded as unsigned values: 0, -1, 1, -2, 2...
+const fold = (value: number) => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+// Estimated size in bits and best Rice parameter for a partition, given the
+// sum of its folded residuals
+const riceCost = (sum: number, count: number) => {
+  let best = { bits: Infinity, parameter: 0 };
+  for (let parameter = 0; parameter <= MAX_RICE_PARAMETER; parameter++) {
+    const bits = count * (parameter + 1) + Math.floor(sum / 2 ** parameter);
+    if (bits < best.bits) {
+      best = { bits, parameter };
+    }
+  }
+  return best;
+};
+
+// Pick the partition order and Rice parameters that code a residual in the
+// fewest bits
+const planResidual = (
+  residual: Int32Array,
+  blockSize: number,
+  order: number
+) => {
+  let best = { bits: Infinity, partitionOrder: 0, parameters: [0] };
+  for (
+    let partitionOrder = 0;
+    partitionOrder <= MAX_PARTITION_ORDER;
+    partitionOrder++
+  ) {
+    const partitionSize = blockSize >> partitionOrder;
+    // Every partition must be the same size, and the first one also holds
+    // the warm-up samples
+    if (blockSize % (1 << partitionOrder) !== 0 || partitionSize <= order) {
+      break;
+    }
+    let bits = 2 + 4;
+    const parameters: number[] = [];
+    let start = 0;
+    for (let partition = 0; partition < 1 << partitionOrder; partition++) {
+      const end = (partition + 1) * partitionSize - order;
+      let sum = 0;
+      for (let i = start; i < end; i++) {
+        sum += fold(residual[i]);
+      }
+      const cost = riceCost(sum, end - start);
+      bits += 4 + cost.bits;
+      parameters.push(cost.parameter);
+      start = end;
+    }
+    if (bits < best.bits) {
+      best = { bits, partitionOrder, parameters };
+    }
+  }
+  return best;
+};
+
+const writeResidual = (
+  writer: BitWriter,
+  residual: Int32Array,
+  plan: ReturnType<typeof planResidual>,
+  blockSize: number,
+  order: number
+) => {
+  // Rice coding with 4-bit parameters
+  writer.write(0, 2);
+  writer.write(plan.partitionOrder, 4);
+  const partitionSize = blockSize >> plan.partitionOrder;
+  let start = 0;
+  for (const [partition, parameter] of plan.parameters.entries()) {
+    const end = (partition + 1) * partitionSize - order;
+    writer.write(parameter, 4);
+    for (let i = start; i < end; i++) {
+      const value = fold(residual[i]);
+      writer.writeUnary(Math.floor(value / 2 ** parameter));
+      if (parameter > 0) {
+        writer.write(value & ((1 << parameter) - 1), parameter);
+      }
+    }
+    start = end;
+  }
+};
+
+// Write one channel of a frame as a constant, fixed predictor or verbatim
+// subframe, whichever is smallest
+const writeSubframe = (
+  writer: BitWriter,
+  samples: Int32Array,
+  bitsPerSample: number
+) => {
+  const blockSize = samples.length;
+  if (samples.every((sample) => sample === samples[0])) {
+    writer.write(0b00000000, 8);
+    writer.write(samples[0], bitsPerSample);
+    return;
+  }
+
+  let best: {
+    order: number;
+    residual: Int32Array;
+    plan: ReturnType<typeof planResidual>;
+  } | null = null;
+  for (
+    let order = 0;
+    order <= Math.min(MAX_FIXED_ORDER, blockSize - 1);
+    order++
+  ) {
+    const residual = fixedResidual(samples, order);
+    const plan = planResidual(residual, blockSize, order);
+    plan.bits += order * bitsPerSample;
+    if (!best || plan.bits < best.plan.bits) {
+      best = { order, residual, plan };
+    }
+  }
+
+  if (!best || best.plan.bits >= blockSize * bitsPerSample) {
+    writer.write(0b00000010, 8);
+    for (const sample of samples) {
+      writer.write(sample, bitsPerSample);
+    }
+    return;
+  }
+
+  writer.write(0b00010000 | (best.order << 1), 8);
+  for (let i = 0; i < best.order; i++) {
+    writer.write(samples[i], bitsPerSample);
+  }
+  writeResidual(writer, best.residual, best.plan, blockSize, best.order);
+};
+
+// Frame numbers are coded like UTF-8 characters
+const writeFrameNumber = (writer: BitWriter, frameNumber: number) => {
+  if (frameNumber < 0x80) {
+    writer.write(frameNumber, 8);
+    return;
+  }
+  let continuationBytes = 1;
+  while (frameNumber >= 2 ** (6 * continuationBytes + 6 - continuationBytes)) {
+    continuationBytes++;
+  }
+  const prefix = (0xff00 >> (continuationBytes + 1)) & 0xff;
+  writer.write(prefix | (frameNumber >>> (6 * continuationBytes)), 8);
+  for (let i = continuationBytes - 1; i >= 0; i--) {
+    writer.write(0x80 | ((frameNumber >>> (6 * i)) & 0x3f), 8);
+  }
+};
+
+// Sample size codes of the frame header, 0 means "see STREAMINFO"
+const SAMPLE_SIZE_CODES: Record<number, number> = { 8: 1, 16: 4, 24: 6 };
+
+const encodeFrame = (
+  channels: Int32Array[],
+  frameNumber: number,
+  bitsPerSample: number
+): Uint8Array => {
+  const blockSize = channels[0].length;
+  const writer = new BitWriter();
+
+  // Sync code, fixed block size stream
+  writer.write(0xfff8, 16);
+  // Block size as a 16-bit value at the end of the header, sample rate
+  // from STREAMINFO
+  writer.write(0b0111, 4);
+  writer.write(0b0000, 4);
+  // Independent channels
+  writer.write(channels.length - 1, 4);
+  writer.write(SAMPLE_SIZE_CODES[bitsPerSample] ?? 0, 3);
+  writer.write(0, 1);
+  writeFrameNumber(writer, frameNumber);
+  writer.write(blockSize - 1, 16);
+  writer.write(crc8(writer.bytes, writer.length), 8);
+
+  for (const samples of channels) {
+    writeSubframe(writer, samples, bitsPerSample);
+  }
+  writer.align();
+  writer.write(crc16(writer.bytes, writer.length), 16);
+  return writer.toBytes();
+};
+
+const encodeHeader = (
+  format: WavFormat,
+  bitsPerSample: number,
+  totalFrames: number,
+  minFrameSize: number,
+  maxFrameSize: number
+): Uint8Array => {
+  const writer = new BitWriter();
+  for (const char of "fLaC") {
+    writer.write(char.charCodeAt(0), 8);
+  }
+  // Last metadata block, type STREAMINFO
+  writer.write(0x80, 8);
+  writer.write(34, 24);
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(minFrameSize, 24);
+  writer.write(maxFrameSize, 24);
+  writer.write(format.sampleRate, 20);
+  writer.write(format.numChannels - 1, 3);
+  writer.write(bitsPerSample - 1, 5);
+  writer.write(Math.floor(totalFrames / 2 ** 32), 4);
+  writer.write(totalFrames >>> 0, 32);
+  // MD5 of the audio, all zeros means it wasn't computed
+  for (let i = 0; i < 16; i++) {
+    writer.write(0, 8);
+  }
+  return writer.toBytes();
+};
+
+/**
+ * Encode a WAV file as FLAC
+ * @param bytes - Contents of the WAV file
+ * @returns Contents of the FLAC file
+ */
+export function encodeFlac(bytes: Uint8Array): Uint8Array {
+  const blocks = encodeFlacBlocks(bytes);
+  let result = blocks.next();
+  while (!result.done) {
+    result = blocks.next();
+  }
+  return result.value;
+}
+
+/**
+ * Encode a WAV file as FLAC one block at a time, so long files can be
+ * encoded in steps and stopped in between
+ * @param bytes - Contents of the WAV file
+ * @returns Yields the number of bytes of audio data encoded so far after
+ * every block, and returns the contents of the FLAC file
+ */
+export function* encodeFlacBlocks(
+  bytes: Uint8Array
+): Generator<number, Uint8Array> {
+  const { format, data } = parseWav(bytes);
+  if (!isSupportedFormat(format)) {
+    throw new Error(
+      `Unsupported encoding (format ${format.audioFormat}, ${format.bitsPerSample} bit)`
+    );
+  }
+  if (format.numChannels > 8) {
+    throw new Error("FLAC supports at most 8 channels");
+  }
+
+  const bitsPerSample = flacBitsPerSample(format);
+  const scale = 2 ** (bitsPerSample - 1);
+  const samples = decodeSamples(data, format);
+  const channelCount = format.numChannels;
+  const totalFrames = Math.floor(samples.length / channelCount);
+
+  const frames: Uint8Array[] = [];
+  let minFrameSize = Infinity;
+  let maxFrameSize = 0;
+  for (let start = 0; start < totalFrames; start += BLOCK_SIZE) {
+    const blockSize = Math.min(BLOCK_SIZE, totalFrames - start);
+    // Split the block into channels of integer samples. Decoded PCM converts
+    // back exactly, float audio is clamped and rounded.
+    const channels = Array.from({ length: channelCount }, (_, channel) => {
+      const block = new Int32Array(blockSize);
+      for (let i = 0; i < blockSize; i++) {
+        const sample = samples[(start + i) * channelCount + channel];
+        block[i] = Math.max(
+          -scale,
+          Math.min(scale - 1, Math.round(sample * scale))
+        );
+      }
+      return block;
+    });
+    const frame = encodeFrame(channels, frames.length, bitsPerSample);
+    minFrameSize = Math.min(minFrameSize, frame.length);
+    maxFrameSize = Math.max(maxFrameSize, frame.length);
+    frames.push(frame);
+    yield (start + blockSize) * format.blockAlign;
+  }
+
+  const header = encodeHeader(
+    format,
+    bitsPerSample,
+    totalFrames,
+    frames.length > 0 ? minFrameSize : 0,
+    maxFrameSize
+  );
+  const output = new Uint8Array(
+    frames.reduce((size, frame) => size + frame.length, HEADER_SIZE)
+  );
+  output.set(header);
+  let offset = HEADER_SIZE;
+  for (const frame of frames) {
+    output.set(frame, offset);
+    offset += frame.length;
+  }
+  return output;
+}
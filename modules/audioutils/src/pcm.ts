@@ -0,0 +1,226 @@
+// Sample format conversion for PCM WAV data: bit depth, channel count and
+// sample rate. Samples are decoded to interleaved floats in [-1, 1], converted,
+// then encoded back into the target format.
+
+import type { WavFormat } from "./wav";
+
+export const WAVE_FORMAT_PCM = 1;
+export const WAVE_FORMAT_IEEE_FLOAT = 3;
+
+/**
+ * Check whether samples of the given format can be decoded and encoded
+ */
+export function isSupportedFormat(format: WavFormat): boolean {
+  if (format.numChannels < 1 || format.sampleRate < 1) {
+    return false;
+  }
+  switch (format.audioFormat) {
+    case WAVE_FORMAT_PCM:
+      return [8, 16, 24, 32].includes(format.bitsPerSample);
+    case WAVE_FORMAT_IEEE_FLOAT:
+      return format.bitsPerSample === 32;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Build a canonical format with consistent block align and byte rate
+ */
+export function makeFormat(
+  audioFormat: number,
+  numChannels: number,
+  sampleRate: number,
+  bitsPerSample: number
+): WavFormat {
+  const blockAlign = numChannels * (bitsPerSample / 8);
+  return {
+    audioFormat,
+    numChannels,
+    sampleRate,
+    byteRate: sampleRate * blockAlign,
+    blockAlign,
+    bitsPerSample,
+  };
+}
+
+/**
+ * Serialize a format as the body of a 16 byte fmt chunk
+ */
+export function encodeFmtChunk(format: WavFormat): Uint8Array {
+  const fmtChunk = new Uint8Array(16);
+  const view = new DataView(fmtChunk.buffer);
+  view.setUint16(0, format.audioFormat, true);
+  view.setUint16(2, format.numChannels, true);
+  view.setUint32(4, format.sampleRate, true);
+  view.setUint32(8, format.byteRate, true);
+  view.setUint16(12, format.blockAlign, true);
+  view.setUint16(14, format.bitsPerSample, true);
+  return fmtChunk;
+}
+
+/**
+ * Decode PCM data into interleaved float samples
+ */
+export function decodeSamples(
+  data: Uint8Array,
+  format: WavFormat
+): Float32Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const bytesPerSample = format.bitsPerSample / 8;
+  const count = Math.floor(data.byteLength / bytesPerSample);
+  const samples = new Float32Array(count);
+
+  for (let i = 0; i < count; i++) {
+    const offset = i * bytesPerSample;
+    if (format.audioFormat === WAVE_FORMAT_IEEE_FLOAT) {
+      samples[i] = view.getFloat32(offset, true);
+      continue;
+    }
+    switch (format.bitsPerSample) {
+      case 8:
+        samples[i] = (view.getUint8(offset) - 128) / 128;
+        break;
+      case 16:
+        samples[i] = view.getInt16(offset, true) / 32768;
+        break;
+      case 24:
+        samples[i] =
+          ((view.getInt8(offset + 2) << 16) |
+            (view.getUint8(offset + 1) << 8) |
+            view.getUint8(offset)) /
+          8388608;
+        break;
+      case 32:
+        samples[i] = view.getInt32(offset, true) / 2147483648;
+        break;
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * Encode interleaved float samples into PCM data
+ */
+export function encodeSamples(
+  samples: Float32Array,
+  format: WavFormat
+): Uint8Array {
+  const bytesPerSample = format.bitsPerSample / 8;
+  const data = new Uint8Array(samples.length * bytesPerSample);
+  const view = new DataView(data.buffer);
+
+  for (let i = 0; i < samples.length; i++) {
+    const offset = i * bytesPerSample;
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    if (format.audioFormat === WAVE_FORMAT_IEEE_FLOAT) {
+      view.setFloat32(offset, sample, true);
+      continue;
+    }
+    switch (format.bitsPerSample) {
+      case 8:
+        view.setUint8(offset, Math.round(sample * 127) + 128);
+        break;
+      case 16:
+        view.setInt16(offset, Math.round(sample * 32767), true);
+        break;
+      case 24: {
+        const value = Math.round(sample * 8388607);
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+        break;
+      }
+      case 32:
+        view.setInt32(offset, Math.round(sample * 2147483647), true);
+        break;
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Downmix to mono, upmix from mono, or map channels one to one
+ */
+export function convertChannels(
+  samples: Float32Array,
+  fromChannels: number,
+  toChannels: number
+): Float32Array {
+  if (fromChannels === toChannels) {
+    return samples;
+  }
+
+  const frames = Math.floor(samples.length / fromChannels);
+  const output = new Float32Array(frames * toChannels);
+
+  for (let frame = 0; frame < frames; frame++) {
+    const input = frame * fromChannels;
+    if (toChannels === 1) {
+      let sum = 0;
+      for (let channel = 0; channel < fromChannels; channel++) {
+        sum += samples[input + channel];
+      }
+      output[frame] = sum / fromChannels;
+    } else {
+      for (let channel = 0; channel < toChannels; channel++) {
+        output[frame * toChannels + channel] =
+          samples[input + (channel % fromChannels)];
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Resample interleaved samples using linear interpolation
+ */
+export function resample(
+  samples: Float32Array,
+  channels: number,
+  fromRate: number,
+  toRate: number
+): Float32Array {
+  if (fromRate === toRate) {
+    return samples;
+  }
+
+  const inputFrames = Math.floor(samples.length / channels);
+  const outputFrames = Math.floor((inputFrames * toRate) / fromRate);
+  const output = new Float32Array(outputFrames * channels);
+  const ratio = fromRate / toRate;
+
+  for (let frame = 0; frame < outputFrames; frame++) {
+    const position = frame * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, inputFrames - 1);
+    const fraction = position - index;
+    for (let channel = 0; channel < channels; channel++) {
+      const a = samples[index * channels + channel];
+      const b = samples[next * channels + channel];
+      output[frame * channels + channel] = a + (b - a) * fraction;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Convert PCM data from one format to another
+ * @param data - PCM data in the source format
+ * @param from - Format of `data`
+ * @param to - Target format
+ */
+export function convertPcm(
+  data: Uint8Array,
+  from: WavFormat,
+  to: WavFormat
+): Uint8Array {
+  let samples = decodeSamples(data, from);
+  samples = convertChannels(samples, from.numChannels, to.numChannels);
+  samples = resample(samples, to.numChannels, from.sampleRate, to.sampleRate);
+  return encodeSamples(samples, to);
+}
@@ -0,0 +1,51 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { computePeaks } from "./peaks";
+import { wavPeaks } from "./wav";
+
+const fixture = (name: string) =>
+  new Uint8Array(readFileSync(join(__dirname, "__fixtures__", name)));
+
+describe("computePeaks", () => {
+  it("finds the lowest and highest sample of each bucket", () => {
+    expect(
+      computePeaks(new Float32Array([0.1, -0.2, 0.5, 0.3, -0.9, 0]), 1, 3)
+    ).toEqual({
+      min: [-0.2, 0, -0.9].map(Math.fround),
+      max: [0.1, 0.5, 0].map(Math.fround),
+    });
+  });
+
+  it("looks at every channel of a frame", () => {
+    expect(computePeaks(new Float32Array([0.5, -0.5, 0.25, 1]), 2, 1)).toEqual({
+      min: [-0.5],
+      max: [1],
+    });
+  });
+
+  it("leaves buckets without audio at 0", () => {
+    expect(computePeaks(new Float32Array([1, -1]), 1, 4)).toEqual({
+      min: [0, 0, -1, 0],
+      max: [1, 0, 0, 0],
+    });
+  });
+
+  it("rejects bucket counts that aren't positive integers", () => {
+    for (const buckets of [0, -1, 1.5]) {
+      expect(() => computePeaks(new Float32Array(4), 1, buckets)).toThrow(
+        "buckets must be a positive integer"
+      );
+    }
+  });
+});
+
+describe("wavPeaks", () => {
+  it("reads the peaks and duration of a WAV file", () => {
+    // Samples 0, 1000, 2000, 3000, -1000, -2000, -3000, 0 in 4 buckets
+    expect(wavPeaks(fixture("pcm16-mono.wav"), 4)).toEqual({
+      durationMs: 1,
+      min: [0, 0, -2000 / 32768, -3000 / 32768],
+      max: [1000 / 32768, 3000 / 32768, 0, 0],
+    });
+  });
+});
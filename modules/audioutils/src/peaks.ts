@@ -0,0 +1,43 @@
+// Min/max peaks for drawing the waveform of a recording. Works on interleaved
+// float samples.
+
+export type Peaks = {
+  /** Lowest sample of each bucket, from -1 to 0 */
+  min: number[];
+  /** Highest sample of each bucket, from 0 to 1 */
+  max: number[];
+};
+
+/**
+ * Split the audio into equally long buckets and find the lowest and highest
+ * sample of each, over all channels
+ * @param buckets - Number of buckets, e.g. one per bar of the waveform
+ * @returns The peaks of each bucket, 0 for buckets without audio
+ */
+export function computePeaks(
+  samples: Float32Array,
+  channels: number,
+  buckets: number
+): Peaks {
+  if (!Number.isInteger(buckets) || buckets <= 0) {
+    throw new Error("buckets must be a positive integer");
+  }
+
+  const frames = Math.floor(samples.length / channels);
+  const min = new Array<number>(buckets).fill(0);
+  const max = new Array<number>(buckets).fill(0);
+
+  for (let frame = 0; frame < frames; frame++) {
+    const bucket = Math.min(
+      Math.floor((frame * buckets) / frames),
+      buckets - 1
+    );
+    for (let channel = 0; channel < channels; channel++) {
+      const sample = samples[frame * channels + channel];
+      if (sample < min[bucket]) min[bucket] = sample;
+      if (sample > max[bucket]) max[bucket] = sample;
+    }
+  }
+
+  return { min, max };
+}
@@ -0,0 +1,124 @@
+import { encodeFmtChunk, makeFormat, WAVE_FORMAT_PCM } from "./pcm";
+import {
+  applyFades,
+  crossfade,
+  hasTransitions,
+  resolveTransitions,
+} from "./transitions";
+import { joinWavs, parseWav, writeWav } from "./wav";
+
+// 16-bit mono WAV at 1 kHz, so every frame is a millisecond
+const format = makeFormat(WAVE_FORMAT_PCM, 1, 1000, 16);
+const wavOf = (samples: number[]) =>
+  writeWav(encodeFmtChunk(format), [
+    new Uint8Array(new Int16Array(samples).buffer),
+  ]);
+
+const samples16 = (data: Uint8Array) =>
+  Array.from(new Int16Array(data.slice().buffer));
+
+describe("hasTransitions", () => {
+  it("ignores options that leave the audio as is", () => {
+    expect(hasTransitions()).toBe(false);
+    expect(hasTransitions({ gapMs: 0, crossfade: { durationMs: 0 } })).toBe(
+      false
+    );
+    expect(hasTransitions({ fadeOutMs: 10 })).toBe(true);
+  });
+});
+
+describe("resolveTransitions", () => {
+  it("converts milliseconds to frames", () => {
+    expect(
+      resolveTransitions({ gapMs: 250, fadeInMs: 10 }, [8000, 8000], 8000)
+    ).toEqual({
+      gapFrames: 2000,
+      overlaps: [0, 0],
+      fadeInFrames: 80,
+      fadeOutFrames: 0,
+      curve: "equalPower",
+    });
+  });
+
+  it("limits crossfades to half of the shorter neighbour", () => {
+    const { overlaps, curve } = resolveTransitions(
+      { crossfade: { durationMs: 100, curve: "linear" } },
+      [1000, 60, 1000],
+      1000
+    );
+    expect(overlaps).toEqual([0, 30, 30]);
+    expect(curve).toBe("linear");
+  });
+
+  it("rejects invalid options", () => {
+    expect(() => resolveTransitions({ gapMs: -1 }, [10], 1000)).toThrow(
+      "gapMs must be a positive number of milliseconds"
+    );
+    expect(() =>
+      resolveTransitions(
+        { gapMs: 10, crossfade: { durationMs: 10 } },
+        [10, 10],
+        1000
+      )
+    ).toThrow("gapMs and crossfade can't be combined");
+  });
+});
+
+describe("applyFades", () => {
+  it("ramps both ends of every channel", () => {
+    const samples = new Float32Array(12).fill(1);
+    applyFades(samples, 2, 2, 2);
+    expect(Array.from(samples)).toEqual([
+      0, 0, 0.5, 0.5, 1, 1, 1, 1, 0.5, 0.5, 0, 0,
+    ]);
+  });
+});
+
+describe("crossfade", () => {
+  it("mixes linearly from the tail to the head", () => {
+    const mixed = crossfade(
+      new Float32Array([1, 1]),
+      new Float32Array([0, 0]),
+      1,
+      "linear"
+    );
+    expect(Array.from(mixed)).toEqual([0.75, 0.25]);
+  });
+
+  it("keeps the power constant with the equal power curve", () => {
+    const [mixed] = crossfade(
+      new Float32Array([1]),
+      new Float32Array([1]),
+      1,
+      "equalPower"
+    );
+    expect(mixed).toBeCloseTo(Math.SQRT2);
+  });
+});
+
+describe("joinWavs with transitions", () => {
+  it("inserts silence between segments", () => {
+    const { bytes, segments } = joinWavs(
+      [wavOf([100, 200]), wavOf([300])],
+      ["a.wav", "b.wav"],
+      { gapMs: 3 }
+    );
+    expect(samples16(parseWav(bytes).data)).toEqual([100, 200, 0, 0, 0, 300]);
+    expect(segments.map(({ startMs, endMs }) => [startMs, endMs])).toEqual([
+      [0, 2],
+      [5, 6],
+    ]);
+  });
+
+  it("overlaps crossfaded segments", () => {
+    const { bytes, segments } = joinWavs(
+      [wavOf([1000, 1000, 1000, 1000]), wavOf([0, 0, 0, 0])],
+      ["a.wav", "b.wav"],
+      { crossfade: { durationMs: 2, curve: "linear" } }
+    );
+    expect(samples16(parseWav(bytes).data)).toEqual([
+      1000, 1000, 750, 250, 0, 0,
+    ]);
+    expect(segments[1]).toMatchObject({ startMs: 2, endMs: 6 });
+  });
+});
@@ -0,0 +1,127 @@
+// Gaps, crossfades and fade ramps applied between segments when joining.
+// Works on interleaved float samples, see pcm.ts.
+
+import type { CrossfadeCurve, JoinAudioFilesOptions } from "./Audioutils.types";
+
+export type ResolvedTransitions = {
+  gapFrames: number;
+  /** overlaps[i] is the number of frames segment i overlaps segment i - 1 */
+  overlaps: number[];
+  fadeInFrames: number;
+  fadeOutFrames: number;
+  curve: CrossfadeCurve;
+};
+
+/**
+ * Check whether the options change the audio at all
+ */
+export function hasTransitions(options?: JoinAudioFilesOptions): boolean {
+  return (
+    !!options &&
+    ((options.gapMs ?? 0) > 0 ||
+      (options.crossfade?.durationMs ?? 0) > 0 ||
+      (options.fadeInMs ?? 0) > 0 ||
+      (options.fadeOutMs ?? 0) > 0)
+  );
+}
+
+/**
+ * Convert the options to frame counts for the given segments. Crossfades are
+ * limited to half of the shorter neighbouring segment so overlaps never meet.
+ * @param frameCounts - Length of each segment in frames
+ */
+export function resolveTransitions(
+  options: JoinAudioFilesOptions,
+  frameCounts: number[],
+  sampleRate: number
+): ResolvedTransitions {
+  const toFrames = (ms: number | undefined, name: string) => {
+    if (ms !== undefined && (!Number.isFinite(ms) || ms < 0)) {
+      throw new Error(`${name} must be a positive number of milliseconds`);
+    }
+    return Math.round(((ms ?? 0) * sampleRate) / 1000);
+  };
+
+  const gapFrames = toFrames(options.gapMs, "gapMs");
+  const crossfadeFrames = toFrames(
+    options.crossfade?.durationMs,
+    "crossfade.durationMs"
+  );
+  if (gapFrames > 0 && crossfadeFrames > 0) {
+    throw new Error("gapMs and crossfade can't be combined");
+  }
+
+  const overlaps = frameCounts.map((frames, index) =>
+    index === 0
+      ? 0
+      : Math.min(
+          crossfadeFrames,
+          Math.floor(frameCounts[index - 1] / 2),
+          Math.floor(frames / 2)
+        )
+  );
+
+  return {
+    gapFrames,
+    overlaps,
+    fadeInFrames: toFrames(options.fadeInMs, "fadeInMs"),
+    fadeOutFrames: toFrames(options.fadeOutMs, "fadeOutMs"),
+    curve: options.crossfade?.curve ?? "equalPower",
+  };
+}
+
+/**
+ * Apply linear fade-in and fade-out ramps in place
+ */
+export function applyFades(
+  samples: Float32Array,
+  channels: number,
+  fadeInFrames: number,
+  fadeOutFrames: number
+): void {
+  const frames = Math.floor(samples.length / channels);
+
+  const fadeIn = Math.min(fadeInFrames, frames);
+  for (let frame = 0; frame < fadeIn; frame++) {
+    const gain = frame / fadeIn;
+    for (let channel = 0; channel < channels; channel++) {
+      samples[frame * channels + channel] *= gain;
+    }
+  }
+
+  const fadeOut = Math.min(fadeOutFrames, frames);
+  for (let frame = 0; frame < fadeOut; frame++) {
+    const gain = frame / fadeOut;
+    for (let channel = 0; channel < channels; channel++) {
+      samples[(frames - 1 - frame) * channels + channel] *= gain;
+    }
+  }
+}
+
+/**
+ * Mix the tail of one segment into the head of the next
+ * @param tail - Last frames of the outgoing segment
+ * @param head - First frames of the incoming segment, same length as `tail`
+ */
+export function crossfade(
+  tail: Float32Array,
+  head: Float32Array,
+  channels: number,
+  curve: CrossfadeCurve
+): Float32Array {
+  const frames = Math.floor(head.length / channels);
+  const output = new Float32Array(head.length);
+
+  for (let frame = 0; frame < frames; frame++) {
+    const t = (frame + 0.5) / frames;
+    const fadeOutGain =
+      curve === "equalPower" ? Math.cos((t * Math.PI) / 2) : 1 - t;
+    const fadeInGain = curve === "equalPower" ? Math.sin((t * Math.PI) / 2) : t;
+    for (let channel = 0; channel < channels; channel++) {
+      const index = frame * channels + channel;
+      output[index] = tail[index] * fadeOutGain + head[index] * fadeInGain;
+    }
+  }
+
+  return output;
+}
@@ -0,0 +1,120 @@
+import { encodeFmtChunk, makeFormat, WAVE_FORMAT_PCM } from "./pcm";
+import { detectSpeechBounds } from "./vad";
+import { joinWavs, parseWav, trimWav, writeWav } from "./wav";
+
+// 1 kHz, so every frame is a millisecond
+const SAMPLE_RATE = 1000;
+
+// Silence, then a loud tone, then silence, lengths in frames
+const speech = (lead: number, loud: number, trail: number, channels = 1) =>
+  new Float32Array(
+    [
+      ...new Array(lead).fill(0),
+      ...Array.from({ length: loud }, (_, i) => (i % 2 ? -0.5 : 0.5)),
+      ...new Array(trail).fill(0),
+    ].flatMap((sample) => new Array(channels).fill(sample))
+  );
+
+const wavOf = (samples: Float32Array) =>
+  writeWav(encodeFmtChunk(makeFormat(WAVE_FORMAT_PCM, 1, SAMPLE_RATE, 16)), [
+    new Uint8Array(
+      Int16Array.from(samples, (sample) => Math.round(sample * 32767)).buffer
+    ),
+  ]);
+
+describe("detectSpeechBounds", () => {
+  it("keeps the loud windows plus padding", () => {
+    expect(
+      detectSpeechBounds(speech(200, 100, 300), 1, SAMPLE_RATE, {
+        windowMs: 20,
+        paddingMs: 50,
+      })
+    ).toEqual({ startFrame: 150, endFrame: 350 });
+  });
+
+  it("doesn't pad past either end", () => {
+    expect(
+      detectSpeechBounds(speech(20, 40, 20), 1, SAMPLE_RATE, {
+        windowMs: 20,
+        paddingMs: 100,
+      })
+    ).toEqual({ startFrame: 0, endFrame: 80 });
+  });
+
+  it("measures all channels of a frame", () => {
+    expect(
+      detectSpeechBounds(speech(100, 100, 100, 2), 2, SAMPLE_RATE, {
+        windowMs: 10,
+        paddingMs: 0,
+      })
+    ).toEqual({ startFrame: 100, endFrame: 200 });
+  });
+
+  it("treats audio below the threshold as silence", () => {
+    const quiet = speech(0, 100, 0).map((sample) => sample / 1000);
+    expect(detectSpeechBounds(quiet, 1, SAMPLE_RATE)).toEqual({
+      startFrame: 0,
+      endFrame: 0,
+    });
+    expect(
+      detectSpeechBounds(quiet, 1, SAMPLE_RATE, { thresholdDb: -80 })
+    ).toEqual({ startFrame: 0, endFrame: 100 });
+  });
+
+  it("rejects windows without length", () => {
+    expect(() =>
+      detectSpeechBounds(speech(0, 10, 0), 1, SAMPLE_RATE, { windowMs: 0 })
+    ).toThrow("windowMs and paddingMs must be positive");
+  });
+});
+
+describe("trimWav", () => {
+  it("removes leading and trailing silence", () => {
+    const trimmed = trimWav(wavOf(speech(200, 100, 300)), {
+      windowMs: 20,
+      paddingMs: 50,
+    });
+    expect(trimmed).toMatchObject({
+      trimmedStartMs: 150,
+      trimmedEndMs: 250,
+      durationMs: 200,
+    });
+    expect(parseWav(trimmed.bytes).data.length).toBe(200 * 2);
+  });
+
+  it("drops a file that is all silence", () => {
+    expect(trimWav(wavOf(speech(100, 0, 0)))).toMatchObject({
+      trimmedStartMs: 100,
+      trimmedEndMs: 0,
+      durationMs: 0,
+    });
+  });
+});
+
+describe("joinWavs with trimSilence", () => {
+  it("reports what was trimmed from each segment", () => {
+    const { segments } = joinWavs(
+      [wavOf(speech(200, 100, 300)), wavOf(speech(0, 100, 100))],
+      ["a.wav", "b.wav"],
+      { trimSilence: { windowMs: 20, paddingMs: 50 } }
+    );
+    expect(segments).toEqual([
+      {
+        uri: "a.wav",
+        durationMs: 200,
+        startMs: 0,
+        endMs: 200,
+        trimmedStartMs: 150,
+        trimmedEndMs: 250,
+      },
+      {
+        uri: "b.wav",
+        durationMs: 150,
+        startMs: 200,
+        endMs: 350,
+        trimmedStartMs: 0,
+        trimmedEndMs: 50,
+      },
+    ]);
+  });
+});
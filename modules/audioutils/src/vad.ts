@@ -0,0 +1,68 @@
+// Energy-based voice activity detection, used to trim the dead air at the
+// start and end of hold-to-record segments. Works on interleaved float samples.
+
+import type { TrimSilenceOptions } from "./Audioutils.types";
+
+export const DEFAULT_TRIM_SILENCE_OPTIONS: Required<TrimSilenceOptions> = {
+  thresholdDb: -40,
+  windowMs: 20,
+  paddingMs: 100,
+};
+
+export type SpeechBounds = {
+  /** First frame to keep */
+  startFrame: number;
+  /** Frame after the last one to keep */
+  endFrame: number;
+};
+
+/**
+ * Find where speech starts and ends, judged by the RMS level of short windows
+ * @returns The frames to keep, an empty range if the audio is all silence
+ */
+export function detectSpeechBounds(
+  samples: Float32Array,
+  channels: number,
+  sampleRate: number,
+  options: TrimSilenceOptions = {}
+): SpeechBounds {
+  const { thresholdDb, windowMs, paddingMs } = {
+    ...DEFAULT_TRIM_SILENCE_OPTIONS,
+    ...options,
+  };
+  if (windowMs <= 0 || paddingMs < 0) {
+    throw new Error("windowMs and paddingMs must be positive");
+  }
+
+  const frames = Math.floor(samples.length / channels);
+  const windowFrames = Math.max(1, Math.round((windowMs * sampleRate) / 1000));
+  const paddingFrames = Math.round((paddingMs * sampleRate) / 1000);
+  const threshold = Math.pow(10, thresholdDb / 20);
+
+  const isLoud = (start: number) => {
+    const end = Math.min(start + windowFrames, frames);
+    let sum = 0;
+    for (let i = start * channels; i < end * channels; i++) {
+      sum += samples[i] * samples[i];
+    }
+    return Math.sqrt(sum / ((end - start) * channels)) >= threshold;
+  };
+
+  let first = -1;
+  let last = -1;
+  for (let start = 0; start < frames; start += windowFrames) {
+    if (isLoud(start)) {
+      if (first < 0) first = start;
+      last = Math.min(start + windowFrames, frames);
+    }
+  }
+
+  if (first < 0) {
+    return { startFrame: 0, endFrame: 0 };
+  }
+
+  return {
+    startFrame: Math.max(0, first - paddingFrames),
+    endFrame: Math.min(frames, last + paddingFrames),
+  };
+}
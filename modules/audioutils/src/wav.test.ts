@@ -0,0 +1,195 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { IncompatibleAudioFormatError } from "./errors";
+import { cutWav, joinWavs, parseWav, readAudioInfo, splitWav } from "./wav";
+
+const fixture = (name: string) =>
+  new Uint8Array(readFileSync(join(__dirname, "__fixtures__", name)));
+
+// Samples of pcm16-mono.wav, which list-fact.wav holds too
+const PCM16_SAMPLES = [0, 1000, 2000, 3000, -1000, -2000, -3000, 0];
+
+const samples16 = (data: Uint8Array) =>
+  Array.from(new Int16Array(data.slice().buffer));
+
+describe("parseWav", () => {
+  it("reads a plain 44 byte header", () => {
+    const wav = parseWav(fixture("pcm16-mono.wav"));
+    expect(wav.format).toEqual({
+      audioFormat: 1,
+      numChannels: 1,
+      sampleRate: 8000,
+      byteRate: 16000,
+      blockAlign: 2,
+      bitsPerSample: 16,
+    });
+    expect(wav.chunks.map((chunk) => chunk.id)).toEqual(["fmt ", "data"]);
+    expect(samples16(wav.data)).toEqual(PCM16_SAMPLES);
+  });
+
+  it("skips fact and LIST chunks before the data", () => {
+    const wav = parseWav(fixture("list-fact.wav"));
+    expect(wav.chunks.map((chunk) => chunk.id)).toEqual([
+      "fmt ",
+      "fact",
+      "LIST",
+      "data",
+    ]);
+    expect(samples16(wav.data)).toEqual(PCM16_SAMPLES);
+  });
+
+  it("skips the padding byte of odd-sized chunks", () => {
+    const wav = parseWav(fixture("odd-chunks.wav"));
+    expect(wav.chunks.map(({ id, size }) => ({ id, size }))).toEqual([
+      { id: "fmt ", size: 16 },
+      { id: "abcd", size: 3 },
+      { id: "data", size: 5 },
+      { id: "LIST", size: 4 },
+    ]);
+    expect(Array.from(wav.data)).toEqual([128, 160, 192, 96, 64]);
+  });
+
+  it("rejects files that aren't WAV", () => {
+    expect(() => parseWav(new TextEncoder().encode("not a wav file"))).toThrow(
+      "Not a valid WAV file"
+    );
+  });
+});
+
+describe("readAudioInfo", () => {
+  it("reports the chunks it doesn't understand", () => {
+    const bytes = fixture("list-fact.wav");
+    expect(readAudioInfo(bytes)).toEqual({
+      durationMs: 1,
+      sampleRate: 8000,
+      numChannels: 1,
+      bitsPerSample: 16,
+      audioFormat: 1,
+      byteSize: bytes.length,
+      dataSize: 16,
+      unknownChunks: [
+        { id: "fact", size: 4 },
+        { id: "LIST", size: 18 },
+      ],
+    });
+  });
+
+  it("counts the frames of an odd-sized data chunk", () => {
+    expect(readAudioInfo(fixture("odd-chunks.wav")).durationMs).toBe(
+      (5 / 8000) * 1000
+    );
+  });
+});
+
+describe("joinWavs", () => {
+  it("concatenates files of the same format", () => {
+    const { bytes, segments } = joinWavs(
+      [fixture("pcm16-mono.wav"), fixture("list-fact.wav")],
+      ["a.wav", "b.wav"]
+    );
+    const joined = parseWav(bytes);
+    expect(joined.chunks.map((chunk) => chunk.id)).toEqual(["fmt ", "data"]);
+    expect(samples16(joined.data)).toEqual([
+      ...PCM16_SAMPLES,
+      ...PCM16_SAMPLES,
+    ]);
+    expect(segments).toEqual([
+      { uri: "a.wav", durationMs: 1, startMs: 0, endMs: 1 },
+      { uri: "b.wav", durationMs: 1, startMs: 1, endMs: 2 },
+    ]);
+  });
+
+  it("converts files of another format to the first file's", () => {
+    const { bytes, segments } = joinWavs([
+      fixture("pcm16-mono.wav"),
+      fixture("pcm8-stereo.wav"),
+    ]);
+    const joined = parseWav(bytes);
+    expect(joined.format).toMatchObject({
+      numChannels: 1,
+      sampleRate: 8000,
+      bitsPerSample: 16,
+    });
+    // 4 stereo frames at 16 kHz become 2 mono frames at 8 kHz
+    expect(joined.data.length).toBe((8 + 2) * 2);
+    expect(segments[1]).toMatchObject({ startMs: 1, durationMs: 0.25 });
+  });
+
+  it("rejects files it can't decode", () => {
+    const join = () =>
+      joinWavs(
+        [fixture("pcm16-mono.wav"), fixture("adpcm.wav")],
+        ["a.wav", "b.wav"]
+      );
+    expect(join).toThrow(IncompatibleAudioFormatError);
+    expect(join).toThrow("Incompatible audio format in b.wav");
+  });
+
+  it("rejects a first file it can't decode", () => {
+    expect(() => joinWavs([fixture("adpcm.wav")], ["a.wav"])).toThrow(
+      IncompatibleAudioFormatError
+    );
+  });
+});
+
+// pcm16-mono.wav is 8 frames at 8 kHz, so every frame is 0.125 ms
+describe("splitWav", () => {
+  it("splits at the offsets, in any order", () => {
+    const parts = splitWav(fixture("pcm16-mono.wav"), [0.75, 0.25]);
+    expect(parts.map(({ bytes, ...part }) => part)).toEqual([
+      { startMs: 0, endMs: 0.25, durationMs: 0.25 },
+      { startMs: 0.25, endMs: 0.75, durationMs: 0.5 },
+      { startMs: 0.75, endMs: 1, durationMs: 0.25 },
+    ]);
+    expect(parts.map(({ bytes }) => samples16(parseWav(bytes).data))).toEqual([
+      PCM16_SAMPLES.slice(0, 2),
+      PCM16_SAMPLES.slice(2, 6),
+      PCM16_SAMPLES.slice(6),
+    ]);
+  });
+
+  it("keeps the fmt chunk of the original", () => {
+    const [part] = splitWav(fixture("pcm8-stereo.wav"), [0.125]);
+    expect(parseWav(part.bytes).format).toEqual(
+      parseWav(fixture("pcm8-stereo.wav")).format
+    );
+  });
+
+  it("rejects offsets that would make empty parts", () => {
+    const bytes = fixture("pcm16-mono.wav");
+    for (const offsetsMs of [[0], [1], [0.5, 0.5], [2]]) {
+      expect(() => splitWav(bytes, offsetsMs)).toThrow(
+        "offsetsMs must be distinct offsets inside the audio"
+      );
+    }
+  });
+});
+
+describe("cutWav", () => {
+  it("joins the audio either side of the range", () => {
+    const cut = cutWav(fixture("pcm16-mono.wav"), 0.25, 0.75);
+    expect(cut).toMatchObject({ durationMs: 0.5, removedMs: 0.5 });
+    expect(samples16(parseWav(cut.bytes).data)).toEqual([
+      ...PCM16_SAMPLES.slice(0, 2),
+      ...PCM16_SAMPLES.slice(6),
+    ]);
+  });
+
+  it("clamps the end of the range to the end of the audio", () => {
+    const cut = cutWav(fixture("pcm16-mono.wav"), 0.5, 10);
+    expect(cut).toMatchObject({ durationMs: 0.5, removedMs: 0.5 });
+    expect(samples16(parseWav(cut.bytes).data)).toEqual(
+      PCM16_SAMPLES.slice(0, 4)
+    );
+  });
+
+  it("rejects ranges outside the audio", () => {
+    const bytes = fixture("pcm16-mono.wav");
+    expect(() => cutWav(bytes, 0.5, 0.5)).toThrow(
+      "endMs must be after startMs"
+    );
+    expect(() => cutWav(bytes, 1, 2)).toThrow(
+      "startMs is past the end of the audio"
+    );
+  });
+});
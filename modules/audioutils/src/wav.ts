@@ -0,0 +1,627 @@
+// Pure TypeScript WAV (RIFF) parsing and writing. Mirrors the chunk walking
+// done by the native modules so the same logic can run on web.
+
+import type {
+  AudioChunkInfo,
+  AudioInfo,
+  AudioSegment,
+  JoinAudioFilesOptions,
+  TrimSilenceOptions,
+  WaveformPeaksResult,
+} from "./Audioutils.types";
+import { IncompatibleAudioFormatError } from "./errors";
+import {
+  convertPcm,
+  decodeSamples,
+  encodeFmtChunk,
+  encodeSamples,
+  isSupportedFormat,
+  makeFormat,
+} from "./pcm";
+import {
+  applyFades,
+  crossfade,
+  hasTransitions,
+  resolveTransitions,
+  ResolvedTransitions,
+} from "./transitions";
+import { detectSpeechBounds } from "./vad";
+import { computePeaks } from "./peaks";
+
+export type WavFormat = {
+  /** 1 = PCM, 3 = IEEE float (WAVE_FORMAT_EXTENSIBLE is resolved to its sub-format) */
+  audioFormat: number;
+  numChannels: number;
+  sampleRate: number;
+  byteRate: number;
+  blockAlign: number;
+  bitsPerSample: number;
+};
+
+export type WavChunk = {
+  id: string;
+  /** Offset of the chunk body (after the 8 byte chunk header) */
+  offset: number;
+  size: number;
+};
+
+export type JoinedWav = {
+  /** Contents of the joined WAV file */
+  bytes: Uint8Array;
+  /** Where each input ended up in the joined audio */
+  segments: AudioSegment[];
+};
+
+export type ParsedWav = {
+  format: WavFormat;
+  /** Raw body of the fmt chunk, copied verbatim into joined output */
+  fmtChunk: Uint8Array;
+  /** PCM samples from the data chunk */
+  data: Uint8Array;
+  chunks: WavChunk[];
+};
+
+const RIFF_HEADER_SIZE = 12;
+const CHUNK_HEADER_SIZE = 8;
+const STANDARD_HEADER_SIZE = 44;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+const RIFF_SIZE_LIMIT = 0xffffffff;
+// Chunks the parser understands, anything else is reported by readAudioInfo
+const KNOWN_CHUNK_IDS = ["fmt ", "data", "ds64", "JUNK"];
+
+const readId = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(
+    bytes[offset],
+    bytes[offset + 1],
+    bytes[offset + 2],
+    bytes[offset + 3]
+  );
+
+const writeId = (view: DataView, offset: number, id: string) => {
+  for (let i = 0; i < 4; i++) {
+    view.setUint8(offset + i, id.charCodeAt(i));
+  }
+};
+
+const toView = (bytes: Uint8Array) =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+/**
+ * Walk the RIFF chunks of a WAV file. In RF64 files the data chunk size is
+ * taken from the ds64 chunk.
+ * @param bytes - Contents of the WAV file
+ * @param byteSize - Size of the whole file, when `bytes` only holds its start
+ * @returns Every chunk found after the RIFF header
+ */
+export function readChunks(
+  bytes: Uint8Array,
+  byteSize = bytes.length
+): WavChunk[] {
+  const view = toView(bytes);
+  const chunks: WavChunk[] = [];
+  let ds64DataSize: number | undefined;
+  let offset = RIFF_HEADER_SIZE;
+
+  while (offset + CHUNK_HEADER_SIZE <= bytes.length) {
+    const id = readId(bytes, offset);
+    const bodyOffset = offset + CHUNK_HEADER_SIZE;
+    let size = view.getUint32(offset + 4, true);
+    if (id === "ds64" && size >= 16 && bodyOffset + 16 <= bytes.length) {
+      ds64DataSize =
+        view.getUint32(bodyOffset + 8, true) +
+        view.getUint32(bodyOffset + 12, true) * 2 ** 32;
+    } else if (
+      id === "data" &&
+      size === RIFF_SIZE_LIMIT &&
+      ds64DataSize !== undefined
+    ) {
+      size = ds64DataSize;
+    }
+
+    // Recorders that were interrupted may leave a bogus size, clamp to the file
+    chunks.push({
+      id,
+      offset: bodyOffset,
+      size: Math.min(size, byteSize - bodyOffset),
+    });
+
+    // Move to next chunk, skipping the padding byte if chunk size is odd
+    offset = bodyOffset + size + (size % 2);
+  }
+
+  return chunks;
+}
+
+/**
+ * Find the data chunk in a WAV file
+ * @param bytes - Contents of the WAV file
+ * @param byteSize - Size of the whole file, when `bytes` only holds its start
+ * @returns Offset and size of the PCM data
+ */
+export function findDataChunk(
+  bytes: Uint8Array,
+  byteSize = bytes.length
+): {
+  offset: number;
+  size: number;
+} {
+  const dataChunk = readChunks(bytes, byteSize).find(
+    (chunk) => chunk.id === "data"
+  );
+  if (dataChunk) {
+    return { offset: dataChunk.offset, size: dataChunk.size };
+  }
+
+  // Fallback: assume data starts at offset 44 (standard WAV header)
+  return {
+    offset: STANDARD_HEADER_SIZE,
+    size: Math.max(0, byteSize - STANDARD_HEADER_SIZE),
+  };
+}
+
+/**
+ * Parse a WAV file into its format and PCM data
+ * @param bytes - Contents of the WAV file
+ */
+export function parseWav(bytes: Uint8Array): ParsedWav {
+  const chunks = readChunks(bytes);
+  const { format, fmt } = readFormat(bytes, chunks);
+  const { offset, size } = findDataChunk(bytes);
+
+  return {
+    format,
+    fmtChunk: bytes.slice(fmt.offset, fmt.offset + fmt.size),
+    data: bytes.subarray(offset, offset + size),
+    chunks,
+  };
+}
+
+/**
+ * Describe a WAV file from its header, without decoding the audio
+ * @param bytes - Contents of the WAV file, or at least everything before the data chunk
+ * @param byteSize - Size of the whole file, when `bytes` only holds its start
+ */
+export function readAudioInfo(
+  bytes: Uint8Array,
+  byteSize = bytes.length
+): Omit<AudioInfo, "uri"> {
+  const chunks = readChunks(bytes, byteSize);
+  const { format } = readFormat(bytes, chunks);
+  const { size } = findDataChunk(bytes, byteSize);
+  const frames =
+    format.blockAlign > 0 ? Math.floor(size / format.blockAlign) : 0;
+
+  return {
+    durationMs: format.sampleRate > 0 ? (frames / format.sampleRate) * 1000 : 0,
+    sampleRate: format.sampleRate,
+    numChannels: format.numChannels,
+    bitsPerSample: format.bitsPerSample,
+    audioFormat: format.audioFormat,
+    byteSize,
+    dataSize: size,
+    unknownChunks: chunks
+      .filter((chunk) => !KNOWN_CHUNK_IDS.includes(chunk.id))
+      .map(({ id, size }): AudioChunkInfo => ({ id, size })),
+  };
+}
+
+// Check the RIFF header and read the fmt chunk
+const readFormat = (bytes: Uint8Array, chunks: WavChunk[]) => {
+  if (
+    bytes.length < RIFF_HEADER_SIZE ||
+    (readId(bytes, 0) !== "RIFF" && readId(bytes, 0) !== "RF64") ||
+    readId(bytes, 8) !== "WAVE"
+  ) {
+    throw new Error("Not a valid WAV file");
+  }
+
+  const fmt = chunks.find((chunk) => chunk.id === "fmt ");
+  if (!fmt || fmt.size < 16) {
+    throw new Error("WAV file is missing a valid fmt chunk");
+  }
+
+  const view = toView(bytes);
+  const format: WavFormat = {
+    audioFormat: view.getUint16(fmt.offset, true),
+    numChannels: view.getUint16(fmt.offset + 2, true),
+    sampleRate: view.getUint32(fmt.offset + 4, true),
+    byteRate: view.getUint32(fmt.offset + 8, true),
+    blockAlign: view.getUint16(fmt.offset + 12, true),
+    bitsPerSample: view.getUint16(fmt.offset + 14, true),
+  };
+
+  // The actual encoding of an extensible format is the first two bytes of
+  // its sub-format GUID
+  if (format.audioFormat === WAVE_FORMAT_EXTENSIBLE && fmt.size >= 26) {
+    format.audioFormat = view.getUint16(fmt.offset + 24, true);
+  }
+
+  return { format, fmt };
+};
+
+/**
+ * Check whether PCM data of two formats can be concatenated as-is
+ */
+export function isFormatCompatible(a: WavFormat, b: WavFormat): boolean {
+  return (
+    a.audioFormat === b.audioFormat &&
+    a.numChannels === b.numChannels &&
+    a.sampleRate === b.sampleRate &&
+    a.bitsPerSample === b.bitsPerSample &&
+    a.blockAlign === b.blockAlign
+  );
+}
+
+/**
+ * Build a WAV file from a fmt chunk body and PCM data
+ * @param fmtChunk - Body of the fmt chunk
+ * @param data - PCM data chunks, written back to back
+ */
+export function writeWav(fmtChunk: Uint8Array, data: Uint8Array[]): Uint8Array {
+  const dataSize = data.reduce((total, chunk) => total + chunk.length, 0);
+  const fmtSize = fmtChunk.length + (fmtChunk.length % 2);
+  const headerSize =
+    RIFF_HEADER_SIZE + CHUNK_HEADER_SIZE + fmtSize + CHUNK_HEADER_SIZE;
+  const totalSize = headerSize + dataSize + (dataSize % 2);
+
+  const output = new Uint8Array(totalSize);
+  const view = toView(output);
+
+  // RIFF header
+  writeId(view, 0, "RIFF");
+  view.setUint32(4, totalSize - 8, true);
+  writeId(view, 8, "WAVE");
+
+  // fmt chunk
+  let offset = RIFF_HEADER_SIZE;
+  writeId(view, offset, "fmt ");
+  view.setUint32(offset + 4, fmtChunk.length, true);
+  output.set(fmtChunk, offset + CHUNK_HEADER_SIZE);
+  offset += CHUNK_HEADER_SIZE + fmtSize;
+
+  // data chunk
+  writeId(view, offset, "data");
+  view.setUint32(offset + 4, dataSize, true);
+  offset += CHUNK_HEADER_SIZE;
+  for (const chunk of data) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return output;
+}
+
+/**
+ * Join WAV files by concatenating their data chunks. Inputs whose format
+ * differs from the first file are converted to the first file's format.
+ * @param files - Contents of each WAV file, in order
+ * @param names - Names used to identify a file in errors and segments
+ * (defaults to its index)
+ * @param options - Gaps, crossfades and fades to apply between segments
+ * @returns Contents of the joined WAV file and its segment map
+ */
+export function joinWavs(
+  files: Uint8Array[],
+  names: string[] = [],
+  options?: JoinAudioFilesOptions
+): JoinedWav {
+  if (files.length === 0) {
+    throw new Error("No audio files provided");
+  }
+
+  const nameOf = (index: number) => names[index] ?? `file ${index}`;
+
+  const parsed = files.map((bytes, index) => {
+    try {
+      return parseWav(bytes);
+    } catch (error) {
+      throw new IncompatibleAudioFormatError(
+        nameOf(index),
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  });
+
+  const first = parsed[0].format;
+  if (!isSupportedFormat(first)) {
+    throw new IncompatibleAudioFormatError(
+      nameOf(0),
+      `unsupported encoding (format ${first.audioFormat}, ${first.bitsPerSample} bit)`
+    );
+  }
+  const target = makeFormat(
+    first.audioFormat,
+    first.numChannels,
+    first.sampleRate,
+    first.bitsPerSample
+  );
+
+  const converted = parsed.map((wav, index) => {
+    if (isFormatCompatible(target, wav.format)) {
+      return wav.data;
+    }
+    if (!isSupportedFormat(wav.format)) {
+      throw new IncompatibleAudioFormatError(
+        nameOf(index),
+        `unsupported encoding (format ${wav.format.audioFormat}, ${wav.format.bitsPerSample} bit)`
+      );
+    }
+    return convertPcm(wav.data, wav.format, target);
+  });
+
+  // Frames removed from the start and end of each segment
+  const trimmed = converted.map((chunk) =>
+    options?.trimSilence
+      ? trimmedFrames(chunk, target, options.trimSilence)
+      : { start: 0, end: 0 }
+  );
+  const data = converted.map((chunk, index) =>
+    chunk.subarray(
+      trimmed[index].start * target.blockAlign,
+      chunk.length - trimmed[index].end * target.blockAlign
+    )
+  );
+
+  const frameCounts = data.map((chunk) =>
+    Math.floor(chunk.length / target.blockAlign)
+  );
+  const transitions = hasTransitions(options)
+    ? resolveTransitions(options!, frameCounts, target.sampleRate)
+    : null;
+
+  // Position of each segment in the joined audio, in frames
+  let startFrame = 0;
+  const segments = frameCounts.map((frames, index) => {
+    if (transitions && index > 0) {
+      startFrame += transitions.gapFrames - transitions.overlaps[index];
+    }
+    const segment: AudioSegment = {
+      uri: nameOf(index),
+      durationMs: (frames / target.sampleRate) * 1000,
+      startMs: (startFrame / target.sampleRate) * 1000,
+      endMs: ((startFrame + frames) / target.sampleRate) * 1000,
+    };
+    if (options?.trimSilence) {
+      segment.trimmedStartMs =
+        (trimmed[index].start / target.sampleRate) * 1000;
+      segment.trimmedEndMs = (trimmed[index].end / target.sampleRate) * 1000;
+    }
+    startFrame += frames;
+    return segment;
+  });
+
+  const fmtChunk = encodeFmtChunk(target);
+  if (!transitions) {
+    return { bytes: writeWav(fmtChunk, data), segments };
+  }
+
+  return {
+    bytes: writeWav(
+      fmtChunk,
+      applyTransitions(data, frameCounts, target, transitions)
+    ),
+    segments,
+  };
+}
+
+// Number of silent frames at the start and end of PCM data
+function trimmedFrames(
+  data: Uint8Array,
+  format: WavFormat,
+  options: TrimSilenceOptions
+): { start: number; end: number } {
+  const frames = Math.floor(data.length / format.blockAlign);
+  const { startFrame, endFrame } = detectSpeechBounds(
+    decodeSamples(data, format),
+    format.numChannels,
+    format.sampleRate,
+    options
+  );
+  // All silence: drop everything
+  if (endFrame <= startFrame) {
+    return { start: frames, end: 0 };
+  }
+  return { start: startFrame, end: frames - endFrame };
+}
+
+/**
+ * Remove leading and trailing silence from a WAV file
+ * @param bytes - Contents of the WAV file
+ * @param options - Detection threshold, window size and padding
+ * @returns Contents of the trimmed WAV file and how much was removed
+ */
+export function trimWav(
+  bytes: Uint8Array,
+  options?: TrimSilenceOptions
+): {
+  bytes: Uint8Array;
+  trimmedStartMs: number;
+  trimmedEndMs: number;
+  durationMs: number;
+} {
+  const { format, data } = parseWav(bytes);
+  if (!isSupportedFormat(format)) {
+    throw new Error(
+      `Unsupported encoding (format ${format.audioFormat}, ${format.bitsPerSample} bit)`
+    );
+  }
+  const target = makeFormat(
+    format.audioFormat,
+    format.numChannels,
+    format.sampleRate,
+    format.bitsPerSample
+  );
+
+  const { start, end } = trimmedFrames(data, target, options ?? {});
+  const trimmed = data.subarray(
+    start * target.blockAlign,
+    data.length - end * target.blockAlign
+  );
+
+  return {
+    bytes: writeWav(encodeFmtChunk(target), [trimmed]),
+    trimmedStartMs: (start / target.sampleRate) * 1000,
+    trimmedEndMs: (end / target.sampleRate) * 1000,
+    durationMs: (trimmed.length / target.byteRate) * 1000,
+  };
+}
+
+/**
+ * Compute the min/max peaks of a WAV file's data chunk
+ * @param bytes - Contents of the WAV file
+ * @param buckets - Number of equally long buckets to split the audio into
+ * @returns The duration and the peaks of each bucket
+ */
+export function wavPeaks(
+  bytes: Uint8Array,
+  buckets: number
+): WaveformPeaksResult {
+  const { format, data } = parseWav(bytes);
+  if (!isSupportedFormat(format)) {
+    throw new Error(
+      `Unsupported encoding (format ${format.audioFormat}, ${format.bitsPerSample} bit)`
+    );
+  }
+
+  const { min, max } = computePeaks(
+    decodeSamples(data, format),
+    format.numChannels,
+    buckets
+  );
+  return {
+    durationMs:
+      (Math.floor(data.length / format.blockAlign) / format.sampleRate) * 1000,
+    min,
+    max,
+  };
+}
+
+// Parse a WAV file for editing, which copies the data verbatim
+const parseForEditing = (bytes: Uint8Array) => {
+  const parsed = parseWav(bytes);
+  if (!isSupportedFormat(parsed.format)) {
+    throw new Error(
+      `Unsupported encoding (format ${parsed.format.audioFormat}, ${parsed.format.bitsPerSample} bit)`
+    );
+  }
+  const frames = Math.floor(parsed.data.length / parsed.format.blockAlign);
+  const toFrame = (ms: number) =>
+    Math.min(frames, Math.round((ms * parsed.format.sampleRate) / 1000));
+  const toMs = (frame: number) => (frame / parsed.format.sampleRate) * 1000;
+  return { ...parsed, frames, toFrame, toMs };
+};
+
+/**
+ * Split a WAV file at the given offsets. Every part keeps the original fmt
+ * chunk.
+ * @param bytes - Contents of the WAV file
+ * @param offsetsMs - Where to split, in milliseconds from the start
+ * @returns Contents of each part and where it was in the original audio
+ */
+export function splitWav(
+  bytes: Uint8Array,
+  offsetsMs: number[]
+): { bytes: Uint8Array; startMs: number; endMs: number; durationMs: number }[] {
+  const { format, fmtChunk, data, frames, toFrame, toMs } =
+    parseForEditing(bytes);
+  // Offsets outside the audio, or that round to the same frame, would make
+  // empty parts
+  const boundaries = [
+    0,
+    ...[...offsetsMs].sort((a, b) => a - b).map(toFrame),
+    frames,
+  ];
+  for (let i = 1; i < boundaries.length; i++) {
+    if (!(boundaries[i] > boundaries[i - 1])) {
+      throw new Error("offsetsMs must be distinct offsets inside the audio");
+    }
+  }
+
+  return boundaries.slice(1).map((end, index) => {
+    const start = boundaries[index];
+    return {
+      bytes: writeWav(fmtChunk, [
+        data.subarray(start * format.blockAlign, end * format.blockAlign),
+      ]),
+      startMs: toMs(start),
+      endMs: toMs(end),
+      durationMs: toMs(end - start),
+    };
+  });
+}
+
+/**
+ * Remove a range from a WAV file, joining the audio either side of it. The
+ * fmt chunk is kept as is.
+ * @param bytes - Contents of the WAV file
+ * @param startMs - Start of the range to remove
+ * @param endMs - End of the range to remove, clamped to the end of the audio
+ * @returns Contents of the edited WAV file and how much was removed
+ */
+export function cutWav(
+  bytes: Uint8Array,
+  startMs: number,
+  endMs: number
+): { bytes: Uint8Array; durationMs: number; removedMs: number } {
+  const { format, fmtChunk, data, frames, toFrame, toMs } =
+    parseForEditing(bytes);
+  if (!(startMs >= 0 && endMs > startMs)) {
+    throw new Error(
+      "endMs must be after startMs, and startMs can't be negative"
+    );
+  }
+  const start = toFrame(startMs);
+  const end = toFrame(endMs);
+  if (start >= frames) {
+    throw new Error("startMs is past the end of the audio");
+  }
+
+  return {
+    bytes: writeWav(fmtChunk, [
+      data.subarray(0, start * format.blockAlign),
+      data.subarray(end * format.blockAlign, frames * format.blockAlign),
+    ]),
+    durationMs: toMs(frames - (end - start)),
+    removedMs: toMs(end - start),
+  };
+}
+
+// Render segments with gaps, crossfades and fades applied
+function applyTransitions(
+  data: Uint8Array[],
+  frameCounts: number[],
+  format: WavFormat,
+  transitions: ResolvedTransitions
+): Uint8Array[] {
+  const channels = format.numChannels;
+  const { gapFrames, overlaps, fadeInFrames, fadeOutFrames, curve } =
+    transitions;
+  const gap = encodeSamples(new Float32Array(gapFrames * channels), format);
+  const output: Uint8Array[] = [];
+  let heldTail: Float32Array | null = null;
+
+  data.forEach((chunk, index) => {
+    const samples = decodeSamples(chunk, format);
+    applyFades(samples, channels, fadeInFrames, fadeOutFrames);
+
+    if (index > 0 && gapFrames > 0) {
+      output.push(gap);
+    }
+
+    const head = overlaps[index] * channels;
+    const tail = (frameCounts[index] - (overlaps[index + 1] ?? 0)) * channels;
+    if (heldTail && head > 0) {
+      output.push(
+        encodeSamples(
+          crossfade(heldTail, samples.subarray(0, head), channels, curve),
+          format
+        )
+      );
+    }
+    output.push(encodeSamples(samples.subarray(head, tail), format));
+    // Held back to be mixed into the next segment
+    heldTail = samples.subarray(tail, frameCounts[index] * channels);
+  });
+
+  return output;
+}
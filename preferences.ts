@@ -0,0 +1,44 @@
+import * as FileSystem from "expo-file-system";
+
+// How the record button in RecordingOverlay works
+export type RecordingMode = "push-to-talk" | "tap-to-toggle" | "hands-free";
+
+export interface Preferences {
+  recordingMode: RecordingMode;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  recordingMode: "push-to-talk",
+};
+
+const PREFERENCES_FILE_NAME = "preferences.json";
+
+const getPreferencesFile = () =>
+  new FileSystem.File(FileSystem.Paths.document, PREFERENCES_FILE_NAME);
+
+/**
+ * Load the user's preferences from the document directory
+ * @returns The stored preferences, with defaults for anything not saved yet
+ */
+export const loadPreferences = async (): Promise<Preferences> => {
+  const file = getPreferencesFile();
+  if (!file.exists) {
+    return DEFAULT_PREFERENCES;
+  }
+
+  return { ...DEFAULT_PREFERENCES, ...JSON.parse(await file.text()) };
+};
+
+/**
+ * Write the user's preferences, replacing the previous ones
+ * @param preferences - Preferences to persist
+ */
+export const savePreferences = async (
+  preferences: Preferences
+): Promise<void> => {
+  const file = getPreferencesFile();
+  if (!file.exists) {
+    file.create();
+  }
+  file.write(JSON.stringify(preferences));
+};
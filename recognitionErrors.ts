@@ -0,0 +1,120 @@
+import type { ExpoSpeechRecognitionErrorCode } from "expo-speech-recognition";
+import { isIncompatibleAudioFormatError } from "./modules/audioutils";
+
+// Errors of `useResumableSpeechRecognition`. Actions reject with them, and
+// errors that happen while recording in the background are passed to the
+// hook's `onError` option. Both end up in its `lastError` state.
+export const ERR_PERMISSION_DENIED = "ERR_PERMISSION_DENIED";
+export const ERR_ALREADY_LISTENING = "ERR_ALREADY_LISTENING";
+export const ERR_NO_SESSION = "ERR_NO_SESSION";
+export const ERR_RECOGNIZER = "ERR_RECOGNIZER";
+export const ERR_FILE_IO = "ERR_FILE_IO";
+
+export type RecognitionError =
+  | PermissionDeniedError
+  | AlreadyListeningError
+  | NoSessionError
+  | RecognizerError
+  | FileIOError;
+
+export type RecognitionErrorCode = RecognitionError["code"];
+
+/**
+ * Thrown when microphone or speech recognition permissions weren't granted
+ */
+export class PermissionDeniedError extends Error {
+  readonly code = ERR_PERMISSION_DENIED;
+
+  constructor() {
+    super(
+      "Microphone or speech recognition permission was denied. Allow it in the system settings and try again."
+    );
+    this.name = "PermissionDeniedError";
+  }
+}
+
+/**
+ * Thrown when an action needs the recognizer to be idle, e.g. re-recording a
+ * segment or editing the file that is being recorded
+ */
+export class AlreadyListeningError extends Error {
+  readonly code = ERR_ALREADY_LISTENING;
+
+  constructor(message = "A recording is in progress. Pause it first.") {
+    super(message);
+    this.name = "AlreadyListeningError";
+  }
+}
+
+/**
+ * Thrown when an action needs a session, or a segment of one, that doesn't exist
+ */
+export class NoSessionError extends Error {
+  readonly code = ERR_NO_SESSION;
+
+  constructor(
+    message = "There is no session to continue. Start a new recording."
+  ) {
+    super(message);
+    this.name = "NoSessionError";
+  }
+}
+
+/**
+ * Reported when the speech recognizer fails with an error it can't recover from
+ */
+export class RecognizerError extends Error {
+  readonly code = ERR_RECOGNIZER;
+
+  constructor(
+    readonly recognizerCode:
+      | ExpoSpeechRecognitionErrorCode
+      | "start-failed"
+      | "stop-failed"
+      | "timed-out",
+    details: string
+  ) {
+    super(`Speech recognition failed (${recognizerCode}): ${details}`);
+    this.name = "RecognizerError";
+  }
+}
+
+/**
+ * Thrown when a recording or the session list can't be read, written or deleted
+ */
+export class FileIOError extends Error {
+  readonly code = ERR_FILE_IO;
+
+  constructor(readonly uri: string, readonly cause: unknown) {
+    super(
+      `Couldn't access ${uri.split("/").pop()}: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`
+    );
+    this.name = "FileIOError";
+  }
+}
+
+/**
+ * Check whether an error is one of the hook's errors
+ */
+export function isRecognitionError(error: unknown): error is RecognitionError {
+  return (
+    error instanceof PermissionDeniedError ||
+    error instanceof AlreadyListeningError ||
+    error instanceof NoSessionError ||
+    error instanceof RecognizerError ||
+    error instanceof FileIOError
+  );
+}
+
+/**
+ * Message to show for an error thrown by one of the hook's actions or an
+ * audioutils function. The hook's errors explain what to do and format errors
+ * name the file, anything else gets the fallback.
+ */
+export function errorMessage(error: unknown, fallback: string): string {
+  return isRecognitionError(error) || isIncompatibleAudioFormatError(error)
+    ? error.message
+    : fallback;
+}
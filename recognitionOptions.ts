@@ -0,0 +1,67 @@
+import type { ExpoSpeechRecognitionOptions } from "expo-speech-recognition";
+
+// Recognition options that belong to a session rather than to the app, so
+// sessions dictated in different languages keep their own. The rest of
+// `ExpoSpeechRecognitionOptions` is shared by all sessions.
+export interface SessionRecognitionOptions {
+  /** BCP-47 language tag, e.g. "en-US" */
+  lang: string;
+  /** Words and phrases the recognizer should expect, e.g. names */
+  contextualStrings?: string[];
+  /** Recognize on the device instead of over the network */
+  requiresOnDeviceRecognition?: boolean;
+}
+
+export const DEFAULT_SESSION_RECOGNITION_OPTIONS: SessionRecognitionOptions = {
+  lang: "en-US",
+};
+
+// Languages offered by the language picker
+export const RECOGNITION_LANGUAGES: { lang: string; label: string }[] = [
+  { lang: "en-US", label: "English" },
+  { lang: "de-DE", label: "Deutsch" },
+  { lang: "fr-FR", label: "Français" },
+  { lang: "es-ES", label: "Español" },
+  { lang: "it-IT", label: "Italiano" },
+  { lang: "nl-NL", label: "Nederlands" },
+];
+
+/**
+ * Take the session's own options out of recognizer options
+ * @param options - Options passed to `start()`
+ * @returns The options that were set, to merge into the session's
+ */
+export const pickSessionRecognitionOptions = ({
+  lang,
+  contextualStrings,
+  requiresOnDeviceRecognition,
+}: ExpoSpeechRecognitionOptions): Partial<SessionRecognitionOptions> => ({
+  ...(lang !== undefined && { lang }),
+  ...(contextualStrings !== undefined && { contextualStrings }),
+  ...(requiresOnDeviceRecognition !== undefined && {
+    requiresOnDeviceRecognition,
+  }),
+});
+
+/**
+ * Move segment language tags from an audio file to the files that replace it
+ * @param segmentLanguages - Language of each audio file of a session
+ * @param uri - The replaced audio file
+ * @param replacements - Files that take its place, none when it's deleted
+ * @param lang - Language of the replacements, by default the replaced file's
+ */
+export const replaceSegmentLanguage = (
+  segmentLanguages: Record<string, string>,
+  uri: string,
+  replacements: string[],
+  lang = segmentLanguages[uri]
+): Record<string, string> => {
+  const languages = { ...segmentLanguages };
+  delete languages[uri];
+  if (lang !== undefined) {
+    for (const replacement of replacements) {
+      languages[replacement] = lang;
+    }
+  }
+  return languages;
+};
@@ -0,0 +1,54 @@
+import type { ExpoSpeechRecognitionErrorCode } from "expo-speech-recognition";
+
+export interface RetryPolicy {
+  /** Restarts after consecutive transient errors before giving up */
+  maxRetries: number;
+  /** Delay before the first restart */
+  initialDelayMs: number;
+  /** Upper bound of the delay between restarts */
+  maxDelayMs: number;
+  /** Factor the delay grows by with every consecutive restart */
+  backoffFactor: number;
+  /** Error codes worth restarting after, any other code is fatal */
+  transientErrors: ExpoSpeechRecognitionErrorCode[];
+}
+
+// Silence timeouts, audio interruptions and flaky connections go away by
+// themselves. Permission, language and grammar errors, and an explicit abort,
+// won't change by trying again.
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 5000,
+  backoffFactor: 2,
+  transientErrors: [
+    "no-speech",
+    "speech-timeout",
+    "network",
+    "audio-capture",
+    "busy",
+    "client",
+    "unknown",
+  ],
+};
+
+/**
+ * Whether recognition should be restarted after an error
+ * @param code - Error code of the recognizer's `error` event
+ * @param policy - Retry policy
+ */
+export const isTransientError = (
+  code: ExpoSpeechRecognitionErrorCode,
+  policy: RetryPolicy
+) => policy.transientErrors.includes(code);
+
+/**
+ * Delay before a restart, growing exponentially with the attempt
+ * @param attempt - Number of restarts already made since the last success, from 0
+ * @param policy - Retry policy
+ */
+export const retryDelay = (attempt: number, policy: RetryPolicy) =>
+  Math.min(
+    policy.initialDelayMs * Math.pow(policy.backoffFactor, attempt),
+    policy.maxDelayMs
+  );
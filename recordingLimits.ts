@@ -0,0 +1,105 @@
+// Limits that end a recording without the user, so a forgotten recording
+// doesn't keep filling the document directory. Checked by the hook while
+// listening.
+
+export interface RecordingLimits {
+  /** Pause after this long without audible input */
+  silenceTimeoutMs?: number;
+  /**
+   * Input at or below this volume counts as silence, on the recognizer's
+   * `volumechange` scale from -2 to 10. Defaults to 0, below which the
+   * recognizer considers input inaudible.
+   */
+  silenceThreshold?: number;
+  /** Pause a segment once it's this long */
+  maxSegmentDurationMs?: number;
+  /** Stop the session once all its segments together are this long */
+  maxSessionDurationMs?: number;
+}
+
+export type AutoStopReason =
+  | "silence"
+  | "max-segment-duration"
+  | "max-session-duration";
+
+export interface AutoStop {
+  reason: AutoStopReason;
+  /** Whether the session was paused, so it can be resumed, or stopped */
+  action: "pause" | "stop";
+}
+
+export interface RecordingProgress {
+  now: number;
+  /** When recording into the current segment started */
+  segmentStartedAt: number;
+  /** When the input was last louder than the silence threshold */
+  lastSoundAt: number;
+  /** Length of the session's earlier segments */
+  recordedMs: number;
+}
+
+export const DEFAULT_SILENCE_THRESHOLD = 0;
+
+/**
+ * Whether the recording volume counts as sound
+ * @param value - Volume of a `volumechange` event
+ * @param limits - Recording limits
+ */
+export const isAudible = (value: number, limits: RecordingLimits) =>
+  value > (limits.silenceThreshold ?? DEFAULT_SILENCE_THRESHOLD);
+
+/**
+ * Check a recording against its limits. The session limit wins over the
+ * others, since pausing would only let it be resumed past the limit.
+ * @param progress - Timing of the current recording
+ * @param limits - Recording limits
+ * @returns How to end the recording, or null to keep recording
+ */
+export const checkRecordingLimits = (
+  progress: RecordingProgress,
+  limits: RecordingLimits
+): AutoStop | null => {
+  const segmentMs = progress.now - progress.segmentStartedAt;
+
+  if (
+    limits.maxSessionDurationMs !== undefined &&
+    progress.recordedMs + segmentMs >= limits.maxSessionDurationMs
+  ) {
+    return { reason: "max-session-duration", action: "stop" };
+  }
+  if (
+    limits.maxSegmentDurationMs !== undefined &&
+    segmentMs >= limits.maxSegmentDurationMs
+  ) {
+    return { reason: "max-segment-duration", action: "pause" };
+  }
+  if (
+    limits.silenceTimeoutMs !== undefined &&
+    progress.now - progress.lastSoundAt >= limits.silenceTimeoutMs
+  ) {
+    return { reason: "silence", action: "pause" };
+  }
+  return null;
+};
+
+/**
+ * Message for the UI explaining why recording ended
+ */
+export const describeAutoStop = ({ reason, action }: AutoStop) => {
+  const ended = action === "stop" ? "Stopped" : "Paused";
+  switch (reason) {
+    case "silence":
+      return `${ended} after a period of silence`;
+    case "max-segment-duration":
+      return `${ended}: the segment reached its maximum length`;
+    case "max-session-duration":
+      return `${ended}: the session reached its maximum length`;
+  }
+};
+
+// Limits the app records with, the hook applies none unless given some
+export const DEFAULT_RECORDING_LIMITS: RecordingLimits = {
+  silenceTimeoutMs: 30_000,
+  maxSegmentDurationMs: 10 * 60_000,
+  maxSessionDurationMs: 2 * 60 * 60_000,
+};
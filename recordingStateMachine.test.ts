@@ -0,0 +1,172 @@
+import {
+  initialRecordingState,
+  RecordingEffect,
+  RecordingEvent,
+  RecordingState,
+  transition,
+} from "./recordingStateMachine";
+import { checkRecordingLimits, RecordingLimits } from "./recordingLimits";
+
+const state = (
+  status: RecordingState["status"],
+  queued: RecordingState["queued"] = null
+): RecordingState => ({ status, queued });
+
+// Feed events one after the other, collecting the effects
+const run = (from: RecordingState, events: RecordingEvent[]) =>
+  events.reduce(
+    ({ state, effects }, event) => {
+      const next = transition(state, event);
+      return { state: next.state, effects: [...effects, ...next.effects] };
+    },
+    { state: from, effects: [] as RecordingEffect[] }
+  );
+
+describe("transition", () => {
+  it("records a segment from start to pause", () => {
+    const { state: end, effects } = run(initialRecordingState, [
+      { type: "START" },
+      { type: "PERMISSION_GRANTED" },
+      { type: "RECOGNITION_STARTED" },
+      { type: "PAUSE" },
+      { type: "RECOGNITION_ENDED" },
+    ]);
+    expect(end).toEqual(state("paused"));
+    expect(effects).toEqual([
+      "requestPermission",
+      "startRecognition",
+      "stopRecognition",
+    ]);
+  });
+
+  it("queues a start while stopping and starts once stopped", () => {
+    const stopping = transition(state("stopping"), { type: "START" });
+    expect(stopping).toEqual({
+      state: state("stopping", "start"),
+      effects: [],
+    });
+
+    const ended = transition(stopping.state, { type: "RECOGNITION_ENDED" });
+    expect(ended).toEqual({
+      state: state("requesting-permission"),
+      effects: ["endSession", "requestPermission"],
+    });
+  });
+
+  it("queues a pause that arrives while starting", () => {
+    const { state: starting } = run(initialRecordingState, [
+      { type: "START" },
+      { type: "PERMISSION_GRANTED" },
+      { type: "PAUSE" },
+    ]);
+    expect(starting).toEqual(state("starting", "pause"));
+
+    expect(transition(starting, { type: "RECOGNITION_STARTED" })).toEqual({
+      state: state("pausing"),
+      effects: ["stopRecognition"],
+    });
+  });
+
+  it("keeps a queued stop when a pause arrives while starting", () => {
+    expect(
+      transition(state("starting", "stop"), { type: "PAUSE" }).state
+    ).toEqual(state("starting", "stop"));
+  });
+
+  it("cancels a queued pause when started again", () => {
+    expect(
+      transition(state("starting", "pause"), { type: "START" }).state
+    ).toEqual(state("starting"));
+  });
+
+  it("ends the session on a recognizer error while stopping", () => {
+    expect(
+      transition(state("stopping"), {
+        type: "RECOGNITION_ERROR",
+        error: "aborted",
+        transient: true,
+      })
+    ).toEqual({ state: state("stopped"), effects: ["endSession"] });
+  });
+
+  it("pauses on a recognizer error while pausing", () => {
+    expect(
+      transition(state("pausing"), {
+        type: "RECOGNITION_ERROR",
+        error: "aborted",
+        transient: false,
+      })
+    ).toEqual({ state: state("paused"), effects: [] });
+  });
+
+  it("retries transient errors and fails on fatal ones", () => {
+    expect(
+      transition(state("listening"), {
+        type: "RECOGNITION_ERROR",
+        error: "network",
+        transient: true,
+      })
+    ).toEqual({ state: state("retrying"), effects: ["scheduleRetry"] });
+    expect(
+      transition(state("listening"), {
+        type: "RECOGNITION_ERROR",
+        error: "not-allowed",
+        transient: false,
+      })
+    ).toEqual({ state: state("error"), effects: [] });
+  });
+
+  it("cancels a pending retry when stopped", () => {
+    expect(transition(state("retrying"), { type: "STOP" })).toEqual({
+      state: state("stopped"),
+      effects: ["cancelRetry", "endSession"],
+    });
+  });
+
+  it("ignores events that don't apply", () => {
+    const idle = state("idle");
+    expect(transition(idle, { type: "PAUSE" })).toEqual({
+      state: idle,
+      effects: [],
+    });
+    expect(transition(state("listening"), { type: "RESET" }).state).toEqual(
+      state("listening")
+    );
+  });
+});
+
+describe("limit auto-stop", () => {
+  const progress = {
+    now: 100_000,
+    segmentStartedAt: 0,
+    lastSoundAt: 90_000,
+    recordedMs: 0,
+  };
+
+  // What the hook dispatches when a limit is reached
+  const autoStop = (limits: RecordingLimits) => {
+    const reached = checkRecordingLimits(progress, limits);
+    return reached
+      ? transition(state("listening"), {
+          type: reached.action === "stop" ? "STOP" : "PAUSE",
+        })
+      : null;
+  };
+
+  it("pauses after silence", () => {
+    expect(autoStop({ silenceTimeoutMs: 5_000 })).toEqual({
+      state: state("pausing"),
+      effects: ["stopRecognition"],
+    });
+  });
+
+  it("stops when the session reaches its maximum length", () => {
+    expect(
+      autoStop({ silenceTimeoutMs: 5_000, maxSessionDurationMs: 60_000 })
+    ).toEqual({ state: state("stopping"), effects: ["stopRecognition"] });
+  });
+
+  it("keeps recording below the limits", () => {
+    expect(autoStop({ silenceTimeoutMs: 30_000 })).toBeNull();
+  });
+});
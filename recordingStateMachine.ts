@@ -0,0 +1,227 @@
+// Lifecycle of a recording as a state machine. The hook feeds it user intents
+// and recognizer events, and performs the effects each transition returns.
+// Kept free of React and the recognizer so transitions can be tested on their own.
+
+export type RecordingStatus =
+  | "idle"
+  | "requesting-permission"
+  | "starting"
+  | "listening"
+  | "pausing"
+  | "paused"
+  | "stopping"
+  | "stopped"
+  /** Waiting to restart after a transient recognizer error */
+  | "retrying"
+  | "error";
+
+/** What the user asked for while the recognizer was busy with something else */
+export type RecordingIntent = "start" | "pause" | "stop";
+
+export type RecordingEvent =
+  // User intents
+  | { type: "START" }
+  | { type: "PAUSE" }
+  | { type: "STOP" }
+  /** Forget a finished recording, e.g. when a new session is created */
+  | { type: "RESET" }
+  // Permission request outcome
+  | { type: "PERMISSION_GRANTED" }
+  | { type: "PERMISSION_DENIED" }
+  // Recognizer events
+  | { type: "RECOGNITION_STARTED" }
+  | { type: "RECOGNITION_ENDED" }
+  /** `transient` errors are retried as long as the retry policy allows */
+  | { type: "RECOGNITION_ERROR"; error: unknown; transient: boolean }
+  /** The retry delay after a transient error has passed */
+  | { type: "RETRY" };
+
+export type RecordingEffect =
+  | "requestPermission"
+  | "startRecognition"
+  | "stopRecognition"
+  | "scheduleRetry"
+  | "cancelRetry"
+  /** Mark the recorded session as finished */
+  | "endSession";
+
+export interface RecordingState {
+  status: RecordingStatus;
+  /** Intent to apply once the pending transition completes */
+  queued: RecordingIntent | null;
+}
+
+export interface RecordingTransition {
+  state: RecordingState;
+  effects: RecordingEffect[];
+}
+
+export const initialRecordingState: RecordingState = {
+  status: "idle",
+  queued: null,
+};
+
+/**
+ * Whether the recognizer is running or about to, i.e. a recording can't be
+ * started and the file being recorded can't be used yet
+ */
+export const isRecordingActive = (status: RecordingStatus) =>
+  status === "requesting-permission" ||
+  status === "starting" ||
+  status === "listening" ||
+  status === "pausing" ||
+  status === "stopping" ||
+  status === "retrying";
+
+const to = (
+  status: RecordingStatus,
+  effects: RecordingEffect[] = [],
+  queued: RecordingIntent | null = null
+): RecordingTransition => ({ state: { status, queued }, effects });
+
+// Apply the intent that was queued while waiting for the recognizer
+const runQueued = (
+  status: "listening" | "paused" | "stopped",
+  queued: RecordingIntent | null
+): RecordingTransition => {
+  if (status === "listening") {
+    if (queued === "pause") return to("pausing", ["stopRecognition"]);
+    if (queued === "stop") return to("stopping", ["stopRecognition"]);
+    return to("listening");
+  }
+  if (queued === "start") {
+    return to("requesting-permission", ["requestPermission"]);
+  }
+  if (status === "paused" && queued === "stop") {
+    return to("stopped", ["endSession"]);
+  }
+  return to(status);
+};
+
+/**
+ * Compute the next state for an event. Events that don't apply to the current
+ * state leave it unchanged without effects.
+ * @param state - Current state
+ * @param event - User intent or recognizer event
+ * @returns The next state and the effects to perform, in order
+ */
+export const transition = (
+  state: RecordingState,
+  event: RecordingEvent
+): RecordingTransition => {
+  const { status, queued } = state;
+  const unchanged: RecordingTransition = { state, effects: [] };
+
+  switch (event.type) {
+    case "START":
+      switch (status) {
+        case "idle":
+        case "paused":
+        case "stopped":
+        case "error":
+          return to("requesting-permission", ["requestPermission"]);
+        // Pressing again before the start went through cancels a queued
+        // pause or stop
+        case "requesting-permission":
+        case "starting":
+        case "retrying":
+          return to(status);
+        case "pausing":
+        case "stopping":
+          return to(status, [], "start");
+        default:
+          return unchanged;
+      }
+
+    case "PAUSE":
+      switch (status) {
+        case "requesting-permission":
+        case "starting":
+          return to(status, [], queued === "stop" ? "stop" : "pause");
+        case "listening":
+          return to("pausing", ["stopRecognition"]);
+        case "retrying":
+          return to("paused", ["cancelRetry"]);
+        // Releasing before a queued restart happened cancels it
+        case "pausing":
+        case "stopping":
+          return to(status);
+        default:
+          return unchanged;
+      }
+
+    case "STOP":
+      switch (status) {
+        case "requesting-permission":
+        case "starting":
+          return to(status, [], "stop");
+        case "listening":
+          return to("stopping", ["stopRecognition"]);
+        // The recognizer is already stopping, only the outcome changes
+        case "pausing":
+        case "stopping":
+          return to("stopping");
+        case "paused":
+        case "error":
+          return to("stopped", ["endSession"]);
+        case "retrying":
+          return to("stopped", ["cancelRetry", "endSession"]);
+        default:
+          return unchanged;
+      }
+
+    case "RESET":
+      return isRecordingActive(status) ? unchanged : to("idle");
+
+    case "PERMISSION_GRANTED":
+      if (status !== "requesting-permission") return unchanged;
+      return to("starting", ["startRecognition"], queued);
+
+    case "PERMISSION_DENIED":
+      return status === "requesting-permission" ? to("error") : unchanged;
+
+    case "RETRY":
+      return status === "retrying"
+        ? to("starting", ["startRecognition"])
+        : unchanged;
+
+    case "RECOGNITION_STARTED":
+      return status === "starting" ? runQueued("listening", queued) : unchanged;
+
+    case "RECOGNITION_ENDED":
+      switch (status) {
+        // The recognizer can end on its own, e.g. when it stops hearing speech
+        case "starting":
+        case "listening":
+          return queued === "stop"
+            ? to("stopped", ["endSession"])
+            : to("paused");
+        case "pausing":
+          return runQueued("paused", queued);
+        case "stopping": {
+          const next = runQueued("stopped", queued);
+          return { ...next, effects: ["endSession", ...next.effects] };
+        }
+        default:
+          return unchanged;
+      }
+
+    case "RECOGNITION_ERROR":
+      switch (status) {
+        case "starting":
+        case "listening":
+          if (queued === "stop") return to("stopped", ["endSession"]);
+          if (!event.transient) return to("error");
+          // The user was about to pause anyway
+          if (queued === "pause") return to("paused");
+          return to("retrying", ["scheduleRetry"]);
+        // Errors while stopping, e.g. "aborted", don't change the outcome
+        case "pausing":
+          return to("paused");
+        case "stopping":
+          return to("stopped", ["endSession"]);
+        default:
+          return unchanged;
+      }
+  }
+};
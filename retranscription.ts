@@ -0,0 +1,76 @@
+// Alternative transcripts from feeding a session's recordings back through
+// the recognizer. They're kept next to the live transcripts until the user
+// accepts them segment by segment.
+
+import { sortTranscriptsBySegment } from "./segmentTiming";
+import { createResult } from "./transcriptRevisions";
+import type {
+  RecordingSession,
+  SpeechRecognitionResult,
+} from "./useResumableSpeechRecognition";
+
+/**
+ * Store the re-transcription of one of a session's files, replacing an
+ * earlier one
+ * @param session - Session the file belongs to
+ * @param uri - The re-transcribed audio file
+ * @param transcripts - Final results of the file, in order
+ */
+export const setAlternativeTranscripts = (
+  session: RecordingSession,
+  uri: string,
+  transcripts: string[]
+): RecordingSession => ({
+  ...session,
+  alternativeTranscripts: sortTranscriptsBySegment(
+    [
+      ...discardAlternative(session, uri).alternativeTranscripts,
+      ...transcripts.map((transcript) => createResult(transcript, uri)),
+    ],
+    session.audioFiles
+  ),
+});
+
+/**
+ * Alternative results of one of a session's files
+ */
+export const alternativesForFile = (
+  session: RecordingSession,
+  uri: string
+): SpeechRecognitionResult[] =>
+  session.alternativeTranscripts.filter(
+    (transcript) => transcript.audioFileUri === uri
+  );
+
+/**
+ * Replace a file's live results with its alternative ones
+ */
+export const acceptAlternative = (
+  session: RecordingSession,
+  uri: string
+): RecordingSession => ({
+  ...discardAlternative(session, uri),
+  transcripts: sortTranscriptsBySegment(
+    [
+      ...session.transcripts.filter(
+        (transcript) => transcript.audioFileUri !== uri
+      ),
+      ...alternativesForFile(session, uri),
+    ],
+    session.audioFiles
+  ),
+});
+
+/**
+ * Drop a file's alternative results, e.g. because they're worse or the audio
+ * they were made from changed
+ */
+export const discardAlternative = (
+  session: RecordingSession,
+  uri: string
+): RecordingSession => ({
+  ...session,
+  alternativeTranscripts: session.alternativeTranscripts.filter(
+    (transcript) => transcript.audioFileUri !== uri
+  ),
+});
@@ -0,0 +1,120 @@
+import * as FileSystem from "expo-file-system";
+import { AudioSegment, readAudioInfo } from "./modules/audioutils";
+import type {
+  RecordingSession,
+  SpeechRecognitionResult,
+} from "./useResumableSpeechRecognition";
+
+// Enough to cover the RIFF header and any chunks before the data chunk
+const HEADER_READ_SIZE = 4096;
+
+/**
+ * Work out the duration of a recorded WAV file from its header and size
+ * @param uri - URI of the WAV file
+ * @returns Duration in milliseconds, or undefined if it couldn't be read
+ */
+export const measureAudioDuration = (uri: string): number | undefined => {
+  try {
+    const file = new FileSystem.File(uri);
+    if (!file.exists) {
+      return undefined;
+    }
+
+    const handle = file.open();
+    try {
+      const header = handle.readBytes(Math.min(file.size, HEADER_READ_SIZE));
+      return readAudioInfo(header, file.size).durationMs;
+    } finally {
+      handle.close();
+    }
+  } catch (error) {
+    console.warn("Could not measure audio duration:", uri, error);
+    return undefined;
+  }
+};
+
+/**
+ * Append a segment to the end of a session's timeline
+ * @param segments - Existing segments of the session
+ * @param uri - URI of the new audio file
+ * @param durationMs - Duration of the new audio file
+ */
+export const appendSegment = (
+  segments: AudioSegment[],
+  uri: string,
+  durationMs: number
+): AudioSegment[] => {
+  const startMs = segments.length > 0 ? segments[segments.length - 1].endMs : 0;
+  return [
+    ...segments,
+    { uri, durationMs, startMs, endMs: startMs + durationMs },
+  ];
+};
+
+/**
+ * Find the segment of the joined audio that a transcript result was spoken in
+ */
+export const findSegmentForResult = (
+  session: RecordingSession,
+  result: SpeechRecognitionResult
+): AudioSegment | undefined =>
+  result.audioFileUri
+    ? session.segments.find((segment) => segment.uri === result.audioFileUri)
+    : undefined;
+
+/**
+ * Replace a segment with the files an edit produced, e.g. the parts of a split.
+ * Segments are laid out back to back again until the session is re-joined.
+ * @param segments - Existing segments of the session
+ * @param uri - URI of the edited audio file
+ * @param replacements - New audio files and their durations, in order
+ */
+export const replaceSegment = (
+  segments: AudioSegment[],
+  uri: string,
+  replacements: { uri: string; durationMs: number }[]
+): AudioSegment[] =>
+  segments
+    .flatMap((segment) => (segment.uri === uri ? replacements : [segment]))
+    .reduce<AudioSegment[]>(
+      (result, segment) =>
+        appendSegment(result, segment.uri, segment.durationMs),
+      []
+    );
+
+/**
+ * Lay out segments back to back in a new order
+ * @param segments - Existing segments of the session
+ * @param audioFiles - URIs of the audio files in their new order
+ */
+export const reorderSegments = (
+  segments: AudioSegment[],
+  audioFiles: string[]
+): AudioSegment[] =>
+  audioFiles.reduce<AudioSegment[]>((result, uri) => {
+    const segment = segments.find((segment) => segment.uri === uri);
+    return segment ? appendSegment(result, uri, segment.durationMs) : result;
+  }, []);
+
+/**
+ * Order transcript results by the position of their audio file in the session,
+ * keeping the recognition order within a file. Results whose file isn't in the
+ * session yet go last.
+ */
+export const sortTranscriptsBySegment = (
+  transcripts: SpeechRecognitionResult[],
+  audioFiles: string[]
+): SpeechRecognitionResult[] => {
+  const position = (result: SpeechRecognitionResult) => {
+    const index = result.audioFileUri
+      ? audioFiles.indexOf(result.audioFileUri)
+      : -1;
+    return index < 0 ? audioFiles.length : index;
+  };
+  return transcripts
+    .map((result, index) => ({ result, index }))
+    .sort(
+      (a, b) => position(a.result) - position(b.result) || a.index - b.index
+    )
+    .map(({ result }) => result);
+};
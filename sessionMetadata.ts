@@ -0,0 +1,91 @@
+// Titles, notes and tags of sessions, and filtering the session list by them.
+// A session without a title of its own is named after the start of its
+// transcript.
+
+import type { RecordingSession } from "./useResumableSpeechRecognition";
+
+// Longest suggested title, longer first lines are cut at a word
+const MAX_SUGGESTED_TITLE_LENGTH = 40;
+
+export const UNTITLED_SESSION = "Untitled session";
+
+export interface SessionFilter {
+  /** Only sessions with all of these tags */
+  tags: string[];
+  /** Only sessions started at or after this time */
+  from?: Date;
+  /** Only sessions started before this time */
+  to?: Date;
+}
+
+export const EMPTY_SESSION_FILTER: SessionFilter = { tags: [] };
+
+const capitalize = (text: string) =>
+  text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Title made from the first sentence of a session's transcript
+ * @returns The suggestion, or undefined while nothing was transcribed
+ */
+export const suggestSessionTitle = (
+  session: RecordingSession
+): string | undefined => {
+  const text = session.transcripts
+    .map((result) => result.transcript.trim())
+    .find((transcript) => transcript !== "");
+  if (!text) return undefined;
+
+  // First sentence or line
+  const firstLine = text.split(/[\n.!?]/)[0].trim() || text;
+  if (firstLine.length <= MAX_SUGGESTED_TITLE_LENGTH) {
+    return capitalize(firstLine);
+  }
+  const cut = firstLine.slice(0, MAX_SUGGESTED_TITLE_LENGTH + 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${capitalize(
+    (lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trimEnd()
+  )}…`;
+};
+
+/**
+ * Title to show for a session: its own, the suggested one or a placeholder
+ */
+export const getSessionTitle = (session: RecordingSession) =>
+  session.title ?? suggestSessionTitle(session) ?? UNTITLED_SESSION;
+
+/**
+ * Trim, lowercase and deduplicate tags, dropping empty ones
+ */
+export const normalizeTags = (tags: string[]) =>
+  Array.from(
+    new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))
+  );
+
+/**
+ * Tags typed as a comma separated list, e.g. "work, ideas"
+ */
+export const parseTags = (text: string) => normalizeTags(text.split(","));
+
+/**
+ * Every tag used by the sessions, in alphabetical order
+ */
+export const collectTags = (sessions: RecordingSession[]) =>
+  normalizeTags(sessions.flatMap((session) => session.tags)).sort();
+
+/**
+ * Sessions matching a filter, newest first
+ * @param sessions - Sessions to filter
+ * @param filter - Tags and date range to match
+ */
+export const filterSessions = (
+  sessions: RecordingSession[],
+  filter: SessionFilter
+): RecordingSession[] =>
+  sessions
+    .filter(
+      (session) =>
+        filter.tags.every((tag) => session.tags.includes(tag)) &&
+        (!filter.from || session.startTime >= filter.from) &&
+        (!filter.to || session.startTime < filter.to)
+    )
+    .sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
@@ -0,0 +1,152 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  loadSessions,
+  MANIFEST_FILE_NAME,
+  saveSessions,
+  SESSION_STORE_VERSION,
+} from "./sessionStore";
+
+// Contents of the files in the fake document directory, by name
+const mockFiles = new Map<string, string>();
+
+jest.mock("expo-file-system", () => ({
+  Paths: { document: "document" },
+  // Only the manifest exists, recordings can't be measured
+  File: class {
+    private name: string;
+
+    constructor(...parts: string[]) {
+      this.name = parts[parts.length - 1];
+    }
+
+    get exists() {
+      return mockFiles.has(this.name);
+    }
+
+    create() {
+      mockFiles.set(this.name, "");
+    }
+
+    write(contents: string) {
+      mockFiles.set(this.name, contents);
+    }
+
+    async text() {
+      return mockFiles.get(this.name) ?? "";
+    }
+  },
+}));
+
+// The native module isn't available in tests, and isn't used by the store
+jest.mock("./modules/audioutils/src/AudioutilsModule", () => ({}));
+
+const storeManifest = (manifest: unknown) =>
+  mockFiles.set(MANIFEST_FILE_NAME, JSON.stringify(manifest));
+
+const loadFixture = (name: string) =>
+  mockFiles.set(
+    MANIFEST_FILE_NAME,
+    readFileSync(join(__dirname, "__fixtures__", name), "utf8")
+  );
+
+const readManifest = () =>
+  JSON.parse(mockFiles.get(MANIFEST_FILE_NAME) ?? "null");
+
+beforeEach(() => {
+  mockFiles.clear();
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("loadSessions", () => {
+  it("loads nothing before the first save", async () => {
+    expect(await loadSessions()).toEqual([]);
+  });
+
+  it("migrates a v1 manifest to the current version", async () => {
+    loadFixture("sessions-v1.json");
+    const a = "file:///recordings/a.wav";
+    const b = "file:///recordings/b.wav";
+    const createdAt = Date.parse("2023-11-14T22:13:20.000Z");
+
+    expect(await loadSessions()).toEqual([
+      {
+        id: "session_1700000000000_0",
+        startTime: new Date("2023-11-14T22:13:20.000Z"),
+        endTime: new Date("2023-11-14T22:15:00.000Z"),
+        audioFiles: [a, b],
+        // The recordings can't be read here, so they measure 0 ms
+        segments: [
+          { uri: a, durationMs: 0, startMs: 0, endMs: 0 },
+          { uri: b, durationMs: 0, startMs: 0, endMs: 0 },
+        ],
+        transcripts: [
+          {
+            transcript: "hello there",
+            audioFileUri: a,
+            revisions: [
+              { transcript: "hello there", source: "recognizer", createdAt },
+            ],
+            revisionIndex: 0,
+          },
+          {
+            transcript: "general kenobi",
+            revisions: [
+              { transcript: "general kenobi", source: "recognizer", createdAt },
+            ],
+            revisionIndex: 0,
+          },
+        ],
+        alternativeTranscripts: [],
+        recognitionOptions: { lang: "en-US" },
+        segmentLanguages: { [a]: "en-US", [b]: "en-US" },
+        notes: "",
+        tags: [],
+        // Can't be resumed after a restart
+        isActive: false,
+      },
+    ]);
+  });
+
+  it("rejects manifests it can't read", async () => {
+    storeManifest({ version: 1 });
+    await expect(loadSessions()).rejects.toThrow(
+      "Session manifest has no sessions"
+    );
+
+    storeManifest({ sessions: [] });
+    await expect(loadSessions()).rejects.toThrow(
+      "No migration for session manifest version 0"
+    );
+
+    storeManifest({ version: SESSION_STORE_VERSION + 1, sessions: [] });
+    await expect(loadSessions()).rejects.toThrow(
+      `Session manifest version ${SESSION_STORE_VERSION + 1} is newer`
+    );
+  });
+});
+
+describe("saveSessions", () => {
+  it("writes the current version, which loads unchanged", async () => {
+    loadFixture("sessions-v1.json");
+    const sessions = await loadSessions();
+    const renamed = [{ ...sessions[0], title: "Meeting", tags: ["work"] }];
+
+    await saveSessions(renamed);
+    expect(readManifest()).toMatchObject({
+      version: SESSION_STORE_VERSION,
+      sessions: [
+        {
+          startTime: "2023-11-14T22:13:20.000Z",
+          title: "Meeting",
+          tags: ["work"],
+        },
+      ],
+    });
+    expect(await loadSessions()).toEqual(renamed);
+  });
+});
@@ -0,0 +1,286 @@
+import * as FileSystem from "expo-file-system";
+import { measureAudioDuration } from "./segmentTiming";
+import type { RecordingSession } from "./useResumableSpeechRecognition";
+
+// Bump this whenever the shape of `RecordingSession` changes, and add the
+// stored shape of the new version and a migration below that upgrades the
+// previous version.
+export const SESSION_STORE_VERSION = 6;
+
+export const MANIFEST_FILE_NAME = "sessions.json";
+
+// The stored shapes are spelled out instead of reusing the app's types, so
+// changing those can't change what an old manifest looks like. Loading and
+// saving sessions stop compiling once `RecordingSession` no longer fits the
+// current version.
+
+// Result as stored before results kept their revisions (v1 to v4)
+interface StoredResultV1 {
+  transcript: string;
+  audioFileUri?: string;
+}
+
+// Result with its revision history (v5 on)
+interface StoredResultV5 {
+  transcript: string;
+  audioFileUri?: string;
+  revisions: {
+    transcript: string;
+    source: "recognizer" | "user";
+    createdAt: number;
+  }[];
+  revisionIndex: number;
+}
+
+// Timing of a recorded file in the joined audio (v2 on)
+interface StoredSegmentV2 {
+  uri: string;
+  durationMs: number;
+  startMs: number;
+  endMs: number;
+  trimmedStartMs?: number;
+  trimmedEndMs?: number;
+}
+
+// Recognition options of a session (v4 on)
+interface StoredRecognitionOptionsV4 {
+  lang: string;
+  contextualStrings?: string[];
+  requiresOnDeviceRecognition?: boolean;
+}
+
+// On-disk representation of a session in each version (dates are stored as
+// ISO strings). A migration has to produce every field of the next version.
+interface StoredSessionV1 {
+  id: string;
+  startTime: string;
+  endTime?: string;
+  audioFiles: string[];
+  transcripts: StoredResultV1[];
+  isActive: boolean;
+}
+
+interface StoredSessionV2 extends StoredSessionV1 {
+  segments: StoredSegmentV2[];
+}
+
+interface StoredSessionV3 extends StoredSessionV2 {
+  alternativeTranscripts: StoredResultV1[];
+}
+
+interface StoredSessionV4 extends StoredSessionV3 {
+  recognitionOptions: StoredRecognitionOptionsV4;
+  segmentLanguages: Record<string, string>;
+}
+
+interface StoredSessionV5
+  extends Omit<StoredSessionV4, "transcripts" | "alternativeTranscripts"> {
+  transcripts: StoredResultV5[];
+  alternativeTranscripts: StoredResultV5[];
+}
+
+interface StoredSession extends StoredSessionV5 {
+  title?: string;
+  notes: string;
+  tags: string[];
+}
+
+interface StoredSessionVersions {
+  1: StoredSessionV1;
+  2: StoredSessionV2;
+  3: StoredSessionV3;
+  4: StoredSessionV4;
+  5: StoredSessionV5;
+  6: StoredSession;
+}
+
+type StoredVersion = keyof StoredSessionVersions;
+
+interface Manifest<Version extends StoredVersion> {
+  version: Version;
+  sessions: StoredSessionVersions[Version][];
+}
+
+type SessionManifest = Manifest<typeof SESSION_STORE_VERSION>;
+
+// Versions that have a migration, and the version each one upgrades to
+type MigratedVersion = Exclude<StoredVersion, typeof SESSION_STORE_VERSION>;
+type NextVersion<Version extends MigratedVersion> = [
+  never,
+  2,
+  3,
+  4,
+  5,
+  6
+][Version];
+
+// Migrations keyed by the version they upgrade *from*. Each one receives the
+// manifest of that version and returns the manifest for `version + 1`. They
+// build the stored shapes themselves rather than calling into the app, whose
+// helpers follow the current version.
+const migrations: {
+  [Version in MigratedVersion]: (
+    manifest: Manifest<Version>
+  ) => Manifest<NextVersion<Version>>;
+} = {
+  // v2: sessions track segment timing, measured from the recorded files
+  1: (manifest) => ({
+    ...manifest,
+    version: 2,
+    sessions: manifest.sessions.map((session) => ({
+      ...session,
+      segments: session.audioFiles.reduce(
+        (segments: StoredSegmentV2[], uri) => {
+          const startMs = segments[segments.length - 1]?.endMs ?? 0;
+          const durationMs = measureAudioDuration(uri) ?? 0;
+          return [
+            ...segments,
+            { uri, durationMs, startMs, endMs: startMs + durationMs },
+          ];
+        },
+        []
+      ),
+    })),
+  }),
+  // v3: sessions keep re-transcribed results next to the live ones
+  2: (manifest) => ({
+    ...manifest,
+    version: 3,
+    sessions: manifest.sessions.map((session) => ({
+      ...session,
+      alternativeTranscripts: [],
+    })),
+  }),
+  // v4: sessions have their own language, which was always en-US before
+  3: (manifest) => ({
+    ...manifest,
+    version: 4,
+    sessions: manifest.sessions.map((session) => ({
+      ...session,
+      recognitionOptions: { lang: "en-US" },
+      segmentLanguages: Object.fromEntries(
+        session.audioFiles.map((uri) => [uri, "en-US"])
+      ),
+    })),
+  }),
+  // v5: results keep a revision history, starting with the recognizer's text
+  4: (manifest) => ({
+    ...manifest,
+    version: 5,
+    sessions: manifest.sessions.map((session) => {
+      const createdAt = new Date(session.startTime).getTime();
+      const withHistory = ({
+        transcript,
+        audioFileUri,
+      }: StoredResultV1): StoredResultV5 => ({
+        transcript,
+        audioFileUri,
+        revisions: [{ transcript, source: "recognizer", createdAt }],
+        revisionIndex: 0,
+      });
+      return {
+        ...session,
+        transcripts: session.transcripts.map(withHistory),
+        alternativeTranscripts: session.alternativeTranscripts.map(withHistory),
+      };
+    }),
+  }),
+  // v6: sessions have notes and tags, and a title once they're renamed
+  5: (manifest) => ({
+    ...manifest,
+    version: 6,
+    sessions: manifest.sessions.map((session) => ({
+      ...session,
+      notes: "",
+      tags: [],
+    })),
+  }),
+};
+
+const getManifestFile = () =>
+  new FileSystem.File(FileSystem.Paths.document, MANIFEST_FILE_NAME);
+
+const isMigratedVersion = (version: number): version is MigratedVersion =>
+  version in migrations;
+
+const migrateManifest = (manifest: unknown): SessionManifest => {
+  if (
+    typeof manifest !== "object" ||
+    manifest === null ||
+    !("sessions" in manifest) ||
+    !Array.isArray(manifest.sessions)
+  ) {
+    throw new Error("Session manifest has no sessions");
+  }
+
+  let current: object = manifest;
+  let version =
+    "version" in current && typeof current.version === "number"
+      ? current.version
+      : 0;
+
+  if (version > SESSION_STORE_VERSION) {
+    throw new Error(
+      `Session manifest version ${version} is newer than supported version ${SESSION_STORE_VERSION}`
+    );
+  }
+
+  while (version < SESSION_STORE_VERSION) {
+    if (!isMigratedVersion(version)) {
+      throw new Error(`No migration for session manifest version ${version}`);
+    }
+    // The manifest has the shape of its version, which the migration expects
+    const migrate = migrations[version] as (manifest: object) => object;
+    current = migrate(current);
+    version += 1;
+  }
+
+  return current as SessionManifest;
+};
+
+const serializeSession = (session: RecordingSession): StoredSession => ({
+  ...session,
+  startTime: session.startTime.toISOString(),
+  endTime: session.endTime?.toISOString(),
+});
+
+const deserializeSession = (stored: StoredSession): RecordingSession => ({
+  ...stored,
+  startTime: new Date(stored.startTime),
+  endTime: stored.endTime ? new Date(stored.endTime) : undefined,
+  // A session that was active when the app was killed can't be resumed
+  isActive: false,
+});
+
+/**
+ * Load all persisted sessions from the manifest in the document directory
+ * @returns The stored sessions, or an empty array if nothing was saved yet
+ */
+export const loadSessions = async (): Promise<RecordingSession[]> => {
+  const file = getManifestFile();
+  if (!file.exists) {
+    return [];
+  }
+
+  const manifest = migrateManifest(JSON.parse(await file.text()));
+  return manifest.sessions.map(deserializeSession);
+};
+
+/**
+ * Write all sessions to the manifest, replacing its previous contents
+ * @param sessions - Sessions to persist
+ */
+export const saveSessions = async (
+  sessions: RecordingSession[]
+): Promise<void> => {
+  const manifest: SessionManifest = {
+    version: SESSION_STORE_VERSION,
+    sessions: sessions.map(serializeSession),
+  };
+
+  const file = getManifestFile();
+  if (!file.exists) {
+    file.create();
+  }
+  file.write(JSON.stringify(manifest));
+};
@@ -0,0 +1,117 @@
+import {
+  formatMarkdown,
+  formatPlainText,
+  formatSrt,
+  formatWebVtt,
+  getTimedResults,
+} from "./transcriptExport";
+import { createResult } from "./transcriptRevisions";
+import type { RecordingSession } from "./useResumableSpeechRecognition";
+
+// The native module isn't available in tests, and isn't used by the formats
+jest.mock("./modules/audioutils/src/AudioutilsModule", () => ({}));
+
+// Two segments of 3 and 2 seconds, the first with two results
+const session: RecordingSession = {
+  id: "session",
+  startTime: new Date("2024-05-01T10:00:00.000Z"),
+  audioFiles: ["a.wav", "b.wav"],
+  segments: [
+    { uri: "a.wav", durationMs: 3000, startMs: 0, endMs: 3000 },
+    { uri: "b.wav", durationMs: 2000, startMs: 3000, endMs: 5000 },
+  ],
+  transcripts: [
+    createResult("one", "a.wav"),
+    createResult("two two", "a.wav"),
+    createResult(" three ", "b.wav"),
+  ],
+  alternativeTranscripts: [],
+  recognitionOptions: { lang: "en-US" },
+  segmentLanguages: {},
+  notes: "",
+  tags: [],
+  isActive: false,
+};
+
+describe("getTimedResults", () => {
+  it("shares a segment's time between its results by length", () => {
+    expect(
+      getTimedResults(session).map(({ startMs, endMs }) => [startMs, endMs])
+    ).toEqual([
+      [0, 900],
+      [900, 3000],
+      [3000, 5000],
+    ]);
+  });
+
+  it("leaves results without audio untimed", () => {
+    const [timed] = getTimedResults({
+      ...session,
+      transcripts: [createResult("no audio")],
+    });
+    expect(timed.startMs).toBeUndefined();
+    expect(timed.endMs).toBeUndefined();
+  });
+});
+
+describe("formats", () => {
+  it("numbers SRT cues and uses commas before milliseconds", () => {
+    expect(formatSrt(session)).toBe(
+      [
+        "1\n00:00:00,000 --> 00:00:00,900\none\n",
+        "2\n00:00:00,900 --> 00:00:03,000\ntwo two\n",
+        "3\n00:00:03,000 --> 00:00:05,000\nthree\n",
+      ].join("\n")
+    );
+  });
+
+  it("starts WebVTT with its header and uses dots before milliseconds", () => {
+    expect(formatWebVtt(session)).toBe(
+      [
+        "WEBVTT\n",
+        "00:00:00.000 --> 00:00:00.900\none\n",
+        "00:00:00.900 --> 00:00:03.000\ntwo two\n",
+        "00:00:03.000 --> 00:00:05.000\nthree\n",
+      ].join("\n")
+    );
+  });
+
+  it("leaves out cues without audio", () => {
+    const withUntimed = {
+      ...session,
+      transcripts: [...session.transcripts, createResult("no audio")],
+    };
+    expect(formatSrt(withUntimed)).toBe(formatSrt(session));
+  });
+
+  it("prefixes plain text lines with their start time", () => {
+    expect(
+      formatPlainText({
+        ...session,
+        transcripts: [...session.transcripts, createResult("no audio")],
+      })
+    ).toBe("[00:00] one\n[00:00] two two\n[00:03] three\nno audio\n");
+  });
+
+  it("adds hours to timestamps of long sessions", () => {
+    const long = {
+      ...session,
+      segments: [
+        {
+          uri: "a.wav",
+          durationMs: 1000,
+          startMs: 3_723_000,
+          endMs: 3_724_000,
+        },
+      ],
+      transcripts: [createResult("late", "a.wav")],
+    };
+    expect(formatPlainText(long)).toBe("[1:02:03] late\n");
+  });
+
+  it("titles Markdown with the session title", () => {
+    const markdown = formatMarkdown({ ...session, title: "Standup" });
+    expect(markdown.startsWith("# Standup\n\n_Recorded ")).toBe(true);
+    expect(markdown.endsWith("**[00:03]** three\n")).toBe(true);
+  });
+});
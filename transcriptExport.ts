@@ -0,0 +1,178 @@
+import * as FileSystem from "expo-file-system";
+import { findSegmentForResult } from "./segmentTiming";
+import { getSessionTitle } from "./sessionMetadata";
+import type {
+  RecordingSession,
+  SpeechRecognitionResult,
+} from "./useResumableSpeechRecognition";
+
+export type TranscriptExportFormat = "srt" | "vtt" | "txt" | "md";
+
+export interface TimedResult {
+  result: SpeechRecognitionResult;
+  /** Offsets into the joined audio, undefined when the result has no audio */
+  startMs?: number;
+  endMs?: number;
+}
+
+const MIME_TYPES: Record<TranscriptExportFormat, string> = {
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+  txt: "text/plain",
+  md: "text/markdown",
+};
+
+/**
+ * Work out where each transcript result falls in the joined audio. Results
+ * spoken in the same segment share its time span in proportion to their length.
+ */
+export const getTimedResults = (session: RecordingSession): TimedResult[] => {
+  const timed: TimedResult[] = session.transcripts.map((result) => ({
+    result,
+  }));
+
+  for (const segment of session.segments) {
+    const inSegment = timed.filter(
+      ({ result }) => findSegmentForResult(session, result) === segment
+    );
+    const totalLength = inSegment.reduce(
+      (total, { result }) => total + Math.max(1, result.transcript.length),
+      0
+    );
+
+    let startMs = segment.startMs;
+    for (const item of inSegment) {
+      const share = Math.max(1, item.result.transcript.length) / totalLength;
+      item.startMs = startMs;
+      item.endMs = startMs + segment.durationMs * share;
+      startMs = item.endMs;
+    }
+  }
+
+  return timed;
+};
+
+const pad = (value: number, length = 2) =>
+  Math.floor(value).toString().padStart(length, "0");
+
+// HH:MM:SS plus milliseconds, as used by SRT (",") and WebVTT (".")
+const formatCueTime = (time: number, separator: "," | ".") => {
+  const ms = Math.round(time);
+  const hours = ms / 3600000;
+  const minutes = (ms % 3600000) / 60000;
+  const seconds = (ms % 60000) / 1000;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(
+    ms % 1000,
+    3
+  )}`;
+};
+
+// MM:SS, or H:MM:SS for long sessions
+const formatTimestamp = (ms: number) => {
+  const hours = Math.floor(ms / 3600000);
+  const clock = `${pad((ms % 3600000) / 60000)}:${pad((ms % 60000) / 1000)}`;
+  return hours > 0 ? `${hours}:${clock}` : clock;
+};
+
+const getCues = (session: RecordingSession) =>
+  getTimedResults(session).filter(
+    (item): item is Required<TimedResult> =>
+      item.startMs !== undefined && item.endMs !== undefined
+  );
+
+export const formatSrt = (session: RecordingSession): string =>
+  getCues(session)
+    .map(
+      ({ result, startMs, endMs }, index) =>
+        `${index + 1}\n${formatCueTime(startMs, ",")} --> ${formatCueTime(
+          endMs,
+          ","
+        )}\n${result.transcript.trim()}\n`
+    )
+    .join("\n");
+
+export const formatWebVtt = (session: RecordingSession): string =>
+  [
+    "WEBVTT\n",
+    ...getCues(session).map(
+      ({ result, startMs, endMs }) =>
+        `${formatCueTime(startMs, ".")} --> ${formatCueTime(
+          endMs,
+          "."
+        )}\n${result.transcript.trim()}\n`
+    ),
+  ].join("\n");
+
+export const formatPlainText = (session: RecordingSession): string =>
+  getTimedResults(session)
+    .map(({ result, startMs }) =>
+      startMs !== undefined
+        ? `[${formatTimestamp(startMs)}] ${result.transcript.trim()}`
+        : result.transcript.trim()
+    )
+    .join("\n") + "\n";
+
+export const formatMarkdown = (session: RecordingSession): string => {
+  const lines = getTimedResults(session).map(({ result, startMs }) =>
+    startMs !== undefined
+      ? `**[${formatTimestamp(startMs)}]** ${result.transcript.trim()}`
+      : result.transcript.trim()
+  );
+  return (
+    [
+      `# ${getSessionTitle(session)}`,
+      `_Recorded ${session.startTime.toLocaleString()}_`,
+      ...lines,
+    ].join("\n\n") + "\n"
+  );
+};
+
+/**
+ * Render a session's transcript in the given format
+ */
+export const formatTranscript = (
+  session: RecordingSession,
+  format: TranscriptExportFormat
+): string => {
+  switch (format) {
+    case "srt":
+      return formatSrt(session);
+    case "vtt":
+      return formatWebVtt(session);
+    case "txt":
+      return formatPlainText(session);
+    case "md":
+      return formatMarkdown(session);
+  }
+};
+
+// Native modules return plain paths, expo-file-system wants file:// URIs
+const toFileUri = (path: string) =>
+  path.startsWith("/") ? `file://${path}` : path;
+
+/**
+ * Write a session's transcript next to its recordings (where the joined WAV
+ * is created), or to the document directory if it has none
+ * @returns URI and mime type of the written file
+ */
+export const exportTranscript = (
+  session: RecordingSession,
+  format: TranscriptExportFormat
+): { uri: string; mimeType: string } => {
+  const directory =
+    session.audioFiles.length > 0
+      ? new FileSystem.File(toFileUri(session.audioFiles[0])).parentDirectory
+      : FileSystem.Paths.document;
+
+  const file = new FileSystem.File(
+    directory,
+    `transcript_${session.id}.${format}`
+  );
+  if (file.exists) {
+    file.delete();
+  }
+  file.create();
+  file.write(formatTranscript(session, format));
+
+  return { uri: file.uri, mimeType: MIME_TYPES[format] };
+};
@@ -0,0 +1,73 @@
+import {
+  canRedoRevision,
+  canUndoRevision,
+  createResult,
+  rawTranscript,
+  redoRevision,
+  reviseResult,
+  undoRevision,
+} from "./transcriptRevisions";
+
+describe("transcript revisions", () => {
+  const result = createResult("helo world", "a.wav", 1000);
+
+  it("starts with the recognizer's text as the only revision", () => {
+    expect(result).toEqual({
+      transcript: "helo world",
+      audioFileUri: "a.wav",
+      revisions: [
+        { transcript: "helo world", source: "recognizer", createdAt: 1000 },
+      ],
+      revisionIndex: 0,
+    });
+    expect(canUndoRevision(result)).toBe(false);
+    expect(canRedoRevision(result)).toBe(false);
+  });
+
+  it("adds an edit as the current revision", () => {
+    const edited = reviseResult(result, "hello world", 2000);
+    expect(edited.transcript).toBe("hello world");
+    expect(edited.revisions[1]).toEqual({
+      transcript: "hello world",
+      source: "user",
+      createdAt: 2000,
+    });
+    expect(edited.revisionIndex).toBe(1);
+    expect(rawTranscript(edited)).toBe("helo world");
+  });
+
+  it("ignores edits that don't change the text", () => {
+    expect(reviseResult(result, "helo world")).toBe(result);
+  });
+
+  it("undoes and redoes edits", () => {
+    const edited = reviseResult(
+      reviseResult(result, "hello world", 2000),
+      "Hello, world!",
+      3000
+    );
+
+    const undone = undoRevision(edited);
+    expect(undone.transcript).toBe("hello world");
+    expect(canRedoRevision(undone)).toBe(true);
+
+    const original = undoRevision(undone);
+    expect(original.transcript).toBe("helo world");
+    expect(canUndoRevision(original)).toBe(false);
+    // Nothing before the recognizer's text
+    expect(undoRevision(original)).toBe(original);
+
+    expect(redoRevision(redoRevision(original))).toEqual(edited);
+    expect(redoRevision(edited)).toBe(edited);
+  });
+
+  it("drops undone revisions on a new edit", () => {
+    const edited = reviseResult(result, "hello world", 2000);
+    const branched = reviseResult(undoRevision(edited), "hello, world", 3000);
+    expect(branched.revisions.map((revision) => revision.transcript)).toEqual([
+      "helo world",
+      "hello, world",
+    ]);
+    expect(canRedoRevision(branched)).toBe(false);
+  });
+});
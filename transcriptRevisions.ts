@@ -0,0 +1,91 @@
+// Revision history of transcript results. The recognizer's text is the first
+// revision and every correction adds one, so edits can be undone and the raw
+// output is never lost. A result's `transcript` is always the text of its
+// current revision.
+
+import type { SpeechRecognitionResult } from "./useResumableSpeechRecognition";
+
+export interface TranscriptRevision {
+  transcript: string;
+  /** Who wrote this revision */
+  source: "recognizer" | "user";
+  /** When the revision was made, in milliseconds since the epoch */
+  createdAt: number;
+}
+
+/**
+ * Make a result from recognizer output
+ * @param transcript - Text the recognizer returned
+ * @param audioFileUri - Audio file the result was recognized from
+ */
+export const createResult = (
+  transcript: string,
+  audioFileUri?: string,
+  now = Date.now()
+): SpeechRecognitionResult => ({
+  transcript,
+  audioFileUri,
+  revisions: [{ transcript, source: "recognizer", createdAt: now }],
+  revisionIndex: 0,
+});
+
+/**
+ * Correct a result's text. Revisions that were undone are dropped, like in
+ * any editor.
+ * @returns The result with the edit as its current revision, or the result
+ * itself when the text didn't change
+ */
+export const reviseResult = (
+  result: SpeechRecognitionResult,
+  transcript: string,
+  now = Date.now()
+): SpeechRecognitionResult => {
+  if (transcript === result.transcript) {
+    return result;
+  }
+  const revisions: TranscriptRevision[] = [
+    ...result.revisions.slice(0, result.revisionIndex + 1),
+    { transcript, source: "user", createdAt: now },
+  ];
+  return {
+    ...result,
+    transcript,
+    revisions,
+    revisionIndex: revisions.length - 1,
+  };
+};
+
+// Make another revision of the history the current one
+const moveToRevision = (
+  result: SpeechRecognitionResult,
+  revisionIndex: number
+): SpeechRecognitionResult => {
+  const revision = result.revisions[revisionIndex];
+  return revision
+    ? { ...result, transcript: revision.transcript, revisionIndex }
+    : result;
+};
+
+export const canUndoRevision = (result: SpeechRecognitionResult) =>
+  result.revisionIndex > 0;
+
+export const canRedoRevision = (result: SpeechRecognitionResult) =>
+  result.revisionIndex < result.revisions.length - 1;
+
+/**
+ * Go back to the previous revision, the undone one can be redone
+ */
+export const undoRevision = (result: SpeechRecognitionResult) =>
+  moveToRevision(result, result.revisionIndex - 1);
+
+/**
+ * Go forward to the revision that was last undone
+ */
+export const redoRevision = (result: SpeechRecognitionResult) =>
+  moveToRevision(result, result.revisionIndex + 1);
+
+/**
+ * Text of the result as the recognizer returned it, before any edits
+ */
+export const rawTranscript = (result: SpeechRecognitionResult) =>
+  result.revisions[0]?.transcript ?? result.transcript;
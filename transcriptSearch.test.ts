@@ -0,0 +1,121 @@
+import {
+  buildSearchIndex,
+  makeSnippet,
+  searchTranscripts,
+  tokenize,
+} from "./transcriptSearch";
+import { createResult } from "./transcriptRevisions";
+import type { RecordingSession } from "./useResumableSpeechRecognition";
+
+const sessionOf = (
+  id: string,
+  transcripts: string[],
+  audioFiles: string[] = []
+): RecordingSession => ({
+  id,
+  startTime: new Date(0),
+  audioFiles,
+  segments: [],
+  transcripts: transcripts.map((text, index) =>
+    createResult(text, audioFiles[index])
+  ),
+  alternativeTranscripts: [],
+  recognitionOptions: { lang: "en-US" },
+  segmentLanguages: {},
+  notes: "",
+  tags: [],
+  isActive: false,
+});
+
+const index = buildSearchIndex([
+  sessionOf(
+    "older",
+    ["Meet at the café on Monday", "The budget for marketing"],
+    ["a.wav", "b.wav"]
+  ),
+  sessionOf("newer", ["Market research first", "Coffee at the cafe"]),
+]);
+
+const hitsFor = (query: string) =>
+  searchTranscripts(index, query).map(
+    ({ sessionId, resultIndex }) => `${sessionId}:${resultIndex}`
+  );
+
+describe("tokenize", () => {
+  it("folds words and keeps their offsets", () => {
+    expect(tokenize("Crème brûlée, 2 Äpfel!")).toEqual([
+      { term: "creme", start: 0, end: 5 },
+      { term: "brulee", start: 6, end: 12 },
+      { term: "2", start: 14, end: 15 },
+      { term: "apfel", start: 16, end: 21 },
+    ]);
+  });
+});
+
+describe("searchTranscripts", () => {
+  it("ignores case and diacritics", () => {
+    expect(hitsFor("CAFE")).toEqual(expect.arrayContaining(["older:0"]));
+    expect(hitsFor("café")).toEqual(expect.arrayContaining(["newer:1"]));
+  });
+
+  it("matches the start of words, whole words first", () => {
+    expect(hitsFor("market")).toEqual(["newer:0", "older:1"]);
+    expect(hitsFor("arket")).toEqual([]);
+  });
+
+  it("needs every word of the query", () => {
+    expect(hitsFor("at cafe")).toEqual(["newer:1", "older:0"]);
+    expect(hitsFor("cafe monday")).toEqual(["older:0"]);
+    expect(hitsFor("cafe tuesday")).toEqual([]);
+  });
+
+  it("ranks rare words and repeated words higher", () => {
+    const ranked = buildSearchIndex([
+      sessionOf("s", ["plan the plan", "the plan", "the other thing"]),
+    ]);
+    expect(
+      searchTranscripts(ranked, "the plan").map((hit) => hit.resultIndex)
+    ).toEqual([0, 1]);
+  });
+
+  it("limits the number of hits", () => {
+    expect(searchTranscripts(index, "the", 1)).toHaveLength(1);
+    expect(searchTranscripts(index, "  ")).toEqual([]);
+  });
+
+  it("points hits at their audio and highlights the matches", () => {
+    const [hit] = searchTranscripts(index, "mon caf");
+    expect(hit).toMatchObject({
+      sessionId: "older",
+      resultIndex: 0,
+      audioFileUri: "a.wav",
+      segmentIndex: 0,
+    });
+    expect(
+      hit.snippet.highlights.map(({ start, end }) =>
+        hit.snippet.text.slice(start, end)
+      )
+    ).toEqual(["café", "Monday"]);
+  });
+});
+
+describe("makeSnippet", () => {
+  it("cuts long text around the first match and shifts the highlights", () => {
+    const text = `${"a".repeat(100)} needle ${"b".repeat(100)}`;
+    const snippet = makeSnippet(text, [{ start: 101, end: 107 }]);
+    expect(snippet.text.startsWith("…")).toBe(true);
+    expect(snippet.text.endsWith("…")).toBe(true);
+    const [highlight] = snippet.highlights;
+    expect(snippet.text.slice(highlight.start, highlight.end)).toBe("needle");
+  });
+
+  it("drops highlights outside the snippet", () => {
+    const text = `match ${"x".repeat(200)} match`;
+    expect(
+      makeSnippet(text, [
+        { start: 0, end: 5 },
+        { start: 207, end: 212 },
+      ]).highlights
+    ).toEqual([{ start: 0, end: 5 }]);
+  });
+});
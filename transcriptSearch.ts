@@ -0,0 +1,226 @@
+// Full-text search over the transcripts of all sessions. Words are folded to
+// lower case without diacritics, so "Café" finds "cafe", and every word of
+// the query matches the start of a word in the transcript.
+
+import type { RecordingSession } from "./useResumableSpeechRecognition";
+
+export interface SearchToken {
+  /** Folded word */
+  term: string;
+  /** Position of the word in the original text */
+  start: number;
+  end: number;
+}
+
+// One transcript result, the unit that is searched
+interface SearchDocument {
+  sessionId: string;
+  resultIndex: number;
+  audioFileUri?: string;
+  segmentIndex: number;
+  text: string;
+  tokens: SearchToken[];
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  /** Documents containing each term, by index into `documents` */
+  postings: Map<string, Set<number>>;
+  /** All terms in order, to find the ones starting with a prefix */
+  terms: string[];
+}
+
+export interface SearchSnippet {
+  text: string;
+  /** Ranges of `text` that matched the query */
+  highlights: { start: number; end: number }[];
+}
+
+export interface SearchHit {
+  sessionId: string;
+  /** Index of the result in the session's transcripts */
+  resultIndex: number;
+  /** Audio file the result was recognized from */
+  audioFileUri?: string;
+  /** Index of that file in the session's audio files, -1 if unknown */
+  segmentIndex: number;
+  score: number;
+  snippet: SearchSnippet;
+}
+
+// Letters and digits, in any script
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Characters of context on either side of the first match
+const SNIPPET_CONTEXT = 40;
+
+/**
+ * Lower case a word and strip its diacritics
+ */
+export const foldText = (text: string) =>
+  text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+
+/**
+ * Split text into folded words, keeping where each one was
+ */
+export const tokenize = (text: string): SearchToken[] =>
+  Array.from(text.matchAll(WORD_PATTERN), (match) => ({
+    term: foldText(match[0]),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+
+/**
+ * Index the current revision of every transcript result of the sessions
+ */
+export const buildSearchIndex = (sessions: RecordingSession[]): SearchIndex => {
+  const documents: SearchDocument[] = sessions.flatMap((session) =>
+    session.transcripts.map((result, resultIndex) => ({
+      sessionId: session.id,
+      resultIndex,
+      audioFileUri: result.audioFileUri,
+      segmentIndex: result.audioFileUri
+        ? session.audioFiles.indexOf(result.audioFileUri)
+        : -1,
+      text: result.transcript,
+      tokens: tokenize(result.transcript),
+    }))
+  );
+
+  const postings = new Map<string, Set<number>>();
+  documents.forEach((document, index) => {
+    for (const { term } of document.tokens) {
+      let documentIndexes = postings.get(term);
+      if (!documentIndexes) {
+        documentIndexes = new Set();
+        postings.set(term, documentIndexes);
+      }
+      documentIndexes.add(index);
+    }
+  });
+
+  return { documents, postings, terms: Array.from(postings.keys()).sort() };
+};
+
+// Terms of the index that start with a prefix
+const termsWithPrefix = (index: SearchIndex, prefix: string) => {
+  // Binary search for the first term not before the prefix
+  let low = 0;
+  let high = index.terms.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (index.terms[middle] < prefix) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  const matches: string[] = [];
+  for (let i = low; i < index.terms.length; i++) {
+    if (!index.terms[i].startsWith(prefix)) break;
+    matches.push(index.terms[i]);
+  }
+  return matches;
+};
+
+/**
+ * Cut the text around its first highlight
+ */
+export const makeSnippet = (
+  text: string,
+  highlights: { start: number; end: number }[]
+): SearchSnippet => {
+  const first = highlights[0]?.start ?? 0;
+  const start = Math.max(0, first - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, first + SNIPPET_CONTEXT * 2);
+  const prefix = start > 0 ? "…" : "";
+  const shift = prefix.length - start;
+
+  return {
+    text: prefix + text.slice(start, end) + (end < text.length ? "…" : ""),
+    highlights: highlights
+      .filter((range) => range.start >= start && range.end <= end)
+      .map((range) => ({
+        start: range.start + shift,
+        end: range.end + shift,
+      })),
+  };
+};
+
+/**
+ * Find the transcript results that contain every word of a query
+ * @param index - Index from buildSearchIndex
+ * @param query - Words to look for, each matching the start of a word
+ * @param limit - Maximum number of hits
+ * @returns Hits with the best first: whole words and rare words count more,
+ * and so do words that occur more often in a result
+ */
+export const searchTranscripts = (
+  index: SearchIndex,
+  query: string,
+  limit = 20
+): SearchHit[] => {
+  const queryTerms = Array.from(new Set(tokenize(query).map((t) => t.term)));
+  if (queryTerms.length === 0) return [];
+
+  const scores = new Map<number, number>();
+  for (const [position, queryTerm] of queryTerms.entries()) {
+    // Documents matching this query word, with their score for it
+    const termScores = new Map<number, number>();
+    for (const term of termsWithPrefix(index, queryTerm)) {
+      const documentIndexes = index.postings.get(term)!;
+      const rarity = Math.log(
+        1 + index.documents.length / documentIndexes.size
+      );
+      const weight = (term === queryTerm ? 1 : 0.5) * rarity;
+      for (const documentIndex of documentIndexes) {
+        const count = index.documents[documentIndex].tokens.filter(
+          (token) => token.term === term
+        ).length;
+        termScores.set(
+          documentIndex,
+          (termScores.get(documentIndex) ?? 0) + weight * count
+        );
+      }
+    }
+
+    // Every query word has to match
+    if (position === 0) {
+      termScores.forEach((score, documentIndex) =>
+        scores.set(documentIndex, score)
+      );
+    } else {
+      for (const [documentIndex, score] of scores) {
+        const termScore = termScores.get(documentIndex);
+        if (termScore === undefined) {
+          scores.delete(documentIndex);
+        } else {
+          scores.set(documentIndex, score + termScore);
+        }
+      }
+    }
+  }
+
+  // Newer sessions were indexed last and go first on a tie
+  return Array.from(scores)
+    .sort(([a, scoreA], [b, scoreB]) => scoreB - scoreA || b - a)
+    .slice(0, limit)
+    .map(([documentIndex, score]) => {
+      const document = index.documents[documentIndex];
+      const highlights = document.tokens
+        .filter((token) =>
+          queryTerms.some((queryTerm) => token.term.startsWith(queryTerm))
+        )
+        .map(({ start, end }) => ({ start, end }));
+
+      return {
+        sessionId: document.sessionId,
+        resultIndex: document.resultIndex,
+        audioFileUri: document.audioFileUri,
+        segmentIndex: document.segmentIndex,
+        score,
+        snippet: makeSnippet(document.text, highlights),
+      };
+    });
+};
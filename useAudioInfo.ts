@@ -0,0 +1,79 @@
+import { useEffect, useMemo, useState } from "react";
+import AudioutilsModule, { AudioInfo } from "./modules/audioutils";
+import { getFileVersion } from "./fileVersion";
+
+// Info by URI, read again once the file was rewritten
+const audioInfoCache = new Map<
+  string,
+  { version: string; info: Promise<AudioInfo> }
+>();
+
+const loadAudioInfo = (
+  uri: string,
+  version: string
+): Promise<AudioInfo | null> => {
+  let cached = audioInfoCache.get(uri);
+  if (!cached || cached.version !== version) {
+    cached = { version, info: AudioutilsModule.getAudioInfo(uri) };
+    audioInfoCache.set(uri, cached);
+  }
+  const { info } = cached;
+  return info.catch((error) => {
+    // Try again next time, the failure may not last
+    if (audioInfoCache.get(uri)?.info === info) {
+      audioInfoCache.delete(uri);
+    }
+    console.warn("Could not read audio info:", uri, error);
+    return null;
+  });
+};
+
+/**
+ * Read the duration and format of audio files with getAudioInfo
+ * @param uris - Audio files to inspect
+ * @param refreshKey - Check the files for rewrites again when this changes,
+ * e.g. the session they belong to
+ * @returns Info by URI, missing until loaded or if the file couldn't be read
+ */
+export const useAudioInfo = (
+  uris: string[],
+  refreshKey?: unknown
+): Record<string, AudioInfo> => {
+  const [infoByUri, setInfoByUri] = useState<Record<string, AudioInfo>>({});
+  const uriKey = uris.join("\n");
+  // One line per file with its URI and version, so the effect runs again
+  // when a file was rewritten at the same URI. Only stat the files when the
+  // URIs or the refresh key change, not on every render.
+  const key = useMemo(
+    () =>
+      uriKey
+        ? uriKey
+            .split("\n")
+            .map((uri) => `${uri}\t${getFileVersion(uri)}`)
+            .join("\n")
+        : "",
+    [uriKey, refreshKey]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    const files = key ? key.split("\n").map((line) => line.split("\t")) : [];
+
+    Promise.all(
+      files.map(([uri, version]) => loadAudioInfo(uri, version))
+    ).then((infos) => {
+      if (cancelled) return;
+      const loaded: Record<string, AudioInfo> = {};
+      infos.forEach((info, index) => {
+        if (info) loaded[files[index][0]] = info;
+      });
+      setInfoByUri(loaded);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return infoByUri;
+};
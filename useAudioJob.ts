@@ -0,0 +1,100 @@
+import { useState, useCallback, useRef } from "react";
+import { useEventListener } from "expo";
+import AudioutilsModule, {
+  isJobCancelledError,
+  ProgressEventPayload,
+} from "./modules/audioutils";
+
+export type AudioJobStatus =
+  | "idle"
+  | "running"
+  | "cancelling"
+  | "done"
+  | "cancelled"
+  | "error";
+
+export interface UseAudioJobReturn {
+  status: AudioJobStatus;
+  isRunning: boolean;
+  /** Latest progress event of the running (or last) job */
+  progress: ProgressEventPayload | null;
+  /** Fraction of the job done, from 0 to 1 */
+  fraction: number;
+  error: Error | null;
+
+  /**
+   * Run an audioutils operation as a job. The task receives a job id to pass
+   * as the operation's `jobId` option.
+   * @returns The task's result, or undefined if the job was cancelled
+   */
+  run: <T>(task: (jobId: string) => Promise<T>) => Promise<T | undefined>;
+  /** Cancel the running job, its partial output is deleted */
+  cancel: () => void;
+}
+
+let jobCounter = 0;
+
+export const useAudioJob = (): UseAudioJobReturn => {
+  const [status, setStatus] = useState<AudioJobStatus>("idle");
+  const [progress, setProgress] = useState<ProgressEventPayload | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const jobIdRef = useRef<string | null>(null);
+
+  useEventListener(AudioutilsModule, "onProgress", (event) => {
+    if (event.jobId === jobIdRef.current) {
+      setProgress(event);
+    }
+  });
+
+  const run = useCallback(
+    async <T>(task: (jobId: string) => Promise<T>): Promise<T | undefined> => {
+      if (jobIdRef.current) {
+        throw new Error("A job is already running");
+      }
+
+      const jobId = `job_${Date.now()}_${++jobCounter}`;
+      jobIdRef.current = jobId;
+      setStatus("running");
+      setProgress(null);
+      setError(null);
+
+      try {
+        const result = await task(jobId);
+        setStatus("done");
+        return result;
+      } catch (error) {
+        if (isJobCancelledError(error)) {
+          setStatus("cancelled");
+          return undefined;
+        }
+        setStatus("error");
+        setError(error instanceof Error ? error : new Error(String(error)));
+        throw error;
+      } finally {
+        jobIdRef.current = null;
+      }
+    },
+    []
+  );
+
+  const cancel = useCallback(() => {
+    if (!jobIdRef.current) return;
+    AudioutilsModule.cancelJob(jobIdRef.current);
+    setStatus("cancelling");
+  }, []);
+
+  const fraction =
+    progress && progress.totalBytes > 0
+      ? Math.min(1, progress.bytesProcessed / progress.totalBytes)
+      : 0;
+
+  return {
+    status,
+    isRunning: status === "running" || status === "cancelling",
+    progress,
+    fraction,
+    error,
+    run,
+    cancel,
+  };
+};
@@ -1,14 +1,81 @@
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useRef, useEffect } from "react";
 import {
+  AudioEncodingAndroid,
+  ExpoSpeechRecognitionErrorEvent,
   ExpoSpeechRecognitionModule,
   ExpoSpeechRecognitionOptions,
   useSpeechRecognitionEvent,
 } from "expo-speech-recognition";
 import * as FileSystem from "expo-file-system";
+import { loadSessions, MANIFEST_FILE_NAME, saveSessions } from "./sessionStore";
+import {
+  appendSegment,
+  measureAudioDuration,
+  reorderSegments,
+  replaceSegment,
+  sortTranscriptsBySegment,
+} from "./segmentTiming";
+import AudioutilsModule, {
+  AudioInfo,
+  AudioSegment,
+} from "./modules/audioutils";
+import {
+  initialRecordingState,
+  isRecordingActive,
+  RecordingEffect,
+  RecordingEvent,
+  RecordingStatus,
+  transition,
+} from "./recordingStateMachine";
+import {
+  DEFAULT_RETRY_POLICY,
+  isTransientError,
+  RetryPolicy,
+  retryDelay,
+} from "./recognitionRetry";
+import {
+  AlreadyListeningError,
+  FileIOError,
+  NoSessionError,
+  PermissionDeniedError,
+  RecognitionError,
+  RecognizerError,
+} from "./recognitionErrors";
+import { smoothLevel } from "./inputLevel";
+import {
+  DEFAULT_SESSION_RECOGNITION_OPTIONS,
+  pickSessionRecognitionOptions,
+  replaceSegmentLanguage,
+  SessionRecognitionOptions,
+} from "./recognitionOptions";
+import {
+  acceptAlternative,
+  discardAlternative,
+  setAlternativeTranscripts,
+} from "./retranscription";
+import {
+  AutoStop,
+  checkRecordingLimits,
+  isAudible,
+  RecordingLimits,
+} from "./recordingLimits";
+import {
+  createResult,
+  redoRevision,
+  reviseResult,
+  TranscriptRevision,
+  undoRevision,
+} from "./transcriptRevisions";
+import { normalizeTags } from "./sessionMetadata";
 
 export interface SpeechRecognitionResult {
+  /** Text of the current revision */
   transcript: string;
   audioFileUri?: string;
+  /** Recognizer output first, then the user's edits, see transcriptRevisions.ts */
+  revisions: TranscriptRevision[];
+  /** Index of the current revision, earlier than the last one after an undo */
+  revisionIndex: number;
 }
 
 export interface RecordingSession {
@@ -16,89 +83,425 @@ export interface RecordingSession {
   startTime: Date;
   endTime?: Date;
   audioFiles: string[];
+  /** Timing of each audio file in the session's joined timeline */
+  segments: AudioSegment[];
   transcripts: SpeechRecognitionResult[];
+  /** Results of `retranscribeSession` that weren't accepted or discarded yet */
+  alternativeTranscripts: SpeechRecognitionResult[];
+  /** Language and hints the session is recognized with, see recognitionOptions.ts */
+  recognitionOptions: SessionRecognitionOptions;
+  /** Language each audio file was recorded in, by URI */
+  segmentLanguages: Record<string, string>;
+  /** Title given by the user, see sessionMetadata.ts for the suggested one */
+  title?: string;
+  notes: string;
+  /** Lowercase labels to filter the session list by */
+  tags: string[];
   isActive: boolean;
 }
 
+export interface RetranscriptionProgress {
+  sessionId: string;
+  /** Index of the audio file being transcribed */
+  fileIndex: number;
+  fileCount: number;
+}
+
+export interface UseResumableSpeechRecognitionOptions {
+  /** When to restart recognition after an error, see recognitionRetry.ts */
+  retryPolicy?: Partial<RetryPolicy>;
+  /**
+   * Called with errors no action is waiting for, e.g. the recognizer failing
+   * mid-recording or a session file that couldn't be saved
+   */
+  onError?: (error: RecognitionError) => void;
+  /** Silence and duration limits that pause or stop recording by themselves */
+  limits?: RecordingLimits;
+  /** Called when a limit paused or stopped the recording */
+  onAutoStop?: (autoStop: AutoStop) => void;
+  /** Called with every new `level`, about ten times a second while listening */
+  onLevel?: (level: number) => void;
+}
+
 export interface UseResumableSpeechRecognitionReturn {
   // State
-  isListening: boolean;
-  isPaused: boolean;
+  /** Where the recording is in its lifecycle, see recordingStateMachine.ts */
+  status: RecordingStatus;
   currentSession: RecordingSession | null;
   allSessions: RecordingSession[];
   transcript: string;
   interimTranscript: string;
+  /** Index of the current session's segment that is being re-recorded */
+  rerecordingIndex: number | null;
+  /** Latest error, from a rejected action or reported through `onError` */
+  lastError: RecognitionError | null;
+  /** Why a limit last paused or stopped the recording, until the next start */
+  autoStop: AutoStop | null;
+  /** Smoothed input level from 0 to 1, back to 0 when the recognizer ends */
+  level: number;
+  /** Progress of `retranscribeSession`, null when it isn't running */
+  retranscription: RetranscriptionProgress | null;
 
-  // Actions
+  // Actions, rejecting with the errors of recognitionErrors.ts
   start: (options: ExpoSpeechRecognitionOptions) => Promise<void>;
   pause: () => Promise<void>;
   resume: () => Promise<void>;
   stop: () => Promise<void>;
   clearSessions: () => Promise<void>;
+  clearError: () => void;
 
   // Session management
-  createNewSession: () => RecordingSession;
+  /** New sessions take the options of the latest session unless given others */
+  createNewSession: (
+    recognitionOptions?: Partial<SessionRecognitionOptions>
+  ) => RecordingSession;
+  /** Change a session's recognition options, from the next start or resume on */
+  setRecognitionOptions: (
+    sessionId: string,
+    recognitionOptions: Partial<SessionRecognitionOptions>
+  ) => void;
   switchToSession: (sessionId: string) => void;
+  /** Give a session a title, an empty one goes back to the suggested title */
+  renameSession: (sessionId: string, title: string) => void;
+  setSessionNotes: (sessionId: string, notes: string) => void;
+  /** Replace a session's tags, which are trimmed, lowercased and deduplicated */
+  setSessionTags: (sessionId: string, tags: string[]) => void;
+  updateSessionSegments: (sessionId: string, segments: AudioSegment[]) => void;
+
+  // Audio editing, the edited file is replaced by the new ones
+  splitSegment: (
+    sessionId: string,
+    uri: string,
+    offsetsMs: number[]
+  ) => Promise<string[]>;
+  cutSegmentRange: (
+    sessionId: string,
+    uri: string,
+    startMs: number,
+    endMs: number
+  ) => Promise<string>;
+
+  // Segment editing, by index into the session's audio files
+  deleteSegment: (sessionId: string, index: number) => void;
+  moveSegment: (sessionId: string, fromIndex: number, toIndex: number) => void;
+  /** Record a new take of a segment of the current session, which replaces it when recording ends */
+  rerecordSegment: (index: number) => Promise<void>;
+
+  // Re-transcription of the recorded files, see retranscription.ts
+  /** Transcribe every audio file of a session again into its `alternativeTranscripts` */
+  retranscribeSession: (sessionId: string) => Promise<void>;
+  /** Replace a segment's transcript with its alternative one */
+  acceptRetranscription: (sessionId: string, index: number) => void;
+  /** Keep a segment's transcript and drop its alternative one */
+  discardRetranscription: (sessionId: string, index: number) => void;
+
+  // Transcript corrections, by index into the session's transcripts
+  editTranscript: (sessionId: string, index: number, text: string) => void;
+  undoTranscriptEdit: (sessionId: string, index: number) => void;
+  redoTranscriptEdit: (sessionId: string, index: number) => void;
+}
+
+// Results of a recorded file fed back through the recognizer
+interface FileRecognition {
+  transcripts: string[];
+  error?: RecognizerError;
+  done: () => void;
 }
 
+// How often the recording limits are checked while listening
+const LIMIT_CHECK_INTERVAL_MS = 250;
+
+// Give up on a file the recognizer doesn't finish within twice its length
+// plus this margin, so it can't keep the recognizer busy forever
+const FILE_RECOGNITION_TIMEOUT_MARGIN_MS = 30_000;
+
+// Delete a recording, throwing a FileIOError if that fails
+const deleteAudioFile = (uri: string) => {
+  // Edits on web produce object URLs, which only need to be released
+  if (uri.startsWith("blob:")) {
+    URL.revokeObjectURL(uri);
+    return;
+  }
+  try {
+    const file = new FileSystem.File(uri);
+    if (file.exists) {
+      file.delete();
+    }
+  } catch (error) {
+    throw new FileIOError(uri, error);
+  }
+};
+
 export const useResumableSpeechRecognition =
-  (): UseResumableSpeechRecognitionReturn => {
-    const [isListening, setIsListening] = useState(false);
-    const [isPaused, setIsPaused] = useState(false);
+  (
+    options: UseResumableSpeechRecognitionOptions = {}
+  ): UseResumableSpeechRecognitionReturn => {
+    const retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
+    const [status, setStatus] = useState<RecordingStatus>("idle");
     const [currentSession, setCurrentSession] =
       useState<RecordingSession | null>(null);
     const [allSessions, setAllSessions] = useState<RecordingSession[]>([]);
     const [transcript, setTranscript] = useState("");
     const [interimTranscript, setInterimTranscript] = useState("");
+    const [lastError, setLastError] = useState<RecognitionError | null>(null);
+    const onErrorRef = useRef(options.onError);
+    onErrorRef.current = options.onError;
+    const [autoStop, setAutoStop] = useState<AutoStop | null>(null);
+    const limits = options.limits ?? {};
+    const onAutoStopRef = useRef(options.onAutoStop);
+    onAutoStopRef.current = options.onAutoStop;
+    const [level, setLevel] = useState(0);
+    const levelRef = useRef(0);
+    const onLevelRef = useRef(options.onLevel);
+    onLevelRef.current = options.onLevel;
+    const [retranscription, setRetranscription] =
+      useState<RetranscriptionProgress | null>(null);
+    // Set while a session is re-transcribed, when the recognizer's events
+    // belong to the file being recognized instead of a recording
+    const isRetranscribingRef = useRef(false);
+    const fileRecognitionRef = useRef<FileRecognition | null>(null);
 
     const sessionCounterRef = useRef(0);
+    // File being recorded and when recording into it started
+    const recordingUriRef = useRef<string | null>(null);
+    const recordingStartTimeRef = useRef(0);
+    // Language the file being recorded is recognized in
+    const recordingLangRef = useRef(DEFAULT_SESSION_RECOGNITION_OPTIONS.lang);
+    // When the input was last audible, for the silence limit
+    const lastSoundAtRef = useRef(0);
+    // Recorded file that wasn't added to its session yet
+    const unattachedUriRef = useRef<string | null>(null);
+    // Session the recognizer records into, which stays the same when another
+    // session is opened before the recording ended
+    const recordingSessionIdRef = useRef<string | null>(null);
+    // Latest current session, for effects that run before the next render
+    const currentSessionRef = useRef<RecordingSession | null>(null);
+    currentSessionRef.current = currentSession;
+
+    const machineRef = useRef(initialRecordingState);
+    // Pending `start()` calls, settled once the recording started or failed
+    const startWaitersRef = useRef<
+      { resolve: () => void; reject: (error: unknown) => void }[]
+    >([]);
+    // Restarts since recognition last produced a result
+    const retryAttemptRef = useRef(0);
+    const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const effectsRef = useRef<Record<RecordingEffect, () => void> | null>(null);
+
+    // Keep an error that an action rejects with
+    const recordError = useCallback((error: RecognitionError) => {
+      setLastError(error);
+      return error;
+    }, []);
+
+    // Report an error that no action is waiting for
+    const reportError = useCallback((error: RecognitionError) => {
+      console.error(error);
+      setLastError(error);
+      onErrorRef.current?.(error);
+    }, []);
+
+    // Delete a file the session no longer uses. Its replacement is already in
+    // place, so a failure is only reported.
+    const removeAudioFile = useCallback(
+      (uri: string) => {
+        try {
+          deleteAudioFile(uri);
+        } catch (error) {
+          reportError(error as FileIOError);
+        }
+      },
+      [reportError]
+    );
+
+    // Move the state machine and perform the effects of the transition
+    const dispatch = useCallback((event: RecordingEvent) => {
+      const previousStatus = machineRef.current.status;
+      const { state, effects } = transition(machineRef.current, event);
+      machineRef.current = state;
+      setStatus(state.status);
+
+      if (state.status === "error" && previousStatus !== "error") {
+        const error =
+          event.type === "RECOGNITION_ERROR"
+            ? (event.error as RecognitionError)
+            : new PermissionDeniedError();
+        // A pending start() rejects, otherwise nobody is waiting for it
+        if (startWaitersRef.current.length > 0) {
+          setLastError(error);
+          startWaitersRef.current.forEach((waiter) => waiter.reject(error));
+          startWaitersRef.current = [];
+        } else {
+          reportError(error);
+        }
+      } else if (
+        state.queued !== "start" &&
+        (state.status === "listening" || !isRecordingActive(state.status))
+      ) {
+        startWaitersRef.current.forEach((waiter) => waiter.resolve());
+        startWaitersRef.current = [];
+      }
+
+      effects.forEach((effect) => effectsRef.current?.[effect]());
+    }, []);
+
+    // Segment that the next recording replaces instead of being appended
+    const [rerecordTarget, setRerecordTarget] = useState<{
+      sessionId: string;
+      uri: string;
+    } | null>(null);
+    const [hasLoadedSessions, setHasLoadedSessions] = useState(false);
+
+    // Restore persisted sessions on mount
+    useEffect(() => {
+      let cancelled = false;
+
+      loadSessions()
+        .then((storedSessions) => {
+          if (cancelled) return;
+          // Keep any session that was created before loading finished
+          setAllSessions((prev) => [
+            ...storedSessions.filter(
+              (stored) => !prev.some((session) => session.id === stored.id)
+            ),
+            ...prev,
+          ]);
+          setHasLoadedSessions(true);
+        })
+        .catch((error) => {
+          // Sessions aren't saved then, so a manifest that couldn't be read,
+          // e.g. one written by a newer version, isn't overwritten
+          reportError(new FileIOError(MANIFEST_FILE_NAME, error));
+        });
+
+      return () => {
+        cancelled = true;
+      };
+    }, []);
+
+    // Persist sessions after every change (but never before they were loaded,
+    // otherwise the initial empty state would overwrite the manifest)
+    useEffect(() => {
+      if (!hasLoadedSessions) return;
+
+      saveSessions(allSessions).catch((error) => {
+        reportError(new FileIOError(MANIFEST_FILE_NAME, error));
+      });
+    }, [allSessions, hasLoadedSessions, reportError]);
+
+    const updateLevel = (next: number) => {
+      levelRef.current = next;
+      setLevel(next);
+      onLevelRef.current?.(next);
+    };
 
     // Handle speech recognition events using the hook
     useSpeechRecognitionEvent("start", () => {
-      setIsListening(true);
-      setIsPaused(false);
+      if (fileRecognitionRef.current) return;
+      recordingStartTimeRef.current = Date.now();
+      lastSoundAtRef.current = Date.now();
+      dispatch({ type: "RECOGNITION_STARTED" });
     });
 
+    useSpeechRecognitionEvent("volumechange", (event) => {
+      if (fileRecognitionRef.current) return;
+      if (isAudible(event.value, limits)) {
+        lastSoundAtRef.current = Date.now();
+      }
+      updateLevel(smoothLevel(levelRef.current, event.value));
+    });
+
+    // Check the recording limits while listening
+    const { silenceTimeoutMs, maxSegmentDurationMs, maxSessionDurationMs } =
+      limits;
+    const hasLimits =
+      silenceTimeoutMs !== undefined ||
+      maxSegmentDurationMs !== undefined ||
+      maxSessionDurationMs !== undefined;
+    useEffect(() => {
+      if (status !== "listening" || !hasLimits) return;
+
+      // Length of the session's earlier segments
+      const recordedMs =
+        allSessions
+          .find((session) => session.id === recordingSessionIdRef.current)
+          ?.segments.reduce(
+            (total, segment) => total + segment.durationMs,
+            0
+          ) ?? 0;
+
+      const interval = setInterval(() => {
+        const reached = checkRecordingLimits(
+          {
+            now: Date.now(),
+            segmentStartedAt: recordingStartTimeRef.current,
+            lastSoundAt: lastSoundAtRef.current,
+            recordedMs,
+          },
+          { silenceTimeoutMs, maxSegmentDurationMs, maxSessionDurationMs }
+        );
+        if (!reached) return;
+
+        clearInterval(interval);
+        console.log("Recording limit reached:", reached.reason);
+        setAutoStop(reached);
+        onAutoStopRef.current?.(reached);
+        dispatch({ type: reached.action === "stop" ? "STOP" : "PAUSE" });
+      }, LIMIT_CHECK_INTERVAL_MS);
+
+      return () => clearInterval(interval);
+    }, [
+      status,
+      hasLimits,
+      allSessions,
+      silenceTimeoutMs,
+      maxSegmentDurationMs,
+      maxSessionDurationMs,
+      dispatch,
+    ]);
+
     useSpeechRecognitionEvent("audiostart", (event) => {
+      if (fileRecognitionRef.current) return;
       // Note: don't use this file until the "audioend" event is emitted
       // Note: event.uri will be null if `recordingOptions.persist` is not enabled
       console.log("Recording started for file:", event.uri);
+      recordingUriRef.current = event.uri;
+      unattachedUriRef.current = event.uri;
+      recordingStartTimeRef.current = Date.now();
     });
 
     useSpeechRecognitionEvent("result", (event) => {
+      const fileRecognition = fileRecognitionRef.current;
+      if (fileRecognition) {
+        if (event.isFinal && event.results[0]) {
+          fileRecognition.transcripts.push(event.results[0].transcript);
+        }
+        return;
+      }
+
       if (event.results && event.results.length > 0) {
         const result = event.results[0];
 
-        const transcriptResult: SpeechRecognitionResult = {
-          transcript: result.transcript,
-        };
+        const transcriptResult = createResult(
+          result.transcript,
+          recordingUriRef.current ?? undefined
+        );
 
         if (event.isFinal) {
           // Final result
           setTranscript((prev) => prev + " " + result.transcript);
           setInterimTranscript("");
+          retryAttemptRef.current = 0;
 
-          // Update current session
-          if (currentSession) {
-            setAllSessions((prev) =>
-              prev.map((session) =>
-                session.id === currentSession.id
-                  ? {
-                      ...session,
-                      transcripts: [...session.transcripts, transcriptResult],
-                    }
-                  : session
-              )
-            );
-
-            setCurrentSession((prev) =>
-              prev
-                ? {
-                    ...prev,
-                    transcripts: [...prev.transcripts, transcriptResult],
-                  }
-                : null
-            );
+          // Update the session being recorded
+          if (recordingSessionIdRef.current) {
+            updateSession(recordingSessionIdRef.current, (session) => ({
+              ...session,
+              transcripts: sortTranscriptsBySegment(
+                [...session.transcripts, transcriptResult],
+                session.audioFiles
+              ),
+            }));
           }
         } else {
           // Interim result
@@ -107,78 +510,134 @@ export const useResumableSpeechRecognition =
       }
     });
 
+    // Add the recorded file to its session and associate it with any
+    // transcripts that didn't know their file yet
+    const attachRecording = (uri: string | null) => {
+      unattachedUriRef.current = null;
+      const sessionId = recordingSessionIdRef.current;
+      if (sessionId && uri) {
+        const durationMs =
+          measureAudioDuration(uri) ??
+          Date.now() - recordingStartTimeRef.current;
+        if (rerecordTarget?.sessionId === sessionId) {
+          replaceRecordedSegment(
+            sessionId,
+            rerecordTarget.uri,
+            uri,
+            durationMs,
+            recordingLangRef.current
+          );
+        } else {
+          updateSessionWithAudioFile(
+            sessionId,
+            uri,
+            durationMs,
+            recordingLangRef.current
+          );
+        }
+      }
+      setRerecordTarget(null);
+    };
+
     useSpeechRecognitionEvent("audioend", (event: any) => {
+      if (fileRecognitionRef.current) return;
       // Recording ended, the file is now safe to use
       console.log("Local file path:", event.uri);
       // Android: Will be saved as a .wav file
       // iOS: Will be saved as a .wav file
+      attachRecording(event.uri ?? unattachedUriRef.current);
+    });
 
-      // Add the audio file to the current session and associate with latest transcript
-      if (currentSession && event.uri) {
-        updateSessionWithAudioFile(currentSession.id, event.uri);
-
-        // Update the latest transcript with the audio file URI
-        setAllSessions((prev) =>
-          prev.map((session) =>
-            session.id === currentSession.id
-              ? {
-                  ...session,
-                  transcripts: session.transcripts.map((transcript, index) =>
-                    index === session.transcripts.length - 1
-                      ? { ...transcript, audioFileUri: event.uri }
-                      : transcript
-                  ),
-                }
-              : session
-          )
-        );
+    useSpeechRecognitionEvent("end", () => {
+      if (fileRecognitionRef.current) {
+        fileRecognitionRef.current.done();
+        return;
+      }
 
-        if (currentSession) {
-          setCurrentSession((prev) =>
-            prev
-              ? {
-                  ...prev,
-                  transcripts: prev.transcripts.map((transcript, index) =>
-                    index === prev.transcripts.length - 1
-                      ? { ...transcript, audioFileUri: event.uri }
-                      : transcript
-                  ),
-                }
-              : null
-          );
-        }
+      // A recognizer that failed can end without "audioend", keep what it
+      // recorded anyway
+      if (unattachedUriRef.current) {
+        attachRecording(unattachedUriRef.current);
       }
+      setRerecordTarget(null);
+      updateLevel(0);
+      dispatch({ type: "RECOGNITION_ENDED" });
     });
 
-    useSpeechRecognitionEvent("end", () => {
-      setIsListening(false);
-      setIsPaused(true);
-    });
+    useSpeechRecognitionEvent(
+      "error",
+      (event: ExpoSpeechRecognitionErrorEvent) => {
+        console.warn("Speech recognition error:", event.error, event.message);
+        // A file without speech simply has no results
+        if (fileRecognitionRef.current) {
+          if (event.error !== "no-speech") {
+            fileRecognitionRef.current.error = new RecognizerError(
+              event.error,
+              event.message
+            );
+          }
+          return;
+        }
 
-    useSpeechRecognitionEvent("error", (event: any) => {
-      console.error("Speech recognition error:", event.error);
-      setIsListening(false);
-      setIsPaused(false);
-    });
+        const transient =
+          isTransientError(event.error, retryPolicy) &&
+          retryAttemptRef.current < retryPolicy.maxRetries;
+        const error =
+          event.error === "not-allowed"
+            ? new PermissionDeniedError()
+            : new RecognizerError(event.error, event.message);
+        dispatch({ type: "RECOGNITION_ERROR", error, transient });
+      }
+    );
+
+    // Don't restart after unmounting, or keep recognizing a file
+    useEffect(
+      () => () => {
+        if (retryTimerRef.current) {
+          clearTimeout(retryTimerRef.current);
+        }
+        if (fileRecognitionRef.current) {
+          ExpoSpeechRecognitionModule.abort();
+        }
+      },
+      []
+    );
 
     // Create a new recording session
-    const createNewSession = useCallback((): RecordingSession => {
-      const sessionId = `session_${Date.now()}_${sessionCounterRef.current++}`;
-      const newSession: RecordingSession = {
-        id: sessionId,
-        startTime: new Date(),
-        audioFiles: [],
-        transcripts: [],
-        isActive: true,
-      };
+    const createNewSession = useCallback(
+      (
+        recognitionOptions?: Partial<SessionRecognitionOptions>
+      ): RecordingSession => {
+        const sessionId = `session_${Date.now()}_${sessionCounterRef.current++}`;
+        const newSession: RecordingSession = {
+          id: sessionId,
+          startTime: new Date(),
+          audioFiles: [],
+          segments: [],
+          transcripts: [],
+          alternativeTranscripts: [],
+          recognitionOptions: {
+            ...(allSessions[allSessions.length - 1]?.recognitionOptions ??
+              DEFAULT_SESSION_RECOGNITION_OPTIONS),
+            ...recognitionOptions,
+          },
+          segmentLanguages: {},
+          notes: "",
+          tags: [],
+          isActive: true,
+        };
 
-      setAllSessions((prev) => [...prev, newSession]);
-      setCurrentSession(newSession);
-      setTranscript("");
-      setInterimTranscript("");
+        setAllSessions((prev) => [...prev, newSession]);
+        setCurrentSession(newSession);
+        currentSessionRef.current = newSession;
+        setTranscript("");
+        setInterimTranscript("");
+        dispatch({ type: "RESET" });
 
-      return newSession;
-    }, []);
+        return newSession;
+      },
+      [allSessions, dispatch]
+    );
 
     // Switch to an existing session
     const switchToSession = useCallback(
@@ -193,191 +652,800 @@ export const useResumableSpeechRecognition =
       [allSessions]
     );
 
-    // Update session with new audio file from recording events
-    const updateSessionWithAudioFile = useCallback(
-      (sessionId: string, audioFileUri: string) => {
+    // Apply an update to a session in both the session list and current session
+    const updateSession = useCallback(
+      (
+        sessionId: string,
+        update: (session: RecordingSession) => RecordingSession
+      ) => {
         setAllSessions((prev) =>
           prev.map((session) =>
-            session.id === sessionId
-              ? {
-                  ...session,
-                  audioFiles: [...session.audioFiles, audioFileUri],
-                }
-              : session
+            session.id === sessionId ? update(session) : session
           )
         );
+        setCurrentSession((prev) =>
+          prev?.id === sessionId ? update(prev) : prev
+        );
+      },
+      []
+    );
+
+    // Update session with new audio file from recording events
+    const updateSessionWithAudioFile = useCallback(
+      (
+        sessionId: string,
+        audioFileUri: string,
+        durationMs: number,
+        lang: string
+      ) => {
+        updateSession(sessionId, (session) => ({
+          ...session,
+          audioFiles: [...session.audioFiles, audioFileUri],
+          segments: appendSegment(session.segments, audioFileUri, durationMs),
+          segmentLanguages: {
+            ...session.segmentLanguages,
+            [audioFileUri]: lang,
+          },
+          transcripts: session.transcripts.map((transcript) =>
+            transcript.audioFileUri
+              ? transcript
+              : { ...transcript, audioFileUri }
+          ),
+        }));
+      },
+      [updateSession]
+    );
 
+    // Apply an update that changes a session's transcripts, keeping the
+    // displayed transcript in sync when it's the current session
+    const editSession = useCallback(
+      (
+        sessionId: string,
+        update: (session: RecordingSession) => RecordingSession
+      ) => {
+        updateSession(sessionId, update);
         if (currentSession?.id === sessionId) {
-          setCurrentSession((prev) =>
-            prev
-              ? { ...prev, audioFiles: [...prev.audioFiles, audioFileUri] }
-              : null
+          setTranscript(
+            update(currentSession)
+              .transcripts.map((t) => t.transcript)
+              .join(" ")
           );
         }
       },
-      [currentSession]
+      [currentSession, updateSession]
     );
 
-    const sessionOptions = useRef<ExpoSpeechRecognitionOptions | undefined>(
-      undefined
+    // Swap a segment for its new take once the re-recording has ended. The
+    // new results replace the old segment's results.
+    const replaceRecordedSegment = useCallback(
+      (
+        sessionId: string,
+        uri: string,
+        audioFileUri: string,
+        durationMs: number,
+        lang: string
+      ) => {
+        editSession(sessionId, (session) => {
+          const segmentLanguages = replaceSegmentLanguage(
+            session.segmentLanguages,
+            uri,
+            [audioFileUri],
+            lang
+          );
+          // The segment was deleted while recording, keep the new take anyway
+          if (!session.audioFiles.includes(uri)) {
+            return {
+              ...session,
+              audioFiles: [...session.audioFiles, audioFileUri],
+              segments: appendSegment(
+                session.segments,
+                audioFileUri,
+                durationMs
+              ),
+              segmentLanguages,
+              transcripts: session.transcripts.map((transcript) =>
+                transcript.audioFileUri
+                  ? transcript
+                  : { ...transcript, audioFileUri }
+              ),
+            };
+          }
+          const audioFiles = session.audioFiles.map((audioFile) =>
+            audioFile === uri ? audioFileUri : audioFile
+          );
+          return {
+            ...discardAlternative(session, uri),
+            audioFiles,
+            segments: replaceSegment(session.segments, uri, [
+              { uri: audioFileUri, durationMs },
+            ]),
+            segmentLanguages,
+            transcripts: sortTranscriptsBySegment(
+              session.transcripts
+                .filter((transcript) => transcript.audioFileUri !== uri)
+                .map((transcript) =>
+                  transcript.audioFileUri
+                    ? transcript
+                    : { ...transcript, audioFileUri }
+                ),
+              audioFiles
+            ),
+          };
+        });
+        removeAudioFile(uri);
+      },
+      [editSession, removeAudioFile]
     );
 
-    // Start recording
-    const start = useCallback(
-      async (options?: ExpoSpeechRecognitionOptions): Promise<void> => {
-        const { status } =
-          await ExpoSpeechRecognitionModule.requestPermissionsAsync();
-        if (status !== "granted") {
-          console.error("Permissions not granted");
-          throw new Error("Permissions not granted");
+    // Replace a session's segment timing, e.g. with the map returned by
+    // `joinAudioFiles` which is exact even for converted files
+    const updateSessionSegments = useCallback(
+      (sessionId: string, segments: AudioSegment[]) => {
+        updateSession(sessionId, (session) => ({ ...session, segments }));
+      },
+      [updateSession]
+    );
+
+    // Swap an edited audio file for the files the edit produced
+    const replaceAudioFile = useCallback(
+      (
+        sessionId: string,
+        uri: string,
+        replacements: { uri: string; durationMs: number }[]
+      ) => {
+        // Alternative results of the original audio are out of date
+        updateSession(sessionId, (session) => ({
+          ...discardAlternative(session, uri),
+          audioFiles: session.audioFiles.flatMap((audioFile) =>
+            audioFile === uri
+              ? replacements.map((replacement) => replacement.uri)
+              : [audioFile]
+          ),
+          segments: replaceSegment(session.segments, uri, replacements),
+          segmentLanguages: replaceSegmentLanguage(
+            session.segmentLanguages,
+            uri,
+            replacements.map((replacement) => replacement.uri)
+          ),
+          // Results carry no timing within their file, so they stay with the
+          // first replacement
+          transcripts: session.transcripts.map((transcript) =>
+            transcript.audioFileUri === uri
+              ? { ...transcript, audioFileUri: replacements[0]?.uri }
+              : transcript
+          ),
+        }));
+        removeAudioFile(uri);
+      },
+      [updateSession, removeAudioFile]
+    );
+
+    // The file being recorded is still growing and can't be edited
+    const assertNotRecording = useCallback(
+      (uri: string) => {
+        if (isRecordingActive(status) && recordingUriRef.current === uri) {
+          throw recordError(
+            new AlreadyListeningError(
+              "Can't edit the file that is being recorded. Pause first."
+            )
+          );
         }
-        if (options) {
-          sessionOptions.current = options;
+      },
+      [status, recordError]
+    );
+
+    // Split one of a session's audio files, e.g. a long take, into parts
+    const splitSegment = useCallback(
+      async (sessionId: string, uri: string, offsetsMs: number[]) => {
+        assertNotRecording(uri);
+        const { parts } = await AudioutilsModule.splitAudioFile(uri, offsetsMs);
+        replaceAudioFile(sessionId, uri, parts);
+        return parts.map((part) => part.uri);
+      },
+      [assertNotRecording, replaceAudioFile]
+    );
+
+    // Remove a range, e.g. a false start, from one of a session's audio files
+    const cutSegmentRange = useCallback(
+      async (
+        sessionId: string,
+        uri: string,
+        startMs: number,
+        endMs: number
+      ) => {
+        assertNotRecording(uri);
+        const result = await AudioutilsModule.cutRange(uri, startMs, endMs);
+        replaceAudioFile(sessionId, uri, [result]);
+        return result.uri;
+      },
+      [assertNotRecording, replaceAudioFile]
+    );
+
+    // Delete one of a session's segments with its audio and transcript
+    const deleteSegment = useCallback(
+      (sessionId: string, index: number) => {
+        const uri = allSessions.find((session) => session.id === sessionId)
+          ?.audioFiles[index];
+        if (!uri) return;
+        if (rerecordTarget?.uri === uri) {
+          throw recordError(
+            new AlreadyListeningError(
+              "Can't delete the segment that is being re-recorded. Stop it first."
+            )
+          );
         }
-        // Create new session if none exists or current session is ended
-        if (!currentSession || !currentSession.isActive) {
-          createNewSession();
+        try {
+          deleteAudioFile(uri);
+        } catch (error) {
+          throw recordError(error as FileIOError);
         }
 
-        // Merge with default recording options
+        editSession(sessionId, (session) => ({
+          ...discardAlternative(session, uri),
+          audioFiles: session.audioFiles.filter(
+            (audioFile) => audioFile !== uri
+          ),
+          segments: replaceSegment(session.segments, uri, []),
+          segmentLanguages: replaceSegmentLanguage(
+            session.segmentLanguages,
+            uri,
+            []
+          ),
+          transcripts: session.transcripts.filter(
+            (transcript) => transcript.audioFileUri !== uri
+          ),
+        }));
+      },
+      [allSessions, rerecordTarget, editSession, recordError]
+    );
+
+    // Move a segment to another position in its session
+    const moveSegment = useCallback(
+      (sessionId: string, fromIndex: number, toIndex: number) => {
+        editSession(sessionId, (session) => {
+          const count = session.audioFiles.length;
+          if (
+            fromIndex === toIndex ||
+            fromIndex < 0 ||
+            fromIndex >= count ||
+            toIndex < 0 ||
+            toIndex >= count
+          ) {
+            return session;
+          }
+          const audioFiles = [...session.audioFiles];
+          const [moved] = audioFiles.splice(fromIndex, 1);
+          audioFiles.splice(toIndex, 0, moved);
+          return {
+            ...session,
+            audioFiles,
+            segments: reorderSegments(session.segments, audioFiles),
+            transcripts: sortTranscriptsBySegment(
+              session.transcripts,
+              audioFiles
+            ),
+            alternativeTranscripts: sortTranscriptsBySegment(
+              session.alternativeTranscripts,
+              audioFiles
+            ),
+          };
+        });
+      },
+      [editSession]
+    );
+
+    // Change a session's language or hints. A recording in progress keeps its
+    // options, they apply from the next start or resume.
+    const setRecognitionOptions = useCallback(
+      (
+        sessionId: string,
+        recognitionOptions: Partial<SessionRecognitionOptions>
+      ) => {
+        const update = (session: RecordingSession) => ({
+          ...session,
+          recognitionOptions: {
+            ...session.recognitionOptions,
+            ...recognitionOptions,
+          },
+        });
+        updateSession(sessionId, update);
+        // A start right after this reads the session before the next render
+        if (currentSessionRef.current?.id === sessionId) {
+          currentSessionRef.current = update(currentSessionRef.current);
+        }
+      },
+      [updateSession]
+    );
+
+    const renameSession = useCallback(
+      (sessionId: string, title: string) => {
+        updateSession(sessionId, (session) => ({
+          ...session,
+          title: title.trim() || undefined,
+        }));
+      },
+      [updateSession]
+    );
+
+    const setSessionNotes = useCallback(
+      (sessionId: string, notes: string) => {
+        updateSession(sessionId, (session) => ({ ...session, notes }));
+      },
+      [updateSession]
+    );
+
+    const setSessionTags = useCallback(
+      (sessionId: string, tags: string[]) => {
+        updateSession(sessionId, (session) => ({
+          ...session,
+          tags: normalizeTags(tags),
+        }));
+      },
+      [updateSession]
+    );
+
+    // Options of the last `start()`, shared by all sessions. Each session's
+    // own recognition options go on top.
+    const recognizerOptions = useRef<ExpoSpeechRecognitionOptions | undefined>(
+      undefined
+    );
+
+    // Effects of the state machine's transitions. Reassigned on every render
+    // so they see the latest state.
+    effectsRef.current = {
+      requestPermission: () => {
+        ExpoSpeechRecognitionModule.requestPermissionsAsync()
+          .then(({ status }) => {
+            dispatch({
+              type:
+                status === "granted"
+                  ? "PERMISSION_GRANTED"
+                  : "PERMISSION_DENIED",
+            });
+          })
+          .catch((error) => {
+            console.warn("Error requesting permissions:", error);
+            dispatch({ type: "PERMISSION_DENIED" });
+          });
+      },
+
+      // Start recognition into a new file of the current session
+      startRecognition: () => {
+        const session = currentSessionRef.current;
+        recordingSessionIdRef.current = session?.id ?? null;
+        const recognitionOptions =
+          session?.recognitionOptions ?? DEFAULT_SESSION_RECOGNITION_OPTIONS;
+        recordingLangRef.current = recognitionOptions.lang;
+
+        // Merge with default recording options. The level and the silence
+        // limit need the recognizer's volume events.
         const startOptions = {
-          ...sessionOptions.current,
+          ...recognizerOptions.current,
+          ...recognitionOptions,
+          volumeChangeEventOptions: {
+            enabled: true,
+            intervalMillis: 100,
+            ...recognizerOptions.current?.volumeChangeEventOptions,
+          },
           recordingOptions: {
             persist: true,
             outputDirectory: FileSystem.Paths.document.uri || undefined,
             outputFileName: `recording_${
-              currentSession?.id || "session"
+              session?.id || "session"
             }_${Date.now()}.wav`,
             outputSampleRate: 16000,
             outputEncoding: "pcmFormatInt16" as const,
-            ...sessionOptions.current?.recordingOptions,
+            ...recognizerOptions.current?.recordingOptions,
           },
         };
 
-        return new Promise((resolve, reject) => {
-          const startListener = ExpoSpeechRecognitionModule.addListener(
-            "start",
-            () => {
-              startListener.remove();
-              resolve();
-            }
-          );
-
-          const errorListener = ExpoSpeechRecognitionModule.addListener(
-            "error",
-            (error) => {
-              errorListener.remove();
-              reject(error);
-            }
-          );
-
+        try {
           ExpoSpeechRecognitionModule.start(startOptions);
-        });
+        } catch (error) {
+          dispatch({
+            type: "RECOGNITION_ERROR",
+            error: new RecognizerError("start-failed", String(error)),
+            transient: false,
+          });
+        }
       },
-      [currentSession, createNewSession]
-    );
 
-    // Pause recording
-    const pause = useCallback(async () => {
-      try {
-        if (!isListening) {
-          console.warn("Not currently listening");
-          return;
+      scheduleRetry: () => {
+        const delay = retryDelay(retryAttemptRef.current, retryPolicy);
+        retryAttemptRef.current++;
+        console.warn(
+          `Restarting speech recognition in ${delay}ms (attempt ${retryAttemptRef.current} of ${retryPolicy.maxRetries})`
+        );
+        retryTimerRef.current = setTimeout(() => {
+          retryTimerRef.current = null;
+          dispatch({ type: "RETRY" });
+        }, delay);
+      },
+
+      cancelRetry: () => {
+        if (retryTimerRef.current) {
+          clearTimeout(retryTimerRef.current);
+          retryTimerRef.current = null;
         }
-        ExpoSpeechRecognitionModule.stop();
-      } catch (error) {
-        console.error("Error pausing speech recognition:", error);
-      }
-    }, [isListening]);
+      },
 
-    // Resume recording
-    const resume = useCallback(async () => {
-      try {
-        if (isListening) {
-          console.warn("Already listening");
-          return;
+      stopRecognition: () => {
+        try {
+          ExpoSpeechRecognitionModule.stop();
+        } catch (error) {
+          reportError(new RecognizerError("stop-failed", String(error)));
         }
+      },
 
-        if (!currentSession) {
-          console.warn("No active session to resume");
-          return;
+      endSession: () => {
+        const sessionId = recordingSessionIdRef.current;
+        if (sessionId) {
+          updateSession(sessionId, (session) => ({
+            ...session,
+            isActive: false,
+            endTime: new Date(),
+          }));
         }
+      },
+    };
 
-        await start();
-      } catch (error) {
-        console.error("Error resuming speech recognition:", error);
-      }
-    }, [isListening, currentSession, start]);
+    // Ask the state machine to start and wait until the recording started.
+    // Rejects when permissions are denied or the recognizer fails to start.
+    const requestStart = useCallback(
+      () =>
+        new Promise<void>((resolve, reject) => {
+          // The recognizer is busy with a recorded file
+          if (isRetranscribingRef.current) {
+            reject(
+              recordError(
+                new AlreadyListeningError(
+                  "A session is being re-transcribed. Wait for it to finish."
+                )
+              )
+            );
+            return;
+          }
+          startWaitersRef.current.push({ resolve, reject });
+          retryAttemptRef.current = 0;
+          setLastError(null);
+          setAutoStop(null);
+          dispatch({ type: "START" });
+        }),
+      [dispatch, recordError]
+    );
 
-    // Stop recording
-    const stop = useCallback(async () => {
-      try {
-        if (!isListening && !isPaused) {
-          console.warn("Not currently recording");
-          return;
+    // Start recording
+    const start = useCallback(
+      async (options?: ExpoSpeechRecognitionOptions): Promise<void> => {
+        if (options) {
+          recognizerOptions.current = options;
         }
+        // Language and hints passed here become the session's
+        const recognitionOptions = options
+          ? pickSessionRecognitionOptions(options)
+          : {};
+        // Create new session if none exists or current session is ended,
+        // including one that ends once the pending stop is through
+        const machine = machineRef.current;
+        if (
+          !currentSession ||
+          !currentSession.isActive ||
+          machine.status === "stopping" ||
+          machine.queued === "stop"
+        ) {
+          createNewSession(recognitionOptions);
+        } else if (Object.keys(recognitionOptions).length > 0) {
+          setRecognitionOptions(currentSession.id, recognitionOptions);
+        }
+        return requestStart();
+      },
+      [currentSession, createNewSession, setRecognitionOptions, requestStart]
+    );
 
-        if (isListening) {
-          ExpoSpeechRecognitionModule.stop();
+    // Re-record a segment of the current session. Recording is stopped with
+    // `pause`, and the new take replaces the segment and its transcript.
+    const rerecordSegment = useCallback(
+      async (index: number) => {
+        if (isRecordingActive(machineRef.current.status)) {
+          throw recordError(new AlreadyListeningError());
         }
+        const uri = currentSession?.audioFiles[index];
+        if (!currentSession || !uri) {
+          throw recordError(
+            new NoSessionError(`There is no segment ${index + 1} to re-record.`)
+          );
+        }
+
+        setRerecordTarget({ sessionId: currentSession.id, uri });
+        try {
+          await requestStart();
+        } catch (error) {
+          setRerecordTarget(null);
+          throw error;
+        }
+      },
+      [currentSession, requestStart, recordError]
+    );
 
-        setIsListening(false);
-        setIsPaused(false);
+    // Feed a recorded file back through the recognizer, which is usually
+    // more accurate than the live results
+    const recognizeFile = (
+      uri: string,
+      info: AudioInfo,
+      recognitionOptions: SessionRecognitionOptions
+    ) =>
+      new Promise<string[]>((resolve, reject) => {
+        const fileRecognition: FileRecognition = {
+          transcripts: [],
+          done: () => {
+            clearTimeout(timeout);
+            fileRecognitionRef.current = null;
+            if (fileRecognition.error) {
+              reject(fileRecognition.error);
+            } else {
+              resolve(fileRecognition.transcripts);
+            }
+          },
+        };
+        fileRecognitionRef.current = fileRecognition;
 
-        // End current session
-        if (currentSession) {
-          setAllSessions((prev) =>
-            prev.map((session) =>
-              session.id === currentSession.id
-                ? { ...session, isActive: false, endTime: new Date() }
-                : session
-            )
+        // Without an "end" event the re-transcription would never finish
+        const timeoutMs =
+          info.durationMs * 2 + FILE_RECOGNITION_TIMEOUT_MARGIN_MS;
+        const timeout = setTimeout(() => {
+          if (fileRecognitionRef.current !== fileRecognition) return;
+          fileRecognition.error = new RecognizerError(
+            "timed-out",
+            `No result for ${uri} after ${Math.round(timeoutMs / 1000)}s`
           );
+          try {
+            ExpoSpeechRecognitionModule.abort();
+          } catch (error) {
+            console.warn("Failed to abort the file recognition:", error);
+          }
+          fileRecognition.done();
+        }, timeoutMs);
+
+        try {
+          ExpoSpeechRecognitionModule.start({
+            ...recognitionOptions,
+            interimResults: false,
+            continuous: true,
+            audioSource: {
+              uri,
+              audioChannels: info.numChannels,
+              audioEncoding: AudioEncodingAndroid.ENCODING_PCM_16BIT,
+              sampleRate: info.sampleRate,
+            },
+          });
+        } catch (error) {
+          clearTimeout(timeout);
+          fileRecognitionRef.current = null;
+          reject(new RecognizerError("start-failed", String(error)));
+        }
+      });
 
-          setCurrentSession((prev) =>
-            prev ? { ...prev, isActive: false, endTime: new Date() } : null
+    // Transcribe a session's files again, one at a time. Each file's results
+    // are stored as soon as it's done, next to the live ones.
+    const retranscribeSession = useCallback(
+      async (sessionId: string) => {
+        if (
+          isRecordingActive(machineRef.current.status) ||
+          isRetranscribingRef.current
+        ) {
+          throw recordError(
+            new AlreadyListeningError(
+              "The recognizer is busy. Pause the recording or wait for the re-transcription to finish."
+            )
+          );
+        }
+        const session = allSessions.find((s) => s.id === sessionId);
+        if (!session || session.audioFiles.length === 0) {
+          throw recordError(
+            new NoSessionError("There are no recordings to re-transcribe.")
           );
         }
-      } catch (error) {
-        console.error("Error stopping speech recognition:", error);
-      }
-    }, [isListening, isPaused, currentSession]);
 
-    // Clear all sessions
-    const clearSessions = useCallback(async () => {
-      try {
-        // Delete all audio files
-        for (const session of allSessions) {
-          for (const audioFile of session.audioFiles) {
+        isRetranscribingRef.current = true;
+        try {
+          const { status } =
+            await ExpoSpeechRecognitionModule.requestPermissionsAsync();
+          if (status !== "granted") {
+            throw new PermissionDeniedError();
+          }
+
+          for (const [fileIndex, uri] of session.audioFiles.entries()) {
+            setRetranscription({
+              sessionId,
+              fileIndex,
+              fileCount: session.audioFiles.length,
+            });
+            let info: AudioInfo;
             try {
-              const file = new FileSystem.File(audioFile);
-              const fileInfo = file.info();
-              if (fileInfo.exists) {
-                file.delete();
-              }
+              info = await AudioutilsModule.getAudioInfo(uri);
             } catch (error) {
-              console.error("Error deleting audio file:", audioFile, error);
+              throw new FileIOError(uri, error);
             }
+            // In the language the file was recorded in
+            const transcripts = await recognizeFile(uri, info, {
+              ...session.recognitionOptions,
+              lang:
+                session.segmentLanguages[uri] ??
+                session.recognitionOptions.lang,
+            });
+            // The segment may have been deleted or edited in the meantime
+            updateSession(sessionId, (current) =>
+              current.audioFiles.includes(uri)
+                ? setAlternativeTranscripts(current, uri, transcripts)
+                : current
+            );
           }
+        } catch (error) {
+          throw recordError(error as RecognitionError);
+        } finally {
+          isRetranscribingRef.current = false;
+          setRetranscription(null);
         }
+      },
+      [allSessions, updateSession, recordError]
+    );
 
-        setAllSessions([]);
-        setCurrentSession(null);
-        setTranscript("");
-        setInterimTranscript("");
-      } catch (error) {
-        console.error("Error clearing sessions:", error);
+    // Use a segment's alternative transcript instead of the live one
+    const acceptRetranscription = useCallback(
+      (sessionId: string, index: number) => {
+        editSession(sessionId, (session) => {
+          const uri = session.audioFiles[index];
+          return uri ? acceptAlternative(session, uri) : session;
+        });
+      },
+      [editSession]
+    );
+
+    // Keep a segment's live transcript
+    const discardRetranscription = useCallback(
+      (sessionId: string, index: number) => {
+        updateSession(sessionId, (session) => {
+          const uri = session.audioFiles[index];
+          return uri ? discardAlternative(session, uri) : session;
+        });
+      },
+      [updateSession]
+    );
+
+    // Apply a change to one of a session's transcript results
+    const reviseTranscript = useCallback(
+      (
+        sessionId: string,
+        index: number,
+        revise: (result: SpeechRecognitionResult) => SpeechRecognitionResult
+      ) => {
+        editSession(sessionId, (session) =>
+          session.transcripts[index]
+            ? {
+                ...session,
+                transcripts: session.transcripts.map((result, resultIndex) =>
+                  resultIndex === index ? revise(result) : result
+                ),
+              }
+            : session
+        );
+      },
+      [editSession]
+    );
+
+    // Correct a result, adding a revision to its history
+    const editTranscript = useCallback(
+      (sessionId: string, index: number, text: string) => {
+        reviseTranscript(sessionId, index, (result) =>
+          reviseResult(result, text)
+        );
+      },
+      [reviseTranscript]
+    );
+
+    const undoTranscriptEdit = useCallback(
+      (sessionId: string, index: number) => {
+        reviseTranscript(sessionId, index, undoRevision);
+      },
+      [reviseTranscript]
+    );
+
+    const redoTranscriptEdit = useCallback(
+      (sessionId: string, index: number) => {
+        reviseTranscript(sessionId, index, redoRevision);
+      },
+      [reviseTranscript]
+    );
+
+    // Pause recording. A pause requested while starting applies once the
+    // recording started.
+    const pause = useCallback(async () => {
+      if (!currentSession || !isRecordingActive(machineRef.current.status)) {
+        throw recordError(
+          new NoSessionError("There is no recording to pause.")
+        );
       }
-    }, [allSessions]);
+      dispatch({ type: "PAUSE" });
+    }, [currentSession, dispatch, recordError]);
+
+    // Resume recording. Resuming while a pause is still pending is queued.
+    const resume = useCallback(async () => {
+      if (!currentSession) {
+        throw recordError(new NoSessionError());
+      }
+      const { status } = machineRef.current;
+      if (
+        status === "requesting-permission" ||
+        status === "starting" ||
+        status === "listening" ||
+        status === "retrying"
+      ) {
+        throw recordError(new AlreadyListeningError("Already recording."));
+      }
+
+      await start();
+    }, [currentSession, start, recordError]);
+
+    // Stop recording and end the session
+    const stop = useCallback(async () => {
+      const { status } = machineRef.current;
+      if (!currentSession || status === "idle" || status === "stopped") {
+        throw recordError(new NoSessionError("There is no recording to stop."));
+      }
+      dispatch({ type: "STOP" });
+    }, [currentSession, dispatch, recordError]);
+
+    // Clear all sessions. Sessions are cleared even if some audio files
+    // couldn't be deleted, which rejects with the first failure.
+    const clearSessions = useCallback(async () => {
+      if (isRecordingActive(machineRef.current.status)) {
+        throw recordError(
+          new AlreadyListeningError("Stop recording before clearing sessions.")
+        );
+      }
+
+      // Delete all audio files
+      let failure: FileIOError | null = null;
+      for (const session of allSessions) {
+        for (const uri of session.audioFiles) {
+          try {
+            deleteAudioFile(uri);
+          } catch (error) {
+            failure = failure ?? (error as FileIOError);
+          }
+        }
+      }
+
+      setAllSessions([]);
+      setCurrentSession(null);
+      setTranscript("");
+      setInterimTranscript("");
+      dispatch({ type: "RESET" });
+
+      if (failure) {
+        throw recordError(failure);
+      }
+    }, [allSessions, dispatch, recordError]);
+
+    const clearError = useCallback(() => setLastError(null), []);
+
+    const rerecordingIndex =
+      rerecordTarget && rerecordTarget.sessionId === currentSession?.id
+        ? currentSession.audioFiles.indexOf(rerecordTarget.uri)
+        : -1;
 
     return {
       // State
-      isListening,
-      isPaused,
+      status,
       currentSession,
       allSessions,
       transcript,
       interimTranscript,
+      rerecordingIndex: rerecordingIndex >= 0 ? rerecordingIndex : null,
+      lastError,
+      autoStop,
+      level,
+      retranscription,
 
       // Actions
       start,
@@ -385,9 +1453,34 @@ export const useResumableSpeechRecognition =
       resume,
       stop,
       clearSessions,
+      clearError,
 
       // Session management
       createNewSession,
+      setRecognitionOptions,
       switchToSession,
+      renameSession,
+      setSessionNotes,
+      setSessionTags,
+      updateSessionSegments,
+
+      // Audio editing
+      splitSegment,
+      cutSegmentRange,
+
+      // Segment editing
+      deleteSegment,
+      moveSegment,
+      rerecordSegment,
+
+      // Re-transcription
+      retranscribeSession,
+      acceptRetranscription,
+      discardRetranscription,
+
+      // Transcript corrections
+      editTranscript,
+      undoTranscriptEdit,
+      redoTranscriptEdit,
     };
   };
@@ -0,0 +1,106 @@
+import { useEffect, useRef } from "react";
+import * as FileSystem from "expo-file-system";
+import {
+  RecordingPresets,
+  setAudioModeAsync,
+  useAudioRecorder,
+  useAudioRecorderState,
+} from "expo-audio";
+
+// Input level in dBFS above which the microphone is considered to hear a voice
+export const DEFAULT_VOICE_THRESHOLD_DB = -35;
+
+// How often the input level is sampled
+const METERING_INTERVAL_MS = 100;
+
+export interface UseVoiceActivityOptions {
+  /** Listen to the microphone while true */
+  enabled: boolean;
+  /** Level that counts as voice, in dBFS */
+  thresholdDb?: number;
+  /**
+   * Called once when a voice is heard, after the microphone was released so
+   * the speech recognizer can take it over
+   */
+  onVoice: () => void;
+}
+
+/**
+ * Watch the microphone level while the speech recognizer isn't running, e.g.
+ * to resume a paused recording when the user starts talking again. The
+ * monitoring recording is thrown away.
+ */
+export const useVoiceActivity = ({
+  enabled,
+  thresholdDb = DEFAULT_VOICE_THRESHOLD_DB,
+  onVoice,
+}: UseVoiceActivityOptions) => {
+  const recorder = useAudioRecorder({
+    ...RecordingPresets.LOW_QUALITY,
+    isMeteringEnabled: true,
+  });
+  const recorderState = useAudioRecorderState(recorder, METERING_INTERVAL_MS);
+  const onVoiceRef = useRef(onVoice);
+  onVoiceRef.current = onVoice;
+  // Set once a voice was heard, until monitoring is enabled again
+  const triggeredRef = useRef(false);
+
+  // Stop monitoring and delete what it recorded
+  const stopMonitoring = async () => {
+    if (recorder.isRecording) {
+      await recorder.stop();
+    }
+    if (recorder.uri) {
+      const file = new FileSystem.File(recorder.uri);
+      if (file.exists) {
+        file.delete();
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (!enabled) return;
+    triggeredRef.current = false;
+    let cancelled = false;
+
+    (async () => {
+      await setAudioModeAsync({
+        allowsRecording: true,
+        playsInSilentMode: true,
+      });
+      await recorder.prepareToRecordAsync();
+      if (!cancelled) {
+        recorder.record();
+      }
+    })().catch((error) => {
+      console.warn("Error monitoring voice activity:", error);
+    });
+
+    return () => {
+      cancelled = true;
+      stopMonitoring().catch((error) => {
+        console.warn("Error stopping voice activity monitoring:", error);
+      });
+    };
+  }, [enabled, recorder]);
+
+  const level = recorderState.metering;
+  useEffect(() => {
+    if (
+      !enabled ||
+      triggeredRef.current ||
+      !recorderState.isRecording ||
+      level === undefined ||
+      level <= thresholdDb
+    ) {
+      return;
+    }
+
+    triggeredRef.current = true;
+    stopMonitoring()
+      .catch((error) => {
+        console.warn("Error stopping voice activity monitoring:", error);
+      })
+      .finally(() => onVoiceRef.current());
+  }, [enabled, level, thresholdDb, recorderState.isRecording]);
+};
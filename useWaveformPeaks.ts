@@ -0,0 +1,72 @@
+import { useEffect, useMemo, useState } from "react";
+import AudioutilsModule, { WaveformPeaksResult } from "./modules/audioutils";
+import { getFileVersion } from "./fileVersion";
+
+// Peaks by bucket count and URI, read again once the file was rewritten
+const peaksCache = new Map<
+  string,
+  { version: string; peaks: Promise<WaveformPeaksResult> }
+>();
+
+const loadWaveformPeaks = (
+  uri: string,
+  buckets: number,
+  version: string
+): Promise<WaveformPeaksResult | null> => {
+  const key = `${buckets}:${uri}`;
+  let cached = peaksCache.get(key);
+  if (!cached || cached.version !== version) {
+    cached = {
+      version,
+      peaks: AudioutilsModule.getWaveformPeaks(uri, buckets),
+    };
+    peaksCache.set(key, cached);
+  }
+  const { peaks } = cached;
+  return peaks.catch((error) => {
+    // Try again next time, the failure may not last
+    if (peaksCache.get(key)?.peaks === peaks) {
+      peaksCache.delete(key);
+    }
+    console.warn("Could not read waveform peaks:", uri, error);
+    return null;
+  });
+};
+
+/**
+ * Read the min/max peaks of an audio file with getWaveformPeaks
+ * @param uri - Audio file to read, nothing is loaded without one
+ * @param buckets - Number of peaks, e.g. one per bar of the waveform
+ * @param refreshKey - Check the file for a rewrite again when this changes,
+ * e.g. the segments of a joined file
+ * @returns The peaks, null until loaded or if the file couldn't be read
+ */
+export const useWaveformPeaks = (
+  uri: string | null,
+  buckets: number,
+  refreshKey?: unknown
+): WaveformPeaksResult | null => {
+  const [peaks, setPeaks] = useState<WaveformPeaksResult | null>(null);
+  // Read again when the file at the URI was rewritten, e.g. by a join. Only
+  // stat the file when the URI or the refresh key change, not on every render.
+  const version = useMemo(
+    () => (uri ? getFileVersion(uri) : ""),
+    [uri, refreshKey]
+  );
+
+  useEffect(() => {
+    setPeaks(null);
+    if (!uri) return;
+    let cancelled = false;
+
+    loadWaveformPeaks(uri, buckets, version).then((loaded) => {
+      if (!cancelled) setPeaks(loaded);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uri, buckets, version]);
+
+  return peaks;
+};